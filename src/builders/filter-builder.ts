@@ -0,0 +1,208 @@
+import {
+    FilterGroup,
+    FilterCondition,
+    FilterOperator,
+    FilterType,
+    LinkEntity,
+    LinkType,
+    ColumnOperator,
+    ColumnReference,
+    AliasedColumn,
+    OperatorFor,
+    ConditionArgs
+} from '../types';
+import { JoinBuilder } from './join-builder';
+import { Validator } from '../validators';
+import { ValidationError } from '../errors';
+import { Logger } from '../logger';
+
+/**
+ * Filter Builder
+ * Collects conditions and nested groups for a single filter group
+ */
+export class FilterBuilder<T> {
+    private logger = Logger.getInstance();
+
+    constructor(private group: FilterGroup) {
+        this.logger.debug('Creating FilterBuilder', { type: group.type });
+    }
+
+    /**
+     * Add where condition. The attribute may target a link entity, either as
+     * "alias.attribute" or by passing the join builder of that link entity.
+     */
+    public where<K extends keyof T, O extends OperatorFor<T[K]>>(attribute: K, operator: O, ...value: ConditionArgs<T[K], O>): this;
+    public where(attribute: AliasedColumn, operator: FilterOperator, value?: any): this;
+    public where<U, K extends keyof U, O extends OperatorFor<U[K]>>(link: JoinBuilder<U, any>, attribute: K, operator: O, ...value: ConditionArgs<U[K], O>): this;
+    public where(target: ColumnReference<T> | JoinBuilder<any, any>, ...args: any[]): this {
+        try {
+            const condition = FilterBuilder.createCondition(target, args);
+
+            this.logger.debug('Adding where condition to filter group', condition);
+
+            this.group.conditions.push(condition);
+            return this;
+        } catch (error) {
+            this.logger.error('Failed to add where condition to filter group', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Add condition comparing two columns
+     */
+    public whereColumn(attribute: keyof T, operator: ColumnOperator, otherAttribute: ColumnReference<T>): this {
+        try {
+            const attributeName = attribute as string;
+            const reference = otherAttribute as string;
+
+            Validator.validateAttributeName(attributeName);
+            Validator.validateColumnReference(reference);
+
+            const validOperator = Validator.validateColumnOperator(operator);
+
+            this.logger.debug('Adding column comparison to filter group', {
+                attribute: attributeName,
+                operator: validOperator,
+                valueof: reference
+            });
+
+            const condition: FilterCondition = {
+                attribute: attributeName,
+                operator: validOperator,
+                valueof: reference
+            };
+
+            this.group.conditions.push(condition);
+            return this;
+        } catch (error) {
+            this.logger.error('Failed to add column comparison to filter group', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Add nested filter group
+     */
+    public whereGroup(type: FilterType, build: (group: FilterBuilder<T>) => void): this {
+        const nested = FilterBuilder.createGroup<T>(type, build);
+
+        if (nested) this.group.conditions.push(nested);
+        return this;
+    }
+
+    /**
+     * Keep only records that have at least one matching related record.
+     * The link is placed in this group, e.g. to combine it with conditions by or.
+     */
+    public whereExists<U>(
+        entityName: string,
+        fromAttribute: keyof T,
+        toAttribute: string,
+        alias?: string
+    ): JoinBuilder<U, this> {
+        return this.addLink<U>(entityName, fromAttribute as string, toAttribute, alias, 'any');
+    }
+
+    /**
+     * Keep only records that have no matching related record.
+     * The link is placed in this group, e.g. to combine it with conditions by or.
+     */
+    public whereNotExists<U>(
+        entityName: string,
+        fromAttribute: keyof T,
+        toAttribute: string,
+        alias?: string
+    ): JoinBuilder<U, this> {
+        return this.addLink<U>(entityName, fromAttribute as string, toAttribute, alias, 'not any');
+    }
+
+    /**
+     * Create a validated condition from the arguments of a where call,
+     * resolving "alias.attribute" references and join builders to entityname
+     */
+    public static createCondition(target: string | number | symbol | JoinBuilder<any, any>, args: any[]): FilterCondition {
+        let entityName: string | undefined;
+        let attributeName: string;
+        let operator: FilterOperator;
+        let value: any;
+
+        if (typeof target === 'object') {
+            entityName = target.alias;
+            [attributeName, operator, value] = args;
+
+            if (!entityName) {
+                throw new ValidationError('A join used in a condition must have an alias', 'entityname');
+            }
+        } else {
+            const reference = target as string;
+            [operator, value] = args;
+
+            if (typeof reference === 'string' && reference.includes('.')) {
+                Validator.validateColumnReference(reference);
+                [entityName, attributeName] = reference.split('.');
+            } else {
+                attributeName = reference;
+            }
+        }
+
+        Validator.validateAttributeName(attributeName);
+
+        const validOperator = Validator.validateFilterOperator(operator);
+        Validator.validateConditionValue(validOperator, value);
+
+        const condition: FilterCondition = {
+            attribute: attributeName,
+            operator: validOperator,
+            value
+        };
+
+        if (entityName) condition.entityname = entityName;
+        return condition;
+    }
+
+    /**
+     * Create a filter group and populate it through the given callback.
+     * Returns undefined when the callback did not add any condition or link.
+     */
+    public static createGroup<T>(type: FilterType, build: (group: FilterBuilder<T>) => void): FilterGroup | undefined {
+        const validType = Validator.validateFilterType(type);
+        const group: FilterGroup = { type: validType, conditions: [] };
+
+        build(new FilterBuilder<T>(group));
+
+        if (group.conditions.length === 0 && !group.links) {
+            Logger.getInstance().debug('Skipping empty filter group', { type: validType });
+            return undefined;
+        }
+
+        return group;
+    }
+
+    private addLink<U>(entityName: string, fromAttribute: string, toAttribute: string, alias: string | undefined, linkType: LinkType): JoinBuilder<U, this> {
+        try {
+            Validator.validateEntityName(entityName);
+            Validator.validateAttributeName(fromAttribute);
+            Validator.validateAttributeName(toAttribute);
+
+            this.logger.debug('Adding link to filter group', { entityName, fromAttribute, toAttribute, alias, linkType });
+
+            const link: LinkEntity = {
+                name: entityName,
+                from: toAttribute,
+                to: fromAttribute,
+                alias,
+                linkType,
+                attributes: []
+            };
+
+            if (!this.group.links) this.group.links = [];
+
+            this.group.links.push(link);
+            return new JoinBuilder<U, this>(link, this);
+        } catch (error) {
+            this.logger.error('Failed to add link to filter group', { error: (error as Error).message });
+            throw error;
+        }
+    }
+}
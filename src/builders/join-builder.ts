@@ -1,23 +1,49 @@
-import { LinkEntity, FilterCondition, FilterOperator } from '../types';
+import {
+    LinkEntity,
+    FilterCondition,
+    FilterOperator,
+    FilterType,
+    ColumnOperator,
+    ColumnReference,
+    OrderType,
+    AggregateType,
+    GroupByOptions,
+    LinkType,
+    OperatorFor,
+    ConditionArgs,
+    Relationship
+} from '../types';
 import { BaseEntity } from '../entities/base-entity';
+import { FilterBuilder } from './filter-builder';
+import { createRelationshipLinks } from '../relationships/relationship';
+import { EntitySchema } from '../metadata/entity-schema';
 import { Validator } from '../validators';
 import { Logger } from '../logger';
 
 /**
  * Join Builder
+ * T is the type of the linked entity, P the builder returned by end()
  */
-export class JoinBuilder<T> {
+export class JoinBuilder<T, P = BaseEntity> {
     private logger = Logger.getInstance();
 
-    constructor(private link: LinkEntity, private parent: BaseEntity) {
+    constructor(private link: LinkEntity, private parent: P) {
         this.logger.debug('Creating JoinBuilder', { entityName: link.name });
     }
 
+    /**
+     * Alias of the link entity
+     */
+    public get alias(): string | undefined {
+        return this.link.alias;
+    }
+
     /**
      * Select attributes
      */
     public select(...attributes: (keyof T)[]): this {
         try {
+            Validator.validateLinkSelectable(this.link);
             this.logger.debug('Adding select attributes to join', { attributes });
 
             const newAttributes = attributes.map(attr => {
@@ -27,9 +53,10 @@ export class JoinBuilder<T> {
                 return { name: attributeName };
             });
 
-            this.link.attributes.push(...newAttributes);
+            const join = this.writable();
+            join.link.attributes.push(...newAttributes);
 
-            return this;
+            return join;
         } catch (error) {
             this.logger.error('Failed to add select attributes to join', { error: (error as Error).message });
             throw error;
@@ -43,26 +70,65 @@ export class JoinBuilder<T> {
         try {
             const attributeName = attribute as string;
 
+            Validator.validateLinkSelectable(this.link);
             Validator.validateAttributeName(attributeName);
             Validator.validateAttributeName(alias);
 
             this.logger.debug('Adding select with alias to join', { attribute: attributeName, alias });
 
-            this.link.attributes.push({
+            const join = this.writable();
+
+            join.link.attributes.push({
                 name: attributeName,
                 alias: alias
             });
 
-            return this;
+            return join;
         } catch (error) {
             this.logger.error('Failed to add select with alias to join', { error: (error as Error).message });
             throw error;
         }
     }
 
+    /**
+     * Add count aggregate
+     */
+    public count(attribute?: keyof T, alias?: string): this {
+        return this.addAggregate('count', attribute, alias);
+    }
+
+    /**
+     * Add sum aggregate
+     */
+    public sum(attribute: keyof T, alias?: string): this {
+        return this.addAggregate('sum', attribute, alias);
+    }
+
+    /**
+     * Add average aggregate
+     */
+    public avg(attribute: keyof T, alias?: string): this {
+        return this.addAggregate('avg', attribute, alias);
+    }
+
+    /**
+     * Add minimum aggregate
+     */
+    public min(attribute: keyof T, alias?: string): this {
+        return this.addAggregate('min', attribute, alias);
+    }
+
+    /**
+     * Add maximum aggregate
+     */
+    public max(attribute: keyof T, alias?: string): this {
+        return this.addAggregate('max', attribute, alias);
+    }
+
     /**
      * Add where condition
      */
+    public where<K extends keyof T, O extends OperatorFor<T[K]>>(attribute: K, operator: O, ...value: ConditionArgs<T[K], O>): this;
     public where(attribute: keyof T, operator: FilterOperator, value?: any): this {
         try {
             const attributeName = attribute as string;
@@ -70,6 +136,7 @@ export class JoinBuilder<T> {
             Validator.validateAttributeName(attributeName);
 
             const validOperator = Validator.validateFilterOperator(operator);
+            Validator.validateConditionValue(validOperator, value);
             
             this.logger.debug('Adding where condition to join', {
                 attribute: attributeName,
@@ -83,10 +150,12 @@ export class JoinBuilder<T> {
                 value
             };
 
-            if (!this.link.filters)  this.link.filters = { type: 'and', conditions: [] };
+            const join = this.writable();
+
+            if (!join.link.filters)  join.link.filters = { type: 'and', conditions: [] };
 
-            this.link.filters.conditions.push(condition);
-            return this;
+            join.link.filters.conditions.push(condition);
+            return join;
         } catch (error) {
             this.logger.error('Failed to add where condition to join', { error: (error as Error).message });
             throw error;
@@ -94,10 +163,325 @@ export class JoinBuilder<T> {
     }
 
     /**
-     * Return to parent entity builder
+     * Add condition comparing two columns
+     */
+    public whereColumn(attribute: keyof T, operator: ColumnOperator, otherAttribute: ColumnReference<T>): this {
+        try {
+            const attributeName = attribute as string;
+            const reference = otherAttribute as string;
+
+            Validator.validateAttributeName(attributeName);
+            Validator.validateColumnReference(reference);
+
+            const validOperator = Validator.validateColumnOperator(operator);
+
+            this.logger.debug('Adding column comparison to join', {
+                attribute: attributeName,
+                operator: validOperator,
+                valueof: reference
+            });
+
+            const condition: FilterCondition = {
+                attribute: attributeName,
+                operator: validOperator,
+                valueof: reference
+            };
+
+            const join = this.writable();
+
+            if (!join.link.filters) join.link.filters = { type: 'and', conditions: [] };
+
+            join.link.filters.conditions.push(condition);
+            return join;
+        } catch (error) {
+            this.logger.error('Failed to add column comparison to join', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Add nested filter group
      */
-    public end(): BaseEntity {
+    public whereGroup(type: FilterType, build: (group: FilterBuilder<T>) => void): this {
+        try {
+            this.logger.debug('Adding filter group to join', { type });
+
+            const group = FilterBuilder.createGroup<T>(type, build);
+            if (!group) return this;
+
+            const join = this.writable();
+
+            if (!join.link.filters) join.link.filters = { type: 'and', conditions: [] };
+
+            join.link.filters.conditions.push(group);
+            return join;
+        } catch (error) {
+            this.logger.error('Failed to add filter group to join', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Add group by clause on a linked attribute
+     */
+    public groupBy(attribute: keyof T, options: GroupByOptions = {}): this {
+        try {
+            const attributeName = attribute as string;
+            Validator.validateAttributeName(attributeName);
+            Validator.validateGroupByOptions(options);
+            Validator.validateLinkSelectable(this.link);
+
+            this.logger.debug('Adding group by to join', { attribute: attributeName, ...options });
+
+            const join = this.writable();
+            const existing = join.link.attributes.find(attr =>
+                attr.name === attributeName && !('aggregate' in attr) && !attr.groupby
+            );
+
+            if (existing && !options.dateGrouping) {
+                existing.groupby = true;
+                if (options.alias) existing.alias = options.alias;
+            } else {
+                join.link.attributes.push({
+                    name: attributeName,
+                    alias: options.alias,
+                    groupby: true,
+                    dategrouping: options.dateGrouping,
+                    usertimezone: options.userTimeZone
+                });
+            }
+
+            return join;
+        } catch (error) {
+            this.logger.error('Failed to add group by to join', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Add order by clause on a linked attribute
+     */
+    public orderBy(attribute: keyof T, order: OrderType = 'asc'): this {
+        try {
+            const attributeName = attribute as string;
+            Validator.validateAttributeName(attributeName);
+            const validOrder = Validator.validateOrderType(order);
+
+            this.logger.debug('Adding order by to join', { attribute: attributeName, order: validOrder });
+
+            const join = this.writable();
+
+            if (!join.link.orders) join.link.orders = [];
+
+            join.link.orders.push({
+                attribute: attributeName,
+                order: validOrder
+            });
+
+            return join;
+        } catch (error) {
+            this.logger.error('Failed to add order by to join', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Add order by clause on an attribute alias inside the link entity
+     */
+    public orderByAlias(alias: string, order: OrderType = 'asc'): this {
+        try {
+            Validator.validateAttributeName(alias);
+            const validOrder = Validator.validateOrderType(order);
+
+            this.logger.debug('Adding order by alias to join', { alias, order: validOrder });
+
+            const join = this.writable();
+
+            if (!join.link.orders) join.link.orders = [];
+
+            join.link.orders.push({
+                alias,
+                order: validOrder
+            });
+
+            return join;
+        } catch (error) {
+            this.logger.error('Failed to add order by alias to join', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Mark the link entity as intersect entity of a many-to-many relationship
+     */
+    public intersect(intersect: boolean = true): this {
+        this.logger.debug('Setting intersect on join', { entityName: this.link.name, intersect });
+
+        const join = this.writable();
+        join.link.intersect = intersect;
+
+        return join;
+    }
+
+    /**
+     * Set whether the link entity is visible in Advanced Find
+     */
+    public visible(visible: boolean = true): this {
+        this.logger.debug('Setting visible on join', { entityName: this.link.name, visible });
+
+        const join = this.writable();
+        join.link.visible = visible;
+
+        return join;
+    }
+
+    /**
+     * Join a further entity below this link entity. fromAttribute is an
+     * attribute of this link entity, toAttribute one of the joined entity.
+     */
+    public join<U>(
+        entityName: string,
+        fromAttribute: keyof T,
+        toAttribute: string,
+        alias?: string,
+        linkType?: LinkType
+    ): JoinBuilder<U, this> {
+        try {
+            Validator.validateEntityName(entityName);
+            Validator.validateAttributeName(fromAttribute as string);
+            Validator.validateAttributeName(toAttribute);
+            if (linkType) Validator.validateLinkType(linkType);
+
+            this.logger.debug('Adding nested join', {
+                parent: this.link.name,
+                entityName,
+                fromAttribute: fromAttribute as string,
+                toAttribute,
+                alias,
+                linkType
+            });
+
+            const link: LinkEntity = {
+                name: entityName,
+                from: toAttribute,
+                to: fromAttribute as string,
+                alias,
+                linkType,
+                attributes: []
+            };
+
+            const join = this.writable();
+
+            if (!join.link.links) join.link.links = [];
+
+            join.link.links.push(link);
+            return new JoinBuilder<U, this>(link, join);
+        } catch (error) {
+            this.logger.error('Failed to add nested join', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Join a relationship of the linked entity below this link entity
+     */
+    public joinRelation<U>(relationship: Relationship<U>, alias?: string, linkType?: LinkType): JoinBuilder<U, this> {
+        try {
+            this.logger.debug('Adding nested relationship join', { parent: this.link.name, entityName: relationship.entity, alias, linkType });
+
+            const { link, related } = createRelationshipLinks(relationship, alias, linkType);
+            const join = this.writable();
+
+            if (!join.link.links) join.link.links = [];
+
+            join.link.links.push(link);
+            return new JoinBuilder<U, this>(related, join);
+        } catch (error) {
+            this.logger.error('Failed to add nested relationship join', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Keep only rows of this link entity that have a matching related record
+     */
+    public whereExists<U>(
+        entityName: string,
+        fromAttribute: keyof T,
+        toAttribute: string,
+        alias?: string
+    ): JoinBuilder<U, this> {
+        return this.join<U>(entityName, fromAttribute, toAttribute, alias, 'exists');
+    }
+
+    /**
+     * Keep only rows of this link entity that have no matching related record
+     */
+    public whereNotExists<U>(
+        entityName: string,
+        fromAttribute: keyof T,
+        toAttribute: string,
+        alias?: string
+    ): JoinBuilder<U, this> {
+        return this.join<U>(entityName, fromAttribute, toAttribute, alias, 'not any');
+    }
+
+    /**
+     * Return to parent builder
+     */
+    public end(): P {
         this.logger.debug('Ending join builder');
         return this.parent;
     }
+
+    /**
+     * Join builder to apply the next change to: when the root builder is in
+     * immutable mode a builder on a copy of its query, reached through copies
+     * of the parent join builders, otherwise this builder
+     */
+    private writable(): this {
+        const chain: JoinBuilder<any, any>[] = [];
+        let current: unknown = this;
+
+        while (current instanceof JoinBuilder) {
+            chain.unshift(current);
+            current = current.parent;
+        }
+
+        if (!(current instanceof BaseEntity)) return this;
+
+        const [entity, links] = current.writableLinks(chain.map(join => join.link));
+        if (entity === current) return this;
+
+        return links.reduce<any>((parent, link) => new JoinBuilder(link, parent), entity);
+    }
+
+    /**
+     * Add aggregate function on a linked attribute
+     */
+    private addAggregate(aggregate: AggregateType, attribute?: keyof T, alias?: string): this {
+        try {
+            Validator.validateLinkSelectable(this.link);
+
+            const validAggregate = Validator.validateAggregateType(aggregate);
+            const attributeName = attribute ? attribute as string : EntitySchema.forEntity(this.link.name)?.primaryId ?? this.link.name + 'id';
+
+            if (attribute) Validator.validateAttributeName(attributeName);
+
+            this.logger.debug('Adding aggregate to join', { aggregate: validAggregate, attribute: attributeName, alias });
+
+            const join = this.writable();
+
+            join.link.attributes.push({
+                name: attributeName,
+                alias: alias,
+                aggregate: validAggregate
+            });
+
+            return join;
+        } catch (error) {
+            this.logger.error('Failed to add aggregate to join', { error: (error as Error).message });
+            throw error;
+        }
+    }
 }
\ No newline at end of file
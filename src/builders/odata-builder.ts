@@ -0,0 +1,561 @@
+import {
+    FetchQuery,
+    FilterGroup,
+    FilterCondition,
+    FilterOperator,
+    OrderBy,
+    LinkEntity,
+    LinkType,
+    Attribute,
+    AggregateAttribute,
+    AggregateType,
+    ODataQueryOptions
+} from '../types';
+import { QueryBuildError } from '../errors';
+import { OPERATORS } from '../operators';
+import { Validator } from '../validators';
+import { ValueSerializer } from '../serializers/value-serializer';
+import { Logger } from '../logger';
+import { isGuid, entityLinks } from '../utils';
+
+/**
+ * Entity that attributes of a filter or expansion belong to. Inside lambda
+ * expressions attributes are prefixed with the range variable.
+ */
+interface Scope {
+    entityName: string;
+    prefix: string;
+    depth: number;
+}
+
+/**
+ * OData Builder
+ * Renders a FetchQuery as Web API query options. Link entities are expanded
+ * or filtered through the navigation property named by their alias.
+ */
+export class ODataBuilder {
+    private static COMPARISONS: Partial<Record<FilterOperator, string>> = {
+        'eq': 'eq', 'ne': 'ne', 'neq': 'ne', 'gt': 'gt', 'ge': 'ge', 'lt': 'lt', 'le': 'le'
+    };
+
+    /** Dataverse query functions, called as Microsoft.Dynamics.CRM.<name> */
+    private static FUNCTIONS: Partial<Record<FilterOperator, string>> = {
+        'in': 'In',
+        'not-in': 'NotIn',
+        'between': 'Between',
+        'not-between': 'NotBetween',
+        'on': 'On',
+        'on-or-before': 'OnOrBefore',
+        'on-or-after': 'OnOrAfter',
+        'yesterday': 'Yesterday',
+        'today': 'Today',
+        'tomorrow': 'Tomorrow',
+        'last-seven-days': 'Last7Days',
+        'next-seven-days': 'Next7Days',
+        'last-week': 'LastWeek',
+        'this-week': 'ThisWeek',
+        'next-week': 'NextWeek',
+        'last-month': 'LastMonth',
+        'this-month': 'ThisMonth',
+        'next-month': 'NextMonth',
+        'last-year': 'LastYear',
+        'this-year': 'ThisYear',
+        'next-year': 'NextYear',
+        'last-x-hours': 'LastXHours',
+        'next-x-hours': 'NextXHours',
+        'last-x-days': 'LastXDays',
+        'next-x-days': 'NextXDays',
+        'last-x-weeks': 'LastXWeeks',
+        'next-x-weeks': 'NextXWeeks',
+        'last-x-months': 'LastXMonths',
+        'next-x-months': 'NextXMonths',
+        'last-x-years': 'LastXYears',
+        'next-x-years': 'NextXYears',
+        'olderthan-x-minutes': 'OlderThanXMinutes',
+        'olderthan-x-hours': 'OlderThanXHours',
+        'olderthan-x-days': 'OlderThanXDays',
+        'olderthan-x-weeks': 'OlderThanXWeeks',
+        'olderthan-x-months': 'OlderThanXMonths',
+        'olderthan-x-years': 'OlderThanXYears',
+        'this-fiscal-year': 'ThisFiscalYear',
+        'this-fiscal-period': 'ThisFiscalPeriod',
+        'next-fiscal-year': 'NextFiscalYear',
+        'next-fiscal-period': 'NextFiscalPeriod',
+        'last-fiscal-year': 'LastFiscalYear',
+        'last-fiscal-period': 'LastFiscalPeriod',
+        'last-x-fiscal-years': 'LastXFiscalYears',
+        'last-x-fiscal-periods': 'LastXFiscalPeriods',
+        'next-x-fiscal-years': 'NextXFiscalYears',
+        'next-x-fiscal-periods': 'NextXFiscalPeriods',
+        'in-fiscal-year': 'InFiscalYear',
+        'in-fiscal-period': 'InFiscalPeriod',
+        'in-fiscal-period-and-year': 'InFiscalPeriodAndYear',
+        'in-or-before-fiscal-period-and-year': 'InOrBeforeFiscalPeriodAndYear',
+        'in-or-after-fiscal-period-and-year': 'InOrAfterFiscalPeriodAndYear',
+        'eq-userid': 'EqualUserId',
+        'ne-userid': 'NotEqualUserId',
+        'eq-userteams': 'EqualUserTeams',
+        'eq-useroruserteams': 'EqualUserOrUserTeams',
+        'eq-useroruserhierarchy': 'EqualUserOrUserHierarchy',
+        'eq-useroruserhierarchyandteams': 'EqualUserOrUserHierarchyAndTeams',
+        'eq-businessid': 'EqualBusinessId',
+        'ne-businessid': 'NotEqualBusinessId',
+        'eq-userlanguage': 'EqualUserLanguage',
+        'under': 'Under',
+        'eq-or-under': 'UnderOrEqual',
+        'not-under': 'NotUnder',
+        'above': 'Above',
+        'eq-or-above': 'AboveOrEqual',
+        'contain-values': 'ContainValues',
+        'not-contain-values': 'DoesNotContainValues'
+    };
+
+    /** Range operators whose functions take the two values as PropertyValue1 and PropertyValue2 */
+    private static FISCAL_RANGE_OPERATORS: FilterOperator[] = [
+        'in-fiscal-period-and-year', 'in-or-before-fiscal-period-and-year', 'in-or-after-fiscal-period-and-year'
+    ];
+
+    private static AGGREGATES: Partial<Record<AggregateType, string>> = {
+        'sum': 'sum', 'avg': 'average', 'min': 'min', 'max': 'max'
+    };
+
+    private static LAMBDA_LINK_TYPES: LinkType[] = ['exists', 'in', 'any', 'not any', 'all', 'not all'];
+
+    /** Attribute types written as unquoted literals */
+    private static UNQUOTED_TYPES = ['integer', 'decimal', 'money', 'datetime', 'choice', 'guid', 'lookup'];
+
+    private logger = Logger.getInstance();
+
+    /** Navigation path of each link alias, e.g. Owner -> [Contacts, Owner] */
+    private linkPaths = new Map<string, LinkEntity[]>();
+
+    constructor(private query: FetchQuery) { }
+
+    /**
+     * Build the query options
+     */
+    public build(): ODataQueryOptions {
+        try {
+            this.logger.debug('Building OData query', { entity: this.query.entity });
+
+            Validator.validateLinkEntities(this.query);
+            Validator.validateQueryReferences(this.query);
+            Validator.validateOrders(this.query);
+            Validator.validateQueryMetadata(this.query);
+
+            this.linkPaths = this.collectLinkPaths(entityLinks(this.query));
+            this.validatePaging();
+
+            const root: Scope = { entityName: this.query.entity, prefix: '', depth: 0 };
+            const options: ODataQueryOptions = {};
+            const filter = this.buildFilter(root, this.query.filters, this.query.links);
+
+            if (this.isAggregate()) {
+                options.$apply = this.buildApply(filter);
+            } else if (this.query.distinct) {
+                options.$apply = this.buildDistinct(root, filter);
+            } else {
+                const select = this.buildSelect(root, this.query.attributes);
+                if (select && !this.query.allAttributes) options.$select = select;
+                if (filter) options.$filter = filter;
+            }
+
+            const orderBy = this.buildOrderBy(root, this.query.orders);
+            if (orderBy) options.$orderby = orderBy;
+
+            const expand = this.buildExpand(this.query.links);
+            if (expand) options.$expand = expand;
+
+            if (this.query.top) options.$top = this.query.top;
+            if (this.query.returnTotalRecordCount) options.$count = true;
+
+            this.logger.debug('OData query built successfully');
+            return options;
+        } catch (error) {
+            this.logger.error('Failed to build OData query', { error: (error as Error).message });
+            throw new QueryBuildError(`Failed to build OData query: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Build the query options as URL query string
+     */
+    public buildQueryString(): string {
+        return Object.entries(this.build())
+            .map(([option, value]) => `${option}=${encodeURIComponent(String(value))}`)
+            .join('&');
+    }
+
+    /**
+     * Paging is controlled by the odata.maxpagesize preference and
+     * @odata.nextLink instead of query options
+     */
+    private validatePaging(): void {
+        if (this.query.page !== undefined || this.query.count !== undefined || this.query.pagingCookie !== undefined) {
+            throw new QueryBuildError('Paging cannot be expressed in OData query options, use the odata.maxpagesize preference instead');
+        }
+    }
+
+    private isAggregate(): boolean {
+        return !!this.query.aggregate || this.query.attributes.some(attr => attr.groupby || 'aggregate' in attr);
+    }
+
+    /**
+     * Build $select, lookups are selected by their _<name>_value property
+     */
+    private buildSelect(scope: Scope, attributes: (Attribute | AggregateAttribute)[]): string {
+        return attributes.map(attr => {
+            if (attr.alias && attr.alias !== attr.name) this.unsupported(`Alias ${attr.alias} of attribute ${attr.name}`);
+            return this.propertyName(scope.entityName, attr.name);
+        }).join(',');
+    }
+
+    /**
+     * Build $apply grouping by the selected attributes
+     */
+    private buildDistinct(scope: Scope, filter: string): string {
+        const select = this.buildSelect(scope, this.query.attributes);
+
+        if (!select) this.unsupported('Distinct query without attributes');
+        this.validateApplyLinks();
+
+        return this.transform(filter, `groupby((${select}))`);
+    }
+
+    /**
+     * Build $apply with the filter applied before grouping and aggregating
+     */
+    private buildApply(filter: string): string {
+        this.validateApplyLinks();
+
+        const groups: string[] = [];
+        const aggregates: string[] = [];
+
+        for (const attr of this.query.attributes) {
+            if ('aggregate' in attr) {
+                aggregates.push(this.buildAggregate(attr));
+                continue;
+            }
+
+            if (!attr.groupby) this.unsupported(`Attribute ${attr.name} that is neither grouped nor aggregated`);
+            if (attr.dategrouping) this.unsupported(`Date grouping of attribute ${attr.name}`);
+            if (attr.alias && attr.alias !== attr.name) this.unsupported(`Alias ${attr.alias} of grouped attribute ${attr.name}`);
+
+            groups.push(this.propertyName(this.query.entity, attr.name));
+        }
+
+        const aggregate = aggregates.length > 0 ? `aggregate(${aggregates.join(',')})` : '';
+        const transformation = groups.length > 0
+            ? `groupby((${groups.join(',')})${aggregate ? ',' + aggregate : ''})`
+            : aggregate;
+
+        return this.transform(filter, transformation);
+    }
+
+    /**
+     * Transformations of $apply replace $filter, which would otherwise apply to the grouped results
+     */
+    private transform(filter: string, transformation: string): string {
+        return filter ? `filter(${filter})/${transformation}` : transformation;
+    }
+
+    private validateApplyLinks(): void {
+        if ((this.query.links ?? []).some(link => !this.isLambdaLink(link))) {
+            this.unsupported('Expanding link entities of grouped queries');
+        }
+    }
+
+    private buildAggregate(attr: AggregateAttribute): string {
+        if (!attr.alias) this.unsupported(`Aggregate ${attr.aggregate} of ${attr.name} without alias`);
+        if (attr.aggregate === 'count') return `$count as ${attr.alias}`;
+
+        const method = ODataBuilder.AGGREGATES[attr.aggregate];
+        if (!method) this.unsupported(`Aggregate ${attr.aggregate}`);
+
+        return `${this.propertyName(this.query.entity, attr.name)} with ${method} as ${attr.alias}`;
+    }
+
+    /**
+     * Build the filter of an entity. Links of type any, not any, all, not all,
+     * exists and in become lambda expressions combined with the filter by and.
+     */
+    private buildFilter(scope: Scope, filter?: FilterGroup, links: LinkEntity[] = []): string {
+        const expression = filter && this.groupSize(filter) > 0 ? this.buildGroup(scope, filter) : '';
+        const lambdas = links.filter(link => this.isLambdaLink(link)).map(link => this.buildLambda(scope, link));
+
+        if (lambdas.length === 0) return expression;
+
+        const grouped = expression && filter!.type === 'or' && this.groupSize(filter!) > 1 ? `(${expression})` : expression;
+        return [grouped, ...lambdas].filter(part => part !== '').join(' and ');
+    }
+
+    /**
+     * Build a filter group, links placed in the group become lambda expressions
+     */
+    private buildGroup(scope: Scope, filter: FilterGroup): string {
+        const parts = filter.conditions.map(condition => {
+            if (!('type' in condition)) return this.buildCondition(scope, condition);
+
+            const expression = this.buildGroup(scope, condition);
+            return this.groupSize(condition) > 1 ? `(${expression})` : expression;
+        });
+
+        for (const link of filter.links ?? []) {
+            parts.push(this.buildLambda(scope, link));
+        }
+
+        return parts.join(` ${filter.type} `);
+    }
+
+    private groupSize(filter: FilterGroup): number {
+        return filter.conditions.length + (filter.links?.length ?? 0);
+    }
+
+    /**
+     * Build any() or all() over the navigation property of a link entity
+     */
+    private buildLambda(scope: Scope, link: LinkEntity): string {
+        const variable = `x${scope.depth + 1}`;
+        const navigation = scope.prefix + this.navigationProperty(link);
+        const inner: Scope = { entityName: link.name, prefix: `${variable}/`, depth: scope.depth + 1 };
+
+        for (const nested of link.links ?? []) {
+            if (!this.isLambdaLink(nested)) this.unsupported(`Link entity ${nested.name} inside ${link.linkType} link ${link.name}`);
+        }
+
+        const condition = this.buildFilter(inner, link.filters, link.links);
+        const all = link.linkType === 'all' || link.linkType === 'not all';
+
+        if (all && !condition) this.unsupported(`Link type ${link.linkType} without conditions on ${link.name}`);
+
+        const lambda = condition
+            ? `${navigation}/${all ? 'all' : 'any'}(${variable}:${condition})`
+            : `${navigation}/any()`;
+
+        return link.linkType === 'not any' || link.linkType === 'not all' ? `not ${lambda}` : lambda;
+    }
+
+    /**
+     * Build a condition, lookups are compared by their _<name>_value property
+     */
+    private buildCondition(scope: Scope, condition: FilterCondition): string {
+        let { entityName, prefix } = scope;
+
+        if (condition.entityname) {
+            if (scope.depth > 0) this.unsupported(`Condition on ${condition.entityname} inside a lambda expression`);
+            ({ entityName, prefix } = this.navigationPath(condition.entityname));
+        }
+
+        const property = prefix + this.propertyName(entityName, condition.attribute, condition.value);
+        const comparison = ODataBuilder.COMPARISONS[condition.operator];
+
+        if (condition.valueof) {
+            if (condition.valueof.includes('.')) this.unsupported(`Column comparison with ${condition.valueof} of a link entity`);
+            return `${property} ${comparison} ${prefix}${this.propertyName(entityName, condition.valueof)}`;
+        }
+
+        if (comparison) return `${property} ${comparison} ${this.literal(entityName, condition, condition.value)}`;
+
+        switch (condition.operator) {
+            case 'null':
+                return `${property} eq null`;
+            case 'not-null':
+                return `${property} ne null`;
+            case 'like':
+                return this.buildLike(property, condition.value);
+            case 'not-like':
+                return `not ${this.buildLike(property, condition.value)}`;
+            case 'begins-with':
+                return `startswith(${property},${this.quote(String(condition.value))})`;
+            case 'not-begin-with':
+                return `not startswith(${property},${this.quote(String(condition.value))})`;
+            case 'ends-with':
+                return `endswith(${property},${this.quote(String(condition.value))})`;
+            case 'not-end-with':
+                return `not endswith(${property},${this.quote(String(condition.value))})`;
+        }
+
+        if (prefix) this.unsupported(`Operator ${condition.operator} on a link entity`);
+
+        return this.buildFunction(entityName, condition);
+    }
+
+    /**
+     * Like patterns map to contains, startswith, endswith or eq when the
+     * only wildcards are a leading and/or trailing %
+     */
+    private buildLike(property: string, pattern: string): string {
+        const match = /^(%?)(.*?)(%?)$/s.exec(String(pattern))!;
+        const [, leading, text, trailing] = match;
+
+        if (/[%_[\]]/.test(text)) this.unsupported(`Like pattern ${pattern}`);
+
+        const value = this.quote(text);
+
+        if (leading && trailing) return `contains(${property},${value})`;
+        if (trailing) return `startswith(${property},${value})`;
+        if (leading) return `endswith(${property},${value})`;
+
+        return `${property} eq ${value}`;
+    }
+
+    /**
+     * Build a call of a Dataverse query function
+     */
+    private buildFunction(entityName: string, condition: FilterCondition): string {
+        const name = ODataBuilder.FUNCTIONS[condition.operator];
+        if (!name) this.unsupported(`Operator ${condition.operator}`);
+
+        const kind = OPERATORS[condition.operator].value;
+        const parameters = [`PropertyName=${this.quote(condition.attribute)}`];
+        const value = (item: any): string => kind === 'integer'
+            ? String(item)
+            : this.quote(this.serialize(entityName, condition, item));
+
+        if (ODataBuilder.FISCAL_RANGE_OPERATORS.includes(condition.operator)) {
+            const [first, second] = condition.value;
+            parameters.push(`PropertyValue1=${first}`, `PropertyValue2=${second}`);
+        } else if (kind === 'multiple' || kind === 'range') {
+            const values: any[] = Array.isArray(condition.value) ? condition.value : [condition.value];
+            parameters.push(`PropertyValues=[${values.map(value).join(',')}]`);
+        } else if (kind !== 'none') {
+            parameters.push(`PropertyValue=${value(condition.value)}`);
+        }
+
+        return `Microsoft.Dynamics.CRM.${name}(${parameters.join(',')})`;
+    }
+
+    /**
+     * Build $orderby, orders on link aliases follow the navigation path
+     */
+    private buildOrderBy(scope: Scope, orders?: OrderBy[]): string {
+        return (orders ?? []).map(order => {
+            const direction = order.order === 'desc' ? 'desc' : 'asc';
+            if (order.alias) return `${order.alias} ${direction}`;
+
+            if (order.entityname) {
+                const { entityName, prefix } = this.navigationPath(order.entityname);
+                return `${prefix}${this.propertyName(entityName, order.attribute!)} ${direction}`;
+            }
+
+            return `${this.propertyName(scope.entityName, order.attribute!)} ${direction}`;
+        }).join(',');
+    }
+
+    /**
+     * Build $expand for outer link entities, inner joins restrict the parent
+     * records and have no OData equivalent
+     */
+    private buildExpand(links?: LinkEntity[]): string {
+        return (links ?? [])
+            .filter(link => !this.isLambdaLink(link))
+            .map(link => {
+                if (link.linkType !== 'outer') {
+                    this.unsupported(`Link type ${link.linkType ?? 'inner'} of ${link.name}, use an outer link to expand it or any to filter by it`);
+                }
+
+                const scope: Scope = { entityName: link.name, prefix: '', depth: 0 };
+                const options: string[] = [];
+
+                const select = this.buildSelect(scope, link.attributes);
+                if (select && !link.allAttributes) options.push(`$select=${select}`);
+
+                const filter = this.buildFilter(scope, link.filters, link.links);
+                if (filter) options.push(`$filter=${filter}`);
+
+                const orderBy = this.buildOrderBy(scope, link.orders);
+                if (orderBy) options.push(`$orderby=${orderBy}`);
+
+                const expand = this.buildExpand(link.links);
+                if (expand) options.push(`$expand=${expand}`);
+
+                const navigation = this.navigationProperty(link);
+                return options.length > 0 ? `${navigation}(${options.join(';')})` : navigation;
+            })
+            .join(',');
+    }
+
+    /**
+     * Entity and navigation path of an expanded link alias, e.g. primarycontactid/
+     */
+    private navigationPath(alias: string): { entityName: string; prefix: string } {
+        const path = this.linkPaths.get(alias)!;
+
+        if (path.some(link => this.isLambdaLink(link))) {
+            this.unsupported(`Reference to ${alias} outside its ${path[path.length - 1].linkType} link`);
+        }
+
+        return {
+            entityName: path[path.length - 1].name,
+            prefix: path.map(link => this.navigationProperty(link) + '/').join('')
+        };
+    }
+
+    private isLambdaLink(link: LinkEntity): boolean {
+        return !!link.linkType && ODataBuilder.LAMBDA_LINK_TYPES.includes(link.linkType);
+    }
+
+    /**
+     * The alias of a link entity names its navigation property, as joinRelation does by default
+     */
+    private navigationProperty(link: LinkEntity): string {
+        if (!link.alias) this.unsupported(`Link entity ${link.name} without alias naming its navigation property`);
+        return link.alias;
+    }
+
+    private propertyName(entityName: string, attribute: string, value?: any): string {
+        const reference = value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+        const lookup = reference || Validator.getAttributeType(entityName, attribute) === 'lookup';
+
+        return lookup ? `_${attribute}_value` : attribute;
+    }
+
+    /**
+     * Write a value as OData literal. Strings are quoted unless the attribute
+     * type is numeric, a date or an id; without metadata GUIDs are not quoted.
+     */
+    private literal(entityName: string, condition: FilterCondition, value: any): string {
+        if (typeof value === 'boolean') return String(value);
+
+        const type = Validator.getAttributeType(entityName, condition.attribute);
+        const serialized = this.serialize(entityName, condition, value);
+
+        if (type === 'boolean') return serialized === '1' || serialized === 'true' ? 'true' : 'false';
+        if (typeof value !== 'string') return serialized;
+        if (type) return ODataBuilder.UNQUOTED_TYPES.includes(type) ? serialized : this.quote(serialized);
+        if (isGuid(serialized)) return serialized.replace(/^\{(.*)\}$/, '$1');
+
+        return this.quote(serialized);
+    }
+
+    private serialize(entityName: string, condition: FilterCondition, value: any): string {
+        return ValueSerializer.serialize(value, {
+            entityName,
+            attribute: condition.attribute,
+            operator: condition.operator,
+            type: Validator.getAttributeType(entityName, condition.attribute)
+        }).value;
+    }
+
+    private quote(value: string): string {
+        return `'${value.replace(/'/g, "''")}'`;
+    }
+
+    /**
+     * Map link aliases to the links on the path from the root entity
+     */
+    private collectLinkPaths(links: LinkEntity[], parent: LinkEntity[] = [], paths = new Map<string, LinkEntity[]>()): Map<string, LinkEntity[]> {
+        for (const link of links) {
+            const path = [...parent, link];
+
+            if (link.alias) paths.set(link.alias, path);
+            this.collectLinkPaths(entityLinks(link), path, paths);
+        }
+
+        return paths;
+    }
+
+    private unsupported(construct: string): never {
+        throw new QueryBuildError(`${construct} cannot be expressed in OData`);
+    }
+}
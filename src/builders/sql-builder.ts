@@ -0,0 +1,436 @@
+import {
+    FetchQuery,
+    FilterGroup,
+    FilterCondition,
+    FilterOperator,
+    OrderBy,
+    LinkEntity,
+    LinkType,
+    Attribute,
+    AggregateAttribute,
+    DateGrouping,
+    SqlQuery
+} from '../types';
+import { QueryBuildError } from '../errors';
+import { Validator } from '../validators';
+import { EntitySchema } from '../metadata/entity-schema';
+import { DateUnit, DATE_PERIODS, LAST_X_UNITS, NEXT_X_UNITS, OLDER_THAN_X_UNITS } from '../operators';
+import { Logger } from '../logger';
+
+const NOW = 'GETUTCDATE()';
+const TODAY = 'CAST(GETUTCDATE() AS date)';
+
+/**
+ * SQL Builder
+ * Renders a FetchQuery as T-SQL for the read-only TDS endpoint. Condition
+ * values are passed as parameters and relative dates are evaluated in UTC.
+ */
+export class SqlBuilder {
+    private static COMPARISONS: Partial<Record<FilterOperator, string>> = {
+        'eq': '=', 'ne': '<>', 'neq': '<>', 'gt': '>', 'ge': '>=', 'lt': '<', 'le': '<='
+    };
+
+    private static DATE_GROUPINGS: Partial<Record<DateGrouping, string>> = {
+        'day': 'day', 'week': 'week', 'month': 'month', 'quarter': 'quarter', 'year': 'year'
+    };
+
+    private static EXISTS_LINK_TYPES: LinkType[] = ['exists', 'in', 'any', 'not any', 'all', 'not all'];
+
+    private logger = Logger.getInstance();
+    private parameters: Record<string, unknown> = {};
+    private linkCount = 0;
+
+    constructor(private query: FetchQuery) { }
+
+    /**
+     * Build the statement and its parameters
+     */
+    public build(): SqlQuery {
+        try {
+            this.logger.debug('Building SQL query', { entity: this.query.entity });
+
+            Validator.validateLinkEntities(this.query);
+            Validator.validateQueryReferences(this.query);
+            Validator.validateOrders(this.query);
+            Validator.validateQueryMetadata(this.query);
+
+            this.parameters = {};
+            this.linkCount = 0;
+
+            if (this.query.pagingCookie !== undefined) this.unsupported('Paging cookies');
+            if (this.query.returnTotalRecordCount) this.unsupported('Total record count');
+
+            const root = this.query.entity;
+            const joins: string[] = [];
+            const columns: string[] = [];
+            const groups: string[] = [];
+            const orders: string[] = [];
+
+            if (this.query.allAttributes) columns.push(`${this.identifier(root)}.*`);
+            this.addColumns(root, this.query.attributes, false, columns, groups);
+            this.addOrders(root, this.query.orders, orders);
+
+            for (const link of this.query.links ?? []) {
+                if (!this.isExistsLink(link)) this.addJoin(link, root, joins, columns, groups, orders);
+            }
+
+            const where = this.buildWhere(root, this.query.filters, this.query.links, true);
+
+            const clauses = [this.buildSelectClause(root, columns), `FROM ${this.identifier(root)} AS ${this.identifier(root)}`, ...joins];
+
+            if (where) clauses.push(`WHERE ${where}`);
+            if (groups.length > 0) clauses.push(`GROUP BY ${groups.join(', ')}`);
+
+            clauses.push(...this.buildOrderClauses(root, orders));
+
+            const sql = clauses.join('\n');
+
+            this.logger.debug('SQL query built successfully');
+            return { sql, parameters: this.parameters };
+        } catch (error) {
+            this.logger.error('Failed to build SQL query', { error: (error as Error).message });
+            throw new QueryBuildError(`Failed to build SQL query: ${(error as Error).message}`);
+        }
+    }
+
+    private buildSelectClause(root: string, columns: string[]): string {
+        let select = 'SELECT';
+
+        if (this.query.distinct) select += ' DISTINCT';
+        if (this.query.top && this.query.page === undefined) select += ` TOP ${this.query.top}`;
+
+        return `${select} ${columns.length > 0 ? columns.join(', ') : `${this.identifier(root)}.*`}`;
+    }
+
+    /**
+     * Build ORDER BY, paged queries use OFFSET-FETCH and are ordered by the
+     * primary key when no order is given
+     */
+    private buildOrderClauses(root: string, orders: string[]): string[] {
+        const { page, count, top } = this.query;
+
+        if (page === undefined && count === undefined) {
+            return orders.length > 0 ? [`ORDER BY ${orders.join(', ')}`] : [];
+        }
+
+        if (top) this.unsupported('Combining top with paging');
+
+        const size = count ?? 5000;
+        const primaryId = EntitySchema.forEntity(root)?.primaryId ?? `${root}id`;
+
+        return [
+            `ORDER BY ${orders.length > 0 ? orders.join(', ') : `${this.column(root, primaryId)} ASC`}`,
+            `OFFSET ${((page ?? 1) - 1) * size} ROWS FETCH NEXT ${size} ROWS ONLY`
+        ];
+    }
+
+    /**
+     * Add selected, grouped and aggregated attributes. Link columns without
+     * alias are named <link alias>.<attribute> as in FetchXML results.
+     */
+    private addColumns(table: string, attributes: (Attribute | AggregateAttribute)[], isLink: boolean, columns: string[], groups: string[]): void {
+        for (const attr of attributes) {
+            let expression = this.column(table, attr.name);
+
+            if ('aggregate' in attr) {
+                switch (attr.aggregate) {
+                    case 'count':
+                        expression = 'COUNT(*)';
+                        break;
+                    case 'countcolumn':
+                        expression = `COUNT(${expression})`;
+                        break;
+                    default:
+                        expression = `${attr.aggregate.toUpperCase()}(${expression})`;
+                }
+            } else if (attr.groupby) {
+                if (attr.dategrouping) {
+                    const part = SqlBuilder.DATE_GROUPINGS[attr.dategrouping];
+                    if (!part) this.unsupported(`Date grouping ${attr.dategrouping}`);
+
+                    expression = `DATEPART(${part}, ${expression})`;
+                }
+
+                groups.push(expression);
+            }
+
+            const name = attr.alias ?? (isLink && !('aggregate' in attr) ? `${table}.${attr.name}` : undefined);
+            columns.push(name ? `${expression} AS ${this.identifier(name)}` : expression);
+        }
+    }
+
+    private addOrders(table: string, orders: OrderBy[] | undefined, result: string[]): void {
+        for (const order of orders ?? []) {
+            const direction = order.order === 'desc' ? 'DESC' : 'ASC';
+
+            if (order.alias) {
+                result.push(`${this.identifier(order.alias)} ${direction}`);
+            } else {
+                result.push(`${this.column(order.entityname ?? table, order.attribute!)} ${direction}`);
+            }
+        }
+    }
+
+    /**
+     * Add an inner or outer join with the link filter in its ON clause
+     */
+    private addJoin(link: LinkEntity, parent: string, joins: string[], columns: string[], groups: string[], orders: string[]): void {
+        const alias = this.linkAlias(link);
+        let join: string;
+
+        switch (link.linkType ?? 'inner') {
+            case 'inner':
+                join = 'INNER JOIN';
+                break;
+            case 'outer':
+                join = 'LEFT OUTER JOIN';
+                break;
+            default:
+                this.unsupported(`Link type ${link.linkType}`);
+        }
+
+        const conditions = [`${this.column(alias, link.from)} = ${this.column(parent, link.to)}`];
+        const filter = this.buildWhere(alias, link.filters, link.links);
+        if (filter) conditions.push(filter);
+
+        joins.push(`${join} ${this.identifier(link.name)} AS ${this.identifier(alias)} ON ${conditions.join(' AND ')}`);
+
+        if (link.allAttributes) columns.push(`${this.identifier(alias)}.*`);
+        this.addColumns(alias, link.attributes, true, columns, groups);
+        this.addOrders(alias, link.orders, orders);
+
+        for (const nested of link.links ?? []) {
+            if (!this.isExistsLink(nested)) this.addJoin(nested, alias, joins, columns, groups, orders);
+        }
+    }
+
+    /**
+     * Build the filter of an entity together with its exists, in, any,
+     * not any, all and not all links. Unless standalone, the result can be
+     * combined with other conditions by AND.
+     */
+    private buildWhere(table: string, filter?: FilterGroup, links: LinkEntity[] = [], standalone = false): string {
+        const expressions: string[] = [];
+
+        for (const link of links) {
+            if (this.isExistsLink(link)) expressions.push(this.buildExists(table, link));
+        }
+
+        if (filter && this.groupSize(filter) > 0) {
+            const expression = this.buildGroup(table, filter);
+            const or = filter.type === 'or' && this.groupSize(filter) > 1;
+
+            expressions.unshift(or && (!standalone || expressions.length > 0) ? `(${expression})` : expression);
+        }
+
+        return expressions.join(' AND ');
+    }
+
+    /**
+     * Build a filter group, links placed in the group become EXISTS subqueries
+     */
+    private buildGroup(table: string, filter: FilterGroup): string {
+        const operator = filter.type === 'or' ? ' OR ' : ' AND ';
+        const parts = filter.conditions.map(condition => {
+            if (!('type' in condition)) return this.buildCondition(table, condition);
+
+            const expression = this.buildGroup(table, condition);
+            return this.groupSize(condition) > 1 ? `(${expression})` : expression;
+        });
+
+        for (const link of filter.links ?? []) {
+            parts.push(this.buildExists(table, link));
+        }
+
+        return parts.join(operator);
+    }
+
+    private groupSize(filter: FilterGroup): number {
+        return filter.conditions.length + (filter.links?.length ?? 0);
+    }
+
+    /**
+     * Build an EXISTS subquery. All means that no related row fails the
+     * filter, not all that at least one related row fails it.
+     */
+    private buildExists(parent: string, link: LinkEntity): string {
+        const alias = this.linkAlias(link);
+
+        for (const nested of link.links ?? []) {
+            if (!this.isExistsLink(nested)) this.unsupported(`Link entity ${nested.name} inside ${link.linkType} link ${link.name}`);
+        }
+
+        const join = `${this.column(alias, link.from)} = ${this.column(parent, link.to)}`;
+        const filter = this.buildWhere(alias, link.filters, link.links);
+        const subquery = (condition: string): string =>
+            `EXISTS (SELECT 1 FROM ${this.identifier(link.name)} AS ${this.identifier(alias)} WHERE ${condition})`;
+
+        switch (link.linkType) {
+            case 'all':
+            case 'not all': {
+                if (!filter) this.unsupported(`Link type ${link.linkType} without conditions on ${link.name}`);
+
+                const failing = subquery(`${join} AND NOT (${filter})`);
+                return link.linkType === 'all' ? `NOT ${failing}` : failing;
+            }
+            case 'not any':
+                return `NOT ${subquery(filter ? `${join} AND ${filter}` : join)}`;
+            default:
+                return subquery(filter ? `${join} AND ${filter}` : join);
+        }
+    }
+
+    /**
+     * Build a condition with its values as parameters
+     */
+    private buildCondition(table: string, condition: FilterCondition): string {
+        const column = this.column(condition.entityname ?? table, condition.attribute);
+        const comparison = SqlBuilder.COMPARISONS[condition.operator];
+        const { operator, value } = condition;
+
+        if (condition.valueof) {
+            const [other, attribute] = condition.valueof.includes('.')
+                ? condition.valueof.split('.')
+                : [condition.entityname ?? table, condition.valueof];
+
+            return `${column} ${comparison} ${this.column(other, attribute)}`;
+        }
+
+        if (comparison) return `${column} ${comparison} ${this.parameter(value)}`;
+
+        switch (operator) {
+            case 'null':
+                return `${column} IS NULL`;
+            case 'not-null':
+                return `${column} IS NOT NULL`;
+            case 'like':
+                return `${column} LIKE ${this.parameter(value)}`;
+            case 'not-like':
+                return `${column} NOT LIKE ${this.parameter(value)}`;
+            case 'begins-with':
+                return `${column} LIKE ${this.parameter(this.escapeLike(value) + '%')}`;
+            case 'not-begin-with':
+                return `${column} NOT LIKE ${this.parameter(this.escapeLike(value) + '%')}`;
+            case 'ends-with':
+                return `${column} LIKE ${this.parameter('%' + this.escapeLike(value))}`;
+            case 'not-end-with':
+                return `${column} NOT LIKE ${this.parameter('%' + this.escapeLike(value))}`;
+            case 'in':
+            case 'not-in': {
+                const values: any[] = Array.isArray(value) ? value : [value];
+                const list = values.map(item => this.parameter(item)).join(', ');
+
+                return `${column} ${operator === 'in' ? 'IN' : 'NOT IN'} (${list})`;
+            }
+            case 'between':
+            case 'not-between':
+                return `${column} ${operator === 'between' ? 'BETWEEN' : 'NOT BETWEEN'} ${this.parameter(value[0])} AND ${this.parameter(value[1])}`;
+            case 'on':
+                return `CAST(${column} AS date) = CAST(${this.parameter(value)} AS date)`;
+            case 'on-or-before':
+                return `CAST(${column} AS date) <= CAST(${this.parameter(value)} AS date)`;
+            case 'on-or-after':
+                return `CAST(${column} AS date) >= CAST(${this.parameter(value)} AS date)`;
+            case 'last-seven-days':
+                return this.range(column, `DATEADD(day, -7, ${NOW})`, NOW);
+            case 'next-seven-days':
+                return this.range(column, NOW, `DATEADD(day, 7, ${NOW})`);
+            case 'last-x-hours':
+                return this.range(column, `DATEADD(hour, -${this.parameter(value)}, ${NOW})`, NOW);
+            case 'next-x-hours':
+                return this.range(column, NOW, `DATEADD(hour, ${this.parameter(value)}, ${NOW})`);
+        }
+
+        return this.buildDateCondition(column, condition);
+    }
+
+    /**
+     * Relative date operators, e.g. last-x-days from the start of the day x days ago until now
+     */
+    private buildDateCondition(column: string, condition: FilterCondition): string {
+        const { operator, value } = condition;
+
+        const period = DATE_PERIODS[operator];
+        if (period) {
+            const [unit, offset] = period;
+            return `(${column} >= ${this.startOf(unit, offset)} AND ${column} < ${this.startOf(unit, offset + 1)})`;
+        }
+
+        const last = LAST_X_UNITS[operator];
+        if (last) return this.range(column, `DATEADD(${last}, -${this.parameter(value)}, ${TODAY})`, NOW);
+
+        const next = NEXT_X_UNITS[operator];
+        if (next) return `(${column} >= ${NOW} AND ${column} < DATEADD(${next}, ${this.parameter(value)}, DATEADD(day, 1, ${TODAY})))`;
+
+        const olderThan = OLDER_THAN_X_UNITS[operator];
+        if (olderThan) return `${column} < DATEADD(${olderThan}, -${this.parameter(value)}, ${NOW})`;
+
+        this.unsupported(`Operator ${operator}`);
+    }
+
+    /**
+     * Start of the current period moved by offset periods, weeks start on Sunday
+     */
+    private startOf(unit: DateUnit, offset: number): string {
+        switch (unit) {
+            case 'day':
+                return offset === 0 ? TODAY : `DATEADD(day, ${offset}, ${TODAY})`;
+            case 'week':
+                // Day -1 of the SQL Server calendar, 1899-12-31, is a Sunday
+                return `DATEADD(day, (${this.shift(`DATEDIFF(day, -1, ${NOW}) / 7`, offset)}) * 7, -1)`;
+            default:
+                return `DATEADD(${unit}, ${this.shift(`DATEDIFF(${unit}, 0, ${NOW})`, offset)}, 0)`;
+        }
+    }
+
+    private shift(expression: string, offset: number): string {
+        if (offset === 0) return expression;
+        return offset > 0 ? `${expression} + ${offset}` : `${expression} - ${-offset}`;
+    }
+
+    private range(column: string, from: string, to: string): string {
+        return `(${column} >= ${from} AND ${column} <= ${to})`;
+    }
+
+    /**
+     * Add a parameter and return its placeholder. Entity references are
+     * passed by id and GUIDs without braces.
+     */
+    private parameter(value: any): string {
+        const name = `p${Object.keys(this.parameters).length}`;
+        let parameter = value;
+
+        if (value !== null && typeof value === 'object' && !(value instanceof Date) && typeof value.id === 'string') {
+            parameter = value.id;
+        }
+
+        if (typeof parameter === 'string') parameter = parameter.replace(/^\{([0-9a-f-]{36})\}$/i, '$1');
+
+        this.parameters[name] = parameter;
+        return `@${name}`;
+    }
+
+    private escapeLike(value: any): string {
+        return String(value).replace(/[[%_]/g, match => `[${match}]`);
+    }
+
+    private isExistsLink(link: LinkEntity): boolean {
+        return !!link.linkType && SqlBuilder.EXISTS_LINK_TYPES.includes(link.linkType);
+    }
+
+    private linkAlias(link: LinkEntity): string {
+        return link.alias ?? `${link.name}${++this.linkCount}`;
+    }
+
+    private column(table: string, attribute: string): string {
+        return `${this.identifier(table)}.${this.identifier(attribute)}`;
+    }
+
+    private identifier(name: string): string {
+        return `[${name.replace(/]/g, ']]')}]`;
+    }
+
+    private unsupported(construct: string): never {
+        throw new QueryBuildError(`${construct} cannot be expressed in T-SQL`);
+    }
+}
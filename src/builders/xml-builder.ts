@@ -1,41 +1,74 @@
-import { FetchQuery, FilterGroup, FilterCondition, LinkEntity } from '../types';
+import {
+    FetchQuery,
+    FilterGroup,
+    FilterCondition,
+    OrderBy,
+    LinkEntity,
+    LinkType,
+    Attribute,
+    AggregateAttribute,
+    SerializedValue,
+    BuildOptions
+} from '../types';
 import { QueryBuildError } from '../errors';
+import { isMultiValueOperator } from '../operators';
+import { Validator } from '../validators';
+import { ValueSerializer } from '../serializers/value-serializer';
+import { XmlFormatter } from './xml-formatter';
 import { Logger } from '../logger';
+import { escapeXml, entityLinks } from '../utils';
 
 /**
  * FetchXML Builder
  */
 export class FetchXMLBuilder {
+    private static FILTER_LINK_TYPES: LinkType[] = ['any', 'not any', 'all', 'not all'];
+
     private logger = Logger.getInstance();
+    private aliases = new Map<string, string>();
 
     constructor(private query: FetchQuery) { }
 
     /**
-     * Build complete FetchXML 
+     * Build complete FetchXML, on a single line unless pretty output is requested
      */
-    public build(): string {
+    public build(options: BuildOptions = {}): string {
         try {
             this.logger.debug('Building FetchXML', { entity: this.query.entity });
 
+            Validator.validateLinkEntities(this.query);
+            Validator.validateQueryReferences(this.query);
+            Validator.validateOrders(this.query);
+            Validator.validateAggregateAttributes(this.query);
+            Validator.validateQueryMetadata(this.query);
+
+            this.aliases = this.collectAliases(entityLinks(this.query));
+
             let xml = '<fetch';
 
             if (this.query.distinct) xml += ' distinct="true"';
+            if (this.isAggregate()) xml += ' aggregate="true"';
             if (this.query.top) xml += ` top="${this.query.top}"`;
             if (this.query.page) xml += ` page="${this.query.page}"`;
             if (this.query.count) xml += ` count="${this.query.count}"`;
+            if (this.query.pagingCookie) xml += ` paging-cookie="${escapeXml(this.query.pagingCookie)}"`;
+            if (this.query.returnTotalRecordCount) xml += ' returntotalrecordcount="true"';
+            if (this.query.noLock !== undefined) xml += ` no-lock="${this.query.noLock}"`;
 
             xml += '>';
             xml += `<entity name="${this.query.entity}">`;
 
             xml += this.buildAttributes();
 
-            if (this.query.filters) xml += this.buildFilter(this.query.filters);
-            if (this.query.orders) xml += this.buildOrders();
-            if (this.query.links) xml += this.buildLinks();
+            xml += this.buildEntityFilter(this.query.entity, this.query.filters, this.query.links);
+            if (this.query.orders) xml += this.buildOrders(this.query.orders);
+            if (this.query.links) xml += this.buildLinks(this.query.links);
 
             xml += '</entity>';
             xml += '</fetch>';
 
+            if (options.pretty || options.canonical) xml = new XmlFormatter(options).format(xml);
+
             this.logger.debug('FetchXML built successfully');
             return xml;
 
@@ -49,35 +82,82 @@ export class FetchXMLBuilder {
      * Build attributes 
      */
     private buildAttributes(): string {
-        let xml = '';
+        let xml = this.query.allAttributes ? '<all-attributes/>' : '';
 
         for (const attr of this.query.attributes) {
-            xml += '<attribute';
-            xml += ` name="${this.escapeXml(attr.name)}"`;
+            xml += this.buildAttribute(attr);
+        }
 
-            if ('aggregate' in attr) xml += ` aggregate="${attr.aggregate}"`;
-            if (attr.alias) xml += ` alias="${this.escapeXml(attr.alias)}"`;
+        return xml;
+    }
 
-            xml += '/>';
-        }
+    /**
+     * Build individual attribute
+     */
+    private buildAttribute(attr: Attribute | AggregateAttribute): string {
+        let xml = '<attribute';
+        xml += ` name="${escapeXml(attr.name)}"`;
 
+        if ('aggregate' in attr) xml += ` aggregate="${attr.aggregate}"`;
+        if (attr.groupby) xml += ' groupby="true"';
+        if (attr.dategrouping) xml += ` dategrouping="${attr.dategrouping}"`;
+        if (attr.usertimezone !== undefined) xml += ` usertimezone="${attr.usertimezone}"`;
+        if (attr.alias) xml += ` alias="${escapeXml(attr.alias)}"`;
+
+        xml += '/>';
         return xml;
     }
 
     /**
-     * Build filter recursively
+     * Check whether the query is an aggregate query, either explicitly
+     * or because an attribute anywhere in the query is grouped
+     */
+    private isAggregate(): boolean {
+        if (this.query.aggregate) return true;
+
+        const hasGrouping = (attributes: (Attribute | AggregateAttribute)[], links?: LinkEntity[]): boolean =>
+            attributes.some(attr => attr.groupby) ||
+            (links ?? []).some(link => hasGrouping(link.attributes, link.links));
+
+        return hasGrouping(this.query.attributes, this.query.links);
+    }
+
+    /**
+     * Build the filter of an entity or link entity. Links of type any, not any,
+     * all and not all have to be placed inside this filter.
      */
-    private buildFilter(filter: FilterGroup): string {
+    private buildEntityFilter(entityName: string, filter?: FilterGroup, links?: LinkEntity[]): string {
+        const filterLinks = (links ?? []).filter(link => this.isFilterLink(link));
+
+        if (filterLinks.length === 0) return filter ? this.buildFilter(entityName, filter) : '';
+
+        const linksXml = filterLinks.map(link => this.buildLinkEntity(link)).join('');
+
+        if (!filter) return `<filter type="and">${linksXml}</filter>`;
+        if (filter.type === 'and') return this.buildFilter(entityName, filter, linksXml);
+
+        return `<filter type="and">${this.buildFilter(entityName, filter)}${linksXml}</filter>`;
+    }
+
+    /**
+     * Build filter recursively, with the links placed in the filter group
+     */
+    private buildFilter(entityName: string, filter: FilterGroup, innerXml: string = ''): string {
         let xml = `<filter type="${filter.type}">`;
 
         for (const condition of filter.conditions) {
             if ('type' in condition) {
-                xml += this.buildFilter(condition);
+                xml += this.buildFilter(entityName, condition);
             } else {
-                xml += this.buildCondition(condition);
+                xml += this.buildCondition(entityName, condition);
             }
         }
 
+        for (const link of filter.links ?? []) {
+            xml += this.buildLinkEntity(link);
+        }
+
+        xml += innerXml;
         xml += '</filter>';
         return xml;
     }
@@ -85,90 +165,147 @@ export class FetchXMLBuilder {
     /**
      * Build individual condition
      */
-    private buildCondition(condition: FilterCondition): string {
+    private buildCondition(entityName: string, condition: FilterCondition): string {
         let xml = '<condition';
 
-        xml += ` attribute="${this.escapeXml(condition.attribute)}"`;
+        if (condition.entityname) xml += ` entityname="${escapeXml(condition.entityname)}"`;
+        xml += ` attribute="${escapeXml(condition.attribute)}"`;
         xml += ` operator="${condition.operator}"`;
 
-        if (condition.value !== undefined && condition.value !== null) 
-            xml += ` value="${this.escapeXml(condition.value.toString())}"`;
+        if (condition.valueof) return xml + ` valueof="${escapeXml(condition.valueof)}"/>`;
+
+        if (isMultiValueOperator(condition.operator)) return xml + this.buildConditionValues(entityName, condition);
+
+        if (condition.value !== undefined && condition.value !== null) {
+            const serialized = this.serializeValue(entityName, condition, condition.value);
+            xml += ` value="${escapeXml(serialized.value)}"${this.buildLookupAttributes(serialized)}`;
+        }
 
         xml += '/>';
         return xml;
     }
 
+    /**
+     * Build <value> child elements for multi-value operators
+     */
+    private buildConditionValues(entityName: string, condition: FilterCondition): string {
+        if (condition.value === undefined || condition.value === null) return '/>';
+
+        const values: any[] = Array.isArray(condition.value) ? condition.value : [condition.value];
+        if (values.length === 0) return '/>';
+
+        let xml = '>';
+
+        for (const value of values) {
+            const serialized = this.serializeValue(entityName, condition, value);
+            xml += `<value${this.buildLookupAttributes(serialized)}>${escapeXml(serialized.value)}</value>`;
+        }
+
+        xml += '</condition>';
+        return xml;
+    }
+
+    /**
+     * Serialize a condition value for the entity the condition applies to
+     */
+    private serializeValue(entityName: string, condition: FilterCondition, value: any): SerializedValue {
+        const target = condition.entityname ? this.aliases.get(condition.entityname) ?? entityName : entityName;
+
+        return ValueSerializer.serialize(value, {
+            entityName: target,
+            attribute: condition.attribute,
+            operator: condition.operator,
+            type: Validator.getAttributeType(target, condition.attribute)
+        });
+    }
+
+    private buildLookupAttributes(serialized: SerializedValue): string {
+        let xml = '';
+
+        if (serialized.uiname !== undefined) xml += ` uiname="${escapeXml(serialized.uiname)}"`;
+        if (serialized.uitype !== undefined) xml += ` uitype="${escapeXml(serialized.uitype)}"`;
+
+        return xml;
+    }
+
     /**
      * Build orders section
      */
-    private buildOrders(): string {
+    private buildOrders(orders: OrderBy[]): string {
         let xml = '';
 
-        for (const order of this.query.orders!) {
-            xml += `<order attribute="${this.escapeXml(order.attribute)}" descending="${order.order === 'desc'}"/>`;
+        for (const order of orders) {
+            xml += '<order';
+
+            if (order.entityname) xml += ` entityname="${escapeXml(order.entityname)}"`;
+            if (order.attribute) xml += ` attribute="${escapeXml(order.attribute)}"`;
+            if (order.alias) xml += ` alias="${escapeXml(order.alias)}"`;
+
+            xml += ` descending="${order.order === 'desc'}"/>`;
         }
 
         return xml;
     }
 
     /**
-     * Build links section
+     * Build links section, skipping links rendered inside a filter
      */
-    private buildLinks(): string {
+    private buildLinks(links: LinkEntity[]): string {
         let xml = '';
 
-        for (const link of this.query.links!) {
-            xml += this.buildLinkEntity(link);
+        for (const link of links) {
+            if (!this.isFilterLink(link)) xml += this.buildLinkEntity(link);
         }
 
         return xml;
     }
 
+    /**
+     * Check whether a link entity belongs inside the parent filter
+     */
+    private isFilterLink(link: LinkEntity): boolean {
+        return !!link.linkType && FetchXMLBuilder.FILTER_LINK_TYPES.includes(link.linkType);
+    }
+
     /**
      * Build individual link entity
      */
     private buildLinkEntity(link: LinkEntity): string {
         let xml = '<link-entity';
-        xml += ` name="${this.escapeXml(link.name)}"`;
-        xml += ` from="${this.escapeXml(link.from)}"`;
-        xml += ` to="${this.escapeXml(link.to)}"`;
+        xml += ` name="${escapeXml(link.name)}"`;
+        xml += ` from="${escapeXml(link.from)}"`;
+        xml += ` to="${escapeXml(link.to)}"`;
 
-        if (link.alias) xml += ` alias="${this.escapeXml(link.alias)}"`;
+        if (link.alias) xml += ` alias="${escapeXml(link.alias)}"`;
         if (link.linkType && link.linkType !== 'inner') xml += ` link-type="${link.linkType}"`;
+        if (link.intersect !== undefined) xml += ` intersect="${link.intersect}"`;
+        if (link.visible !== undefined) xml += ` visible="${link.visible}"`;
 
         xml += '>';
 
-        for (const attr of link.attributes) {
-            xml += '<attribute';
-            xml += ` name="${this.escapeXml(attr.name)}"`;
+        if (link.allAttributes) xml += '<all-attributes/>';
 
-            if ('aggregate' in attr) xml += ` aggregate="${attr.aggregate}"`;
-            if (attr.alias) xml += ` alias="${this.escapeXml(attr.alias)}"`;
-            
-            xml += '/>';
+        for (const attr of link.attributes) {
+            xml += this.buildAttribute(attr);
         }
 
-        if (link.filters) xml += this.buildFilter(link.filters);
-
-        if (link.links) {
-            for (const nestedLink of link.links) {
-                xml += this.buildLinkEntity(nestedLink);
-            }
-        }
+        xml += this.buildEntityFilter(link.name, link.filters, link.links);
+        if (link.orders) xml += this.buildOrders(link.orders);
+        if (link.links) xml += this.buildLinks(link.links);
 
         xml += '</link-entity>';
         return xml;
     }
 
     /**
-     * Escape XML special characters
+     * Map link entity aliases to entity names
      */
-    private escapeXml(value: string): string {
-        return value
-            .replace(/&/g, '&amp;')
-            .replace(/</g, '&lt;')
-            .replace(/>/g, '&gt;')
-            .replace(/"/g, '&quot;')
-            .replace(/'/g, '&#39;');
+    private collectAliases(links?: LinkEntity[], aliases = new Map<string, string>()): Map<string, string> {
+        for (const link of links ?? []) {
+            if (link.alias) aliases.set(link.alias, link.name);
+            this.collectAliases(entityLinks(link), aliases);
+        }
+
+        return aliases;
     }
-}
\ No newline at end of file
+}
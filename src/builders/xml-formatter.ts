@@ -0,0 +1,71 @@
+import { BuildOptions } from '../types';
+import { XmlElement, XmlParser } from '../parsers/xml-parser';
+import { Validator } from '../validators';
+import { escapeXml } from '../utils';
+
+/**
+ * XML Formatter
+ * Rewrites FetchXML as pretty-printed and/or canonical output. Canonical
+ * output sorts attributes by name, always uses double quotes and writes
+ * boolean attributes as true/false, omitting flags that are off by default.
+ */
+export class XmlFormatter {
+    private static BOOLEAN_ATTRIBUTES = [
+        'distinct', 'aggregate', 'returntotalrecordcount', 'no-lock', 'latematerialize',
+        'groupby', 'usertimezone', 'descending', 'intersect', 'visible'
+    ];
+    private static DEFAULT_OFF_ATTRIBUTES = ['distinct', 'aggregate', 'returntotalrecordcount', 'no-lock', 'latematerialize', 'groupby'];
+
+    private indent: string;
+
+    constructor(private options: BuildOptions = {}) {
+        const indent = options.indent ?? 2;
+        Validator.validateIndent(indent);
+
+        this.indent = typeof indent === 'number' ? ' '.repeat(indent) : indent;
+    }
+
+    /**
+     * Format a FetchXML document
+     */
+    public format(xml: string): string {
+        return this.formatElement(new XmlParser(xml).parse(), 0);
+    }
+
+    private formatElement(element: XmlElement, depth: number): string {
+        const padding = this.options.pretty ? this.indent.repeat(depth) : '';
+        const start = `${padding}<${element.name}${this.formatAttributes(element)}`;
+
+        if (element.children.length === 0) {
+            return element.text === '' ? `${start}/>` : `${start}>${escapeXml(element.text)}</${element.name}>`;
+        }
+
+        const separator = this.options.pretty ? '\n' : '';
+        const children = element.children.map(child => this.formatElement(child, depth + 1));
+
+        return `${start}>${separator}${children.join(separator)}${separator}${padding}</${element.name}>`;
+    }
+
+    private formatAttributes(element: XmlElement): string {
+        let entries = Object.entries(element.attributes);
+
+        if (this.options.canonical) {
+            entries = entries
+                .map(([name, value]): [string, string] => [name, this.normalizeValue(name, value)])
+                .filter(([name, value]) => !(value === 'false' && XmlFormatter.DEFAULT_OFF_ATTRIBUTES.includes(name)))
+                .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        }
+
+        return entries.map(([name, value]) => ` ${name}="${escapeXml(value)}"`).join('');
+    }
+
+    private normalizeValue(name: string, value: string): string {
+        if (!XmlFormatter.BOOLEAN_ATTRIBUTES.includes(name)) return value;
+
+        const normalized = value.trim().toLowerCase();
+        if (normalized === '1' || normalized === 'true') return 'true';
+        if (normalized === '0' || normalized === 'false') return 'false';
+
+        return value;
+    }
+}
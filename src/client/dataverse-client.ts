@@ -0,0 +1,116 @@
+import { DataverseClientOptions, HttpRequest, HttpResponse, HttpTransport } from '../types';
+import { FetchPage, PageExecutor } from '../paging/page-iterator';
+import { NodeHttpTransport } from './node-http-transport';
+import { Validator } from '../validators';
+import { DataverseError, ValidationError } from '../errors';
+import { Logger } from '../logger';
+
+/**
+ * Dataverse Client
+ * Sends FetchXML queries to the Dataverse Web API
+ */
+export class DataverseClient {
+    private logger = Logger.getInstance();
+    private transport: HttpTransport;
+    private baseUrl: string;
+
+    constructor(private options: DataverseClientOptions) {
+        if (!/^https?:\/\/[^/]+/.test(options.url ?? '')) {
+            this.logger.error(`Invalid Dataverse URL: ${options.url}`);
+            throw new ValidationError(`Invalid Dataverse URL: ${options.url}`, 'url');
+        }
+
+        this.baseUrl = `${options.url.replace(/\/+$/, '')}/api/data/v${options.apiVersion ?? '9.2'}`;
+        this.transport = options.transport ?? new NodeHttpTransport();
+    }
+
+    /**
+     * Execute FetchXML against an entity set and return the response
+     * with its annotations
+     */
+    public async executeFetchXml<R = any>(entitySetName: string, fetchXml: string): Promise<FetchPage<R>> {
+        try {
+            Validator.validateEntityName(entitySetName);
+
+            const request: HttpRequest = {
+                method: 'GET',
+                url: `${this.baseUrl}/${entitySetName}?fetchXml=${encodeURIComponent(fetchXml)}`,
+                headers: await this.buildHeaders()
+            };
+
+            this.logger.debug('Executing FetchXML', { entitySetName });
+
+            const response = await this.transport.send(request);
+
+            if (response.status < 200 || response.status >= 300) throw DataverseClient.createError(response);
+
+            const page = DataverseClient.parseBody<FetchPage<R>>(response);
+
+            this.logger.debug('FetchXML executed successfully', { entitySetName, records: page.value.length });
+            return page;
+        } catch (error) {
+            this.logger.error('Failed to execute FetchXML', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Page executor for an entity set, e.g. for BaseEntity.paginate()
+     */
+    public pageExecutor<R = any>(entitySetName: string): PageExecutor<R> {
+        return fetchXml => this.executeFetchXml<R>(entitySetName, fetchXml);
+    }
+
+    /**
+     * Default entity set name for a logical name, e.g. opportunity -> opportunities
+     */
+    public static entitySetNameFor(logicalName: string): string {
+        if (/[^aeiou]y$/.test(logicalName)) return logicalName.slice(0, -1) + 'ies';
+        if (/(s|x|z|ch|sh)$/.test(logicalName)) return logicalName + 'es';
+
+        return logicalName + 's';
+    }
+
+    private async buildHeaders(): Promise<Record<string, string>> {
+        const headers: Record<string, string> = {
+            'Accept': 'application/json',
+            'OData-MaxVersion': '4.0',
+            'OData-Version': '4.0',
+            'Prefer': 'odata.include-annotations="*"',
+            ...this.options.headers
+        };
+
+        if (this.options.tokenProvider) {
+            headers['Authorization'] = `Bearer ${await this.options.tokenProvider()}`;
+        }
+
+        return headers;
+    }
+
+    private static parseBody<B>(response: HttpResponse): B {
+        try {
+            return JSON.parse(response.body) as B;
+        } catch {
+            throw new DataverseError('Dataverse returned an invalid JSON response', response.status);
+        }
+    }
+
+    /**
+     * Create an error from a failed response, using the OData error body when present
+     */
+    private static createError(response: HttpResponse): DataverseError {
+        let message = `Dataverse request failed with status ${response.status}`;
+        let errorCode: string | undefined;
+
+        try {
+            const body = JSON.parse(response.body);
+
+            if (body?.error?.message) message = `${message}: ${body.error.message}`;
+            errorCode = body?.error?.code;
+        } catch {
+            if (response.body) message = `${message}: ${response.body}`;
+        }
+
+        return new DataverseError(message, response.status, errorCode);
+    }
+}
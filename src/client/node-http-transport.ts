@@ -0,0 +1,45 @@
+import * as http from 'http';
+import * as https from 'https';
+import { HttpRequest, HttpResponse, HttpTransport } from '../types';
+
+/**
+ * HTTP transport based on the Node.js http and https modules
+ */
+export class NodeHttpTransport implements HttpTransport {
+    constructor(private timeout: number = 120000) { }
+
+    public send(request: HttpRequest): Promise<HttpResponse> {
+        return new Promise((resolve, reject) => {
+            const url = new URL(request.url);
+            const send = url.protocol === 'https:' ? https.request : http.request;
+
+            const outgoing = send(url, { method: request.method, headers: request.headers, timeout: this.timeout }, incoming => {
+                const chunks: Buffer[] = [];
+
+                incoming.on('data', (chunk: Buffer) => chunks.push(chunk));
+                incoming.on('error', reject);
+                incoming.on('end', () => resolve({
+                    status: incoming.statusCode ?? 0,
+                    headers: NodeHttpTransport.normalizeHeaders(incoming.headers),
+                    body: Buffer.concat(chunks).toString('utf8')
+                }));
+            });
+
+            outgoing.on('timeout', () => outgoing.destroy(new Error(`Request timed out after ${this.timeout} ms`)));
+            outgoing.on('error', reject);
+
+            if (request.body !== undefined) outgoing.write(request.body);
+            outgoing.end();
+        });
+    }
+
+    private static normalizeHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+        const normalized: Record<string, string> = {};
+
+        for (const [name, value] of Object.entries(headers)) {
+            if (value !== undefined) normalized[name] = Array.isArray(value) ? value.join(', ') : value;
+        }
+
+        return normalized;
+    }
+}
@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { CodeGenerator, CodegenOptions } from './code-generator';
+
+const USAGE = `Usage: fetchorm-codegen --input <metadata.xml> [options]
+
+Options:
+  -i, --input <file>       CSDL $metadata file
+  -o, --output <file>      Output file, defaults to stdout
+  -p, --prefix <prefixes>  Comma separated publisher prefixes, e.g. new_,contoso_
+  -e, --entities <names>   Comma separated entity logical names
+      --import <module>    Module to import BaseEntity from, defaults to fetchorm
+      --option-sets <file> Web API choice column metadata (JSON) to generate option set enums from, repeatable
+  -h, --help               Show this help`;
+
+export interface CliOutput {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+}
+
+/**
+ * Run the code generator CLI and return the exit code
+ */
+export function runCli(args: string[], output: CliOutput = {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text)
+}): number {
+    const options: CodegenOptions = {};
+    let input: string | undefined;
+    let outputFile: string | undefined;
+
+    try {
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+            const value = (): string => {
+                const next = args[++i];
+                if (next === undefined || next.startsWith('-')) throw new Error(`Missing value for ${arg}`);
+                return next;
+            };
+            const list = (): string[] => value().split(',').map(item => item.trim()).filter(item => item !== '');
+
+            switch (arg) {
+                case '-i':
+                case '--input':
+                    input = value();
+                    break;
+                case '-o':
+                case '--output':
+                    outputFile = value();
+                    break;
+                case '-p':
+                case '--prefix':
+                    options.publisherPrefixes = [...(options.publisherPrefixes ?? []), ...list()];
+                    break;
+                case '-e':
+                case '--entities':
+                    options.entities = [...(options.entities ?? []), ...list()];
+                    break;
+                case '--import':
+                    options.importPath = value();
+                    break;
+                case '--option-sets':
+                    options.optionSets = [...(options.optionSets ?? []), ...CodeGenerator.parseOptionSets(fs.readFileSync(value(), 'utf8'))];
+                    break;
+                case '-h':
+                case '--help':
+                    output.stdout(USAGE + '\n');
+                    return 0;
+                default:
+                    throw new Error(`Unknown option: ${arg}`);
+            }
+        }
+
+        if (!input) throw new Error('Missing --input');
+
+        const generator = CodeGenerator.fromCsdl(fs.readFileSync(input, 'utf8'), options);
+        const code = generator.generate();
+
+        for (const warning of generator.warnings) {
+            output.stderr(`fetchorm-codegen: warning: ${warning}\n`);
+        }
+
+        if (outputFile) {
+            fs.writeFileSync(outputFile, code);
+        } else {
+            output.stdout(code);
+        }
+
+        return 0;
+    } catch (error) {
+        output.stderr(`fetchorm-codegen: ${(error as Error).message}\nRun with --help for usage.\n`);
+        return 1;
+    }
+}
+
+if (require.main === module) {
+    process.exitCode = runCli(process.argv.slice(2));
+}
@@ -0,0 +1,409 @@
+import { AttributeType, RelationshipDefinition } from '../types';
+import { CsdlParser, CsdlModel, CsdlEntityType, CsdlProperty } from './csdl-parser';
+import { ValidationError } from '../errors';
+import { Logger } from '../logger';
+
+export interface CodegenOptions {
+    /** Generate entities whose logical name starts with one of these prefixes, e.g. new_ */
+    publisherPrefixes?: string[];
+    /** Generate these entities */
+    entities?: string[];
+    /** Module the generated code imports BaseEntity from */
+    importPath?: string;
+    /** Option sets of choice columns, which are not part of the CSDL document */
+    optionSets?: ChoiceAttributeMetadata[];
+}
+
+/**
+ * Choice column as returned by the Web API attribute metadata, e.g.
+ * EntityDefinitions(LogicalName='account')/Attributes/Microsoft.Dynamics.CRM.PicklistAttributeMetadata
+ * ?$select=LogicalName,EntityLogicalName&$expand=OptionSet($select=Name,Options),GlobalOptionSet($select=Name,Options)
+ */
+export interface ChoiceAttributeMetadata {
+    '@odata.type'?: string;
+    EntityLogicalName: string;
+    LogicalName: string;
+    OptionSet?: OptionSetMetadata | null;
+    GlobalOptionSet?: OptionSetMetadata | null;
+}
+
+export interface OptionSetMetadata {
+    Name?: string;
+    IsGlobal?: boolean;
+    Options: {
+        Value: number;
+        Label?: { UserLocalizedLabel?: { Label: string } | null; LocalizedLabels?: { Label: string }[] };
+    }[];
+}
+
+/** Enum generated for the option set of a choice column */
+interface ChoiceEnum {
+    name: string;
+    members: { name: string; value: number }[];
+    multiple: boolean;
+}
+
+const PRIMITIVE_TYPES: Record<string, string> = {
+    'Edm.String': 'string',
+    'Edm.Guid': 'string',
+    'Edm.Binary': 'string',
+    'Edm.TimeOfDay': 'string',
+    'Edm.Duration': 'string',
+    'Edm.Boolean': 'boolean',
+    'Edm.Byte': 'number',
+    'Edm.SByte': 'number',
+    'Edm.Int16': 'number',
+    'Edm.Int32': 'number',
+    'Edm.Int64': 'number',
+    'Edm.Decimal': 'number',
+    'Edm.Double': 'number',
+    'Edm.Single': 'number',
+    'Edm.Date': 'Date',
+    'Edm.DateTimeOffset': 'Date'
+};
+
+const ATTRIBUTE_TYPES: Record<string, AttributeType> = {
+    'Edm.String': 'string',
+    'Edm.Guid': 'guid',
+    'Edm.Boolean': 'boolean',
+    'Edm.Byte': 'integer',
+    'Edm.SByte': 'integer',
+    'Edm.Int16': 'integer',
+    'Edm.Int32': 'integer',
+    'Edm.Int64': 'integer',
+    'Edm.Decimal': 'decimal',
+    'Edm.Double': 'decimal',
+    'Edm.Single': 'decimal',
+    'Edm.Date': 'datetime',
+    'Edm.DateTimeOffset': 'datetime'
+};
+
+/**
+ * Code Generator
+ * Emits entity interfaces, BaseEntity subclasses, enums, relationship
+ * constants and validation metadata from a CSDL $metadata model
+ */
+export class CodeGenerator {
+    private logger = Logger.getInstance();
+    private entityTypes = new Map<string, CsdlEntityType>();
+    private choices = new Map<string, ChoiceEnum>();
+
+    /** Parts of the model the generated code leaves out, e.g. many-to-many relationships */
+    public readonly warnings: string[] = [];
+
+    constructor(private model: CsdlModel, private options: CodegenOptions = {}) {
+        for (const entityType of model.entityTypes) {
+            this.entityTypes.set(entityType.name, entityType);
+        }
+
+        for (const attribute of options.optionSets ?? []) {
+            const choice = this.createChoiceEnum(attribute);
+            if (choice) this.choices.set(`${attribute.EntityLogicalName}.${attribute.LogicalName}`, choice);
+        }
+    }
+
+    /**
+     * Create a generator from a $metadata document
+     */
+    public static fromCsdl(xml: string, options: CodegenOptions = {}): CodeGenerator {
+        return new CodeGenerator(new CsdlParser(xml).parse(), options);
+    }
+
+    /**
+     * Read choice columns from a Web API attribute metadata response,
+     * either the response object with its value array or the array itself
+     */
+    public static parseOptionSets(json: string): ChoiceAttributeMetadata[] {
+        let parsed: any;
+
+        try {
+            parsed = JSON.parse(json);
+        } catch (error) {
+            throw new ValidationError(`Invalid option set metadata: ${(error as Error).message}`, 'optionSets');
+        }
+
+        const attributes = Array.isArray(parsed) ? parsed : parsed?.value;
+
+        if (!Array.isArray(attributes) || attributes.some(attribute => typeof attribute?.EntityLogicalName !== 'string' || typeof attribute?.LogicalName !== 'string')) {
+            throw new ValidationError('Invalid option set metadata: expected attributes with EntityLogicalName and LogicalName', 'optionSets');
+        }
+
+        return attributes;
+    }
+
+    /**
+     * Generate the TypeScript source
+     */
+    public generate(): string {
+        const entities = this.selectEntities();
+        const enums = new Set(entities.flatMap(entity => this.properties(entity).map(property => this.typeName(property.type))));
+        const generated = new Set(entities.map(entity => entity.name));
+        const imports = new Set(['BaseEntity', 'EntityReference', 'MetadataDefinition']);
+        const sections: string[] = [];
+
+        this.logger.debug('Generating code', { entities: entities.map(entity => entity.name) });
+
+        if (!this.options.optionSets) {
+            this.warn('No option set metadata given, choice columns are typed as number');
+        }
+
+        const emit = (name: string, members: { name: string; value: number }[]): void => {
+            sections.push(`export enum ${name} {\n${members.map(member => `    ${member.name} = ${member.value}`).join(',\n')}\n}`);
+        };
+
+        for (const enumType of this.model.enumTypes.filter(enumType => enums.has(enumType.name))) {
+            emit(enumType.name, enumType.members);
+        }
+
+        const emitted = new Set<string>();
+
+        for (const entity of entities) {
+            for (const property of this.properties(entity)) {
+                const choice = this.choiceOf(entity, property);
+                if (!choice || emitted.has(choice.name)) continue;
+
+                emitted.add(choice.name);
+                emit(choice.name, choice.members);
+            }
+        }
+
+        for (const entity of entities) {
+            sections.push(this.generateInterface(entity));
+
+            const relationships = this.relationships(entity);
+            const hasRelationships = Object.keys(relationships).length > 0;
+
+            if (hasRelationships) {
+                sections.push(this.generateRelationships(entity, relationships, generated));
+                Object.values(relationships).forEach(relationship => imports.add(relationship.collection ? 'oneToMany' : 'manyToOne'));
+            }
+
+            sections.push(this.generateClass(entity, hasRelationships));
+        }
+
+        sections.push(this.generateMetadata(entities));
+
+        const header = [
+            '// Generated by fetchorm-codegen from CSDL $metadata. Do not edit.',
+            `import { ${[...imports].join(', ')} } from '${this.options.importPath ?? 'fetchorm'}';`
+        ].join('\n');
+
+        return [header, ...sections].join('\n\n') + '\n';
+    }
+
+    /**
+     * Relationships of an entity, keyed by navigation property. Many-to-many
+     * relationships are skipped with a warning as they need an intersect entity.
+     */
+    public relationships(entity: CsdlEntityType): Record<string, RelationshipDefinition> {
+        const relationships: Record<string, RelationshipDefinition> = {};
+
+        for (const navigation of entity.navigationProperties) {
+            if (!navigation.collection && navigation.constraint) {
+                relationships[navigation.name] = {
+                    entity: navigation.entity,
+                    from: navigation.constraint.referencedProperty,
+                    to: this.lookupName(navigation.constraint.property),
+                    collection: false
+                };
+                continue;
+            }
+
+            const partner = this.entityTypes.get(navigation.entity)?.navigationProperties
+                .find(candidate => candidate.name === navigation.partner);
+
+            if (navigation.collection && partner?.constraint && !partner.collection) {
+                relationships[navigation.name] = {
+                    entity: navigation.entity,
+                    from: this.lookupName(partner.constraint.property),
+                    to: partner.constraint.referencedProperty,
+                    collection: true
+                };
+            } else if (navigation.collection && partner?.collection) {
+                this.warn(`Skipped many-to-many relationship ${entity.name}.${navigation.name}, join it with manyToMany()`);
+            }
+        }
+
+        return relationships;
+    }
+
+    private selectEntities(): CsdlEntityType[] {
+        const { entities, publisherPrefixes } = this.options;
+
+        for (const name of entities ?? []) {
+            if (!this.entityTypes.has(name)) {
+                throw new ValidationError(`Unknown entity: ${name}`, 'entities');
+            }
+        }
+
+        return this.model.entityTypes.filter(entity => {
+            if (entity.abstract) return false;
+            if (!entities && !publisherPrefixes) return true;
+
+            return (entities ?? []).includes(entity.name) ||
+                (publisherPrefixes ?? []).some(prefix => entity.name.startsWith(prefix));
+        });
+    }
+
+    private generateInterface(entity: CsdlEntityType): string {
+        const fields = this.properties(entity).map(property => {
+            const lookup = /^_(.+)_value$/.exec(property.name);
+
+            if (lookup) return `    ${lookup[1]}: EntityReference;`;
+            return `    ${property.name}: ${this.tsType(entity, property)};`;
+        });
+
+        return `export interface ${this.pascalCase(entity.name)} {\n${fields.join('\n')}\n}`;
+    }
+
+    /**
+     * Relationships are typed with the interface of the related entity when it is generated too
+     */
+    private generateRelationships(entity: CsdlEntityType, relationships: Record<string, RelationshipDefinition>, generated: Set<string>): string {
+        const entries = Object.entries(relationships).map(([name, relationship]) => {
+            const factory = relationship.collection ? 'oneToMany' : 'manyToOne';
+            const type = generated.has(relationship.entity) ? `<${this.pascalCase(relationship.entity)}>` : '';
+
+            return `    ${name}: ${factory}${type}('${relationship.entity}', '${relationship.from}', '${relationship.to}')`;
+        });
+
+        return `export const ${this.pascalCase(entity.name)}Relationships = {\n${entries.join(',\n')}\n};`;
+    }
+
+    private generateClass(entity: CsdlEntityType, hasRelationships: boolean): string {
+        const name = this.pascalCase(entity.name);
+        const lines = [
+            `export class ${name}Entity extends BaseEntity<${name}> {`
+        ];
+
+        const entitySet = this.model.entitySets[entity.name];
+        if (entitySet) lines.push(`    entitySetName = '${entitySet}';`);
+        if (hasRelationships) lines.push(`    relationships = ${name}Relationships;`);
+
+        lines.push('', '    constructor() {', `        super('${entity.name}');`, '    }', '}');
+        return lines.join('\n');
+    }
+
+    /**
+     * Attribute types for MetadataRegistry. Collections other than
+     * multi-select choices have no FetchXML attribute and are skipped.
+     */
+    private generateMetadata(entities: CsdlEntityType[]): string {
+        const blocks = entities.map(entity => {
+            const attributes = this.properties(entity).flatMap(property => {
+                const type = this.attributeType(entity, property);
+                return type ? [`        ${this.lookupName(property.name)}: '${type}'`] : [];
+            });
+
+            return `    ${entity.name}: {\n${attributes.join(',\n')}\n    }`;
+        });
+
+        return `export const Metadata: MetadataDefinition = {\n${blocks.join(',\n')}\n};`;
+    }
+
+    private attributeType(entity: CsdlEntityType, property: CsdlProperty): AttributeType | undefined {
+        const choice = this.choiceOf(entity, property);
+        if (choice) return choice.multiple || property.collection ? 'multichoice' : 'choice';
+
+        const enumType = this.model.enumTypes.some(candidate => candidate.name === this.typeName(property.type));
+
+        if (property.collection) return enumType ? 'multichoice' : undefined;
+        if (enumType) return 'choice';
+        if (/^_(.+)_value$/.test(property.name)) return 'lookup';
+        return ATTRIBUTE_TYPES[property.type];
+    }
+
+    /**
+     * Properties of an entity including those of its base types
+     */
+    private properties(entity: CsdlEntityType): CsdlProperty[] {
+        const base = entity.baseType ? this.entityTypes.get(entity.baseType) : undefined;
+        return [...(base ? this.properties(base) : []), ...entity.properties];
+    }
+
+    private tsType(entity: CsdlEntityType, property: CsdlProperty): string {
+        const choice = this.choiceOf(entity, property);
+        if (choice) return choice.multiple || property.collection ? `${choice.name}[]` : choice.name;
+
+        const enumType = this.model.enumTypes.find(candidate => candidate.name === this.typeName(property.type));
+        const type = PRIMITIVE_TYPES[property.type] ?? (enumType ? enumType.name : 'unknown');
+
+        return property.collection ? `${type}[]` : type;
+    }
+
+    /**
+     * Option set enum of a choice column, looked up on the entity and its base types
+     */
+    private choiceOf(entity: CsdlEntityType, property: CsdlProperty): ChoiceEnum | undefined {
+        const choice = this.choices.get(`${entity.name}.${property.name}`);
+        if (choice) return choice;
+
+        const base = entity.baseType ? this.entityTypes.get(entity.baseType) : undefined;
+        return base ? this.choiceOf(base, property) : undefined;
+    }
+
+    /**
+     * Enum of a choice column. Global option sets are named after the option
+     * set, local ones after entity and column. Members are named after their labels.
+     */
+    private createChoiceEnum(attribute: ChoiceAttributeMetadata): ChoiceEnum | undefined {
+        const optionSet = attribute.GlobalOptionSet ?? attribute.OptionSet;
+        if (!optionSet || optionSet.Options.length === 0) return undefined;
+
+        const global = !!attribute.GlobalOptionSet || !!optionSet.IsGlobal;
+        const name = this.identifier(global && optionSet.Name
+            ? optionSet.Name
+            : `${this.pascalCase(attribute.EntityLogicalName)}_${this.pascalCase(attribute.LogicalName)}`);
+        const used = new Set<string>();
+
+        const members = optionSet.Options.map(option => {
+            const label = option.Label?.UserLocalizedLabel?.Label ?? option.Label?.LocalizedLabels?.[0]?.Label ?? '';
+            let member = this.identifier(label) || `Value${option.Value}`;
+
+            if (used.has(member)) member = `${member}_${option.Value}`;
+            used.add(member);
+
+            return { name: member, value: option.Value };
+        });
+
+        return { name, members, multiple: !!attribute['@odata.type']?.includes('MultiSelectPicklist') };
+    }
+
+    /**
+     * PascalCase identifier from a label or name, e.g. "Not started" -> NotStarted
+     */
+    private identifier(text: string): string {
+        const name = text
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .split(/[^A-Za-z0-9]+/)
+            .filter(part => part !== '')
+            .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+            .join('');
+
+        return /^[0-9]/.test(name) ? `_${name}` : name;
+    }
+
+    private warn(message: string): void {
+        if (!this.warnings.includes(message)) this.warnings.push(message);
+    }
+
+    private typeName(type: string): string {
+        return type.slice(type.lastIndexOf('.') + 1);
+    }
+
+    /**
+     * Attribute logical name of a lookup property, e.g. _primarycontactid_value -> primarycontactid
+     */
+    private lookupName(property: string): string {
+        return property.replace(/^_(.+)_value$/, '$1');
+    }
+
+    private pascalCase(name: string): string {
+        return name
+            .split('_')
+            .filter(part => part !== '')
+            .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+            .join('');
+    }
+}
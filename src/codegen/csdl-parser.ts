@@ -0,0 +1,167 @@
+import { XmlParser, XmlElement } from '../parsers/xml-parser';
+import { QueryBuildError } from '../errors';
+
+export interface CsdlProperty {
+    name: string;
+    type: string;
+    collection: boolean;
+}
+
+export interface CsdlNavigationProperty {
+    name: string;
+    entity: string;
+    collection: boolean;
+    partner?: string;
+    constraint?: { property: string; referencedProperty: string };
+}
+
+export interface CsdlEntityType {
+    name: string;
+    baseType?: string;
+    key?: string;
+    abstract: boolean;
+    properties: CsdlProperty[];
+    navigationProperties: CsdlNavigationProperty[];
+}
+
+export interface CsdlEnumType {
+    name: string;
+    members: { name: string; value: number }[];
+}
+
+export interface CsdlModel {
+    entityTypes: CsdlEntityType[];
+    enumTypes: CsdlEnumType[];
+    entitySets: Record<string, string>;
+}
+
+/**
+ * CSDL Parser
+ * Reads the entity types, enum types and entity sets of a $metadata document
+ */
+export class CsdlParser {
+    constructor(private xml: string) { }
+
+    public parse(): CsdlModel {
+        const root = new XmlParser(this.xml).parse();
+        const model: CsdlModel = { entityTypes: [], enumTypes: [], entitySets: {} };
+
+        if (this.localName(root) !== 'Edmx') this.fail(`Expected <edmx:Edmx> root element but found <${root.name}>`, root);
+
+        for (const schema of this.descendants(root, 'Schema')) {
+            for (const element of schema.children) {
+                switch (this.localName(element)) {
+                    case 'EntityType':
+                        model.entityTypes.push(this.parseEntityType(element));
+                        break;
+                    case 'EnumType':
+                        model.enumTypes.push(this.parseEnumType(element));
+                        break;
+                    case 'EntityContainer':
+                        for (const set of element.children.filter(child => this.localName(child) === 'EntitySet')) {
+                            model.entitySets[this.typeName(this.require(set, 'EntityType'))] = this.require(set, 'Name');
+                        }
+                        break;
+                }
+            }
+        }
+
+        return model;
+    }
+
+    private parseEntityType(element: XmlElement): CsdlEntityType {
+        const entityType: CsdlEntityType = {
+            name: this.require(element, 'Name'),
+            abstract: element.attributes.Abstract === 'true',
+            properties: [],
+            navigationProperties: []
+        };
+
+        if (element.attributes.BaseType) entityType.baseType = this.typeName(element.attributes.BaseType);
+
+        for (const child of element.children) {
+            switch (this.localName(child)) {
+                case 'Key': {
+                    const ref = this.descendants(child, 'PropertyRef')[0];
+                    if (ref) entityType.key = this.require(ref, 'Name');
+                    break;
+                }
+                case 'Property': {
+                    const [type, collection] = this.parseType(this.require(child, 'Type'));
+                    entityType.properties.push({ name: this.require(child, 'Name'), type, collection });
+                    break;
+                }
+                case 'NavigationProperty': {
+                    const [type, collection] = this.parseType(this.require(child, 'Type'));
+                    const navigation: CsdlNavigationProperty = { name: this.require(child, 'Name'), entity: this.typeName(type), collection };
+                    const constraint = this.descendants(child, 'ReferentialConstraint')[0];
+
+                    if (child.attributes.Partner) navigation.partner = child.attributes.Partner;
+                    if (constraint) {
+                        navigation.constraint = {
+                            property: this.require(constraint, 'Property'),
+                            referencedProperty: this.require(constraint, 'ReferencedProperty')
+                        };
+                    }
+
+                    entityType.navigationProperties.push(navigation);
+                    break;
+                }
+            }
+        }
+
+        return entityType;
+    }
+
+    private parseEnumType(element: XmlElement): CsdlEnumType {
+        const members = element.children
+            .filter(child => this.localName(child) === 'Member')
+            .map((member, index) => ({
+                name: this.require(member, 'Name'),
+                value: member.attributes.Value !== undefined ? Number(member.attributes.Value) : index
+            }));
+
+        return { name: this.require(element, 'Name'), members };
+    }
+
+    /**
+     * Split "Collection(Type)" into the item type and a collection flag
+     */
+    private parseType(type: string): [string, boolean] {
+        const collection = /^Collection\((.+)\)$/.exec(type);
+        return collection ? [collection[1], true] : [type, false];
+    }
+
+    /**
+     * Type name without namespace or alias, e.g. mscrm.contact -> contact
+     */
+    private typeName(type: string): string {
+        return type.slice(type.lastIndexOf('.') + 1);
+    }
+
+    private descendants(element: XmlElement, name: string): XmlElement[] {
+        const found: XmlElement[] = [];
+
+        for (const child of element.children) {
+            if (this.localName(child) === name) found.push(child);
+            found.push(...this.descendants(child, name));
+        }
+
+        return found;
+    }
+
+    private require(element: XmlElement, name: string): string {
+        const value = element.attributes[name];
+
+        if (value === undefined || value.trim() === '') this.fail(`Missing "${name}" attribute on <${element.name}>`, element);
+        return value;
+    }
+
+    private localName(element: XmlElement): string {
+        return element.name.slice(element.name.indexOf(':') + 1);
+    }
+
+    private fail(message: string, element: XmlElement): never {
+        throw new QueryBuildError(`Invalid CSDL: ${message}`, element.line, element.column);
+    }
+}
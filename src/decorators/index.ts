@@ -0,0 +1,22 @@
+import { ColumnOptions, EntityOptions } from '../types';
+import { EntitySchema } from '../metadata/entity-schema';
+
+/**
+ * Declare the logical name, primary key and entity set of an entity class,
+ * either a model class or a BaseEntity subclass
+ */
+export function Entity(logicalName: string, options: EntityOptions = {}): ClassDecorator {
+    return target => {
+        EntitySchema.define(target, logicalName, options);
+    };
+}
+
+/**
+ * Declare a column of an entity class. Typed columns are checked by the
+ * validator and mapped by the result mapper.
+ */
+export function Column(options: ColumnOptions = {}): PropertyDecorator {
+    return (target, property) => {
+        EntitySchema.addColumn(target.constructor, String(property), options);
+    };
+}
@@ -0,0 +1,722 @@
+import {
+    FetchQuery,
+    FilterGroup,
+    FilterCondition,
+    FilterOperator,
+    OrderBy,
+    LinkEntity,
+    LinkType,
+    Attribute,
+    AggregateAttribute,
+    InMemoryData,
+    InMemoryEngineOptions
+} from '../types';
+import { QueryBuildError } from '../errors';
+import { Validator } from '../validators';
+import { FetchXMLParser } from '../parsers/fetchxml-parser';
+import { DateUnit, DATE_PERIODS, LAST_X_UNITS, NEXT_X_UNITS, OLDER_THAN_X_UNITS } from '../operators';
+import { FetchPage, PageExecutor, MORE_RECORDS_ANNOTATION, TOTAL_RECORD_COUNT_ANNOTATION } from '../paging/page-iterator';
+import { Logger } from '../logger';
+import { ValueSerializer } from '../serializers/value-serializer';
+import { isGuid } from '../utils';
+
+type DataRecord = Record<string, any>;
+
+/** Records of the root entity and of each link alias that make up one result row */
+type Row = Map<string, DataRecord | null>;
+
+/** Selected, grouped or aggregated column with its key in the results */
+interface Column {
+    key: string;
+    table: string;
+    attribute: Attribute | AggregateAttribute;
+}
+
+const ROOT = '';
+const DEFAULT_PAGE_SIZE = 5000;
+
+/**
+ * In-Memory Engine
+ * Evaluates queries against arrays of records keyed by entity name, e.g. to
+ * unit test which records a query returns. Results have the shape of Web API
+ * FetchXML results: link columns are keyed <link alias>.<attribute>.
+ * Joins follow FetchXML: from is an attribute of the link entity, to an
+ * attribute of its parent. Relative dates are evaluated in UTC, date-only
+ * operators compare calendar dates in the time zone of ValueSerializer.
+ */
+export class InMemoryEngine {
+    private static FILTER_LINK_TYPES: LinkType[] = ['exists', 'in', 'any', 'not any', 'all', 'not all'];
+
+    private logger = Logger.getInstance();
+    private linkAliases = new Map<LinkEntity, string>();
+
+    constructor(private data: InMemoryData, private options: InMemoryEngineOptions = {}) { }
+
+    /**
+     * Return the records of a query, or of the query of an entity builder
+     */
+    public execute<R = DataRecord>(query: FetchQuery | { toQuery(): FetchQuery }): R[] {
+        const fetchQuery = 'toQuery' in query ? query.toQuery() : query;
+
+        try {
+            this.logger.debug('Executing query in memory', { entity: fetchQuery.entity });
+
+            Validator.validateLinkEntities(fetchQuery);
+            Validator.validateQueryReferences(fetchQuery);
+            Validator.validateOrders(fetchQuery);
+            Validator.validateQueryMetadata(fetchQuery);
+
+            const records = this.run(fetchQuery);
+
+            this.logger.debug('Query executed in memory', { entity: fetchQuery.entity, records: records.length });
+            return this.page(fetchQuery, records) as R[];
+        } catch (error) {
+            this.logger.error('Failed to execute query in memory', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Page executor for paginate(), answering FetchXML requests with pages
+     * of the in-memory results
+     */
+    public pageExecutor<R = DataRecord>(): PageExecutor<R> {
+        return async fetchXml => {
+            const query = new FetchXMLParser(fetchXml).parse();
+            const size = query.count ?? DEFAULT_PAGE_SIZE;
+            const pageNumber = query.page ?? 1;
+
+            const records = this.execute<R>({ ...query, page: undefined, count: undefined, pagingCookie: undefined });
+            const page: FetchPage<R> = {
+                value: records.slice((pageNumber - 1) * size, pageNumber * size),
+                [MORE_RECORDS_ANNOTATION]: records.length > pageNumber * size
+            };
+
+            if (query.returnTotalRecordCount) page[TOTAL_RECORD_COUNT_ANNOTATION] = records.length;
+            return page;
+        };
+    }
+
+    private run(query: FetchQuery): DataRecord[] {
+        this.linkAliases = new Map();
+
+        let rows: Row[] = this.records(query.entity).map(record => new Map([[ROOT, record]]));
+
+        for (const link of query.links ?? []) {
+            if (!this.isFilterLink(link)) rows = this.join(rows, ROOT, link);
+        }
+
+        rows = rows.filter(row => this.matches(row, row.get(ROOT)!, query.filters, query.links));
+
+        const columns = this.collectColumns(query);
+        const aggregate = !!query.aggregate || columns.some(column => column.attribute.groupby || 'aggregate' in column.attribute);
+
+        if (aggregate) return this.sortResults(this.aggregate(columns, rows), query.orders ?? []);
+
+        const results = this.sortRows(rows, this.collectOrders(query), columns).map(row => this.project(row, columns));
+        return query.distinct ? this.distinct(results) : results;
+    }
+
+    private records(entityName: string): DataRecord[] {
+        const records = this.data[entityName];
+
+        if (!records) {
+            throw new QueryBuildError(`No records for entity ${entityName} in the in-memory data`);
+        }
+
+        return records;
+    }
+
+    private page(query: FetchQuery, records: DataRecord[]): DataRecord[] {
+        if (query.page !== undefined || query.count !== undefined) {
+            const size = query.count ?? DEFAULT_PAGE_SIZE;
+            const pageNumber = query.page ?? 1;
+
+            return records.slice((pageNumber - 1) * size, pageNumber * size);
+        }
+
+        return query.top ? records.slice(0, query.top) : records;
+    }
+
+    /**
+     * Join the records of a link entity and its nested links. Inner links
+     * drop rows without match, outer links keep them with null and
+     * matchfirstrowusingcrossapply links join the first match only.
+     */
+    private join(rows: Row[], parent: string, link: LinkEntity): Row[] {
+        const alias = this.aliasOf(link);
+        const related = this.records(link.name);
+        let joined: Row[] = [];
+
+        for (const row of rows) {
+            const parentRecord = row.get(parent);
+            const matches = parentRecord
+                ? related.filter(record =>
+                    this.equals(record[link.from], parentRecord[link.to]) &&
+                    this.matches(new Map(row).set(alias, record), record, link.filters, link.links))
+                : [];
+
+            switch (link.linkType ?? 'inner') {
+                case 'inner':
+                    joined.push(...matches.map(record => new Map(row).set(alias, record)));
+                    break;
+                case 'outer':
+                    if (matches.length === 0) joined.push(new Map(row).set(alias, null));
+                    else joined.push(...matches.map(record => new Map(row).set(alias, record)));
+                    break;
+                case 'matchfirstrowusingcrossapply':
+                    if (matches.length > 0) joined.push(new Map(row).set(alias, matches[0]));
+                    break;
+            }
+        }
+
+        for (const nested of link.links ?? []) {
+            if (!this.isFilterLink(nested)) joined = this.join(joined, alias, nested);
+        }
+
+        return joined;
+    }
+
+    /**
+     * Check a record against a filter and the filter links of its entity
+     */
+    private matches(row: Row, record: DataRecord, filter?: FilterGroup, links: LinkEntity[] = []): boolean {
+        if (filter && !this.matchesGroup(row, record, filter)) return false;
+
+        return links.filter(link => this.isFilterLink(link)).every(link => this.matchesLink(row, record, link));
+    }
+
+    private matchesGroup(row: Row, record: DataRecord, filter: FilterGroup): boolean {
+        const tests = [
+            ...filter.conditions.map(condition => (): boolean => 'type' in condition
+                ? this.matchesGroup(row, record, condition)
+                : this.matchesCondition(row, record, condition)),
+            ...(filter.links ?? []).map(link => (): boolean => this.matchesLink(row, record, link))
+        ];
+
+        return filter.type === 'or' ? tests.some(test => test()) : tests.every(test => test());
+    }
+
+    /**
+     * Exists, in and any require a matching related record, not any none.
+     * All means that no related record fails the filter, not all that one does.
+     */
+    private matchesLink(row: Row, record: DataRecord, link: LinkEntity): boolean {
+        const alias = this.aliasOf(link);
+        const related = this.records(link.name).filter(candidate => this.equals(candidate[link.from], record[link.to]));
+        const passes = (candidate: DataRecord): boolean =>
+            this.matches(new Map(row).set(alias, candidate), candidate, link.filters, link.links);
+
+        switch (link.linkType) {
+            case 'not any':
+                return !related.some(passes);
+            case 'all':
+                return related.every(passes);
+            case 'not all':
+                return !related.every(passes);
+            default:
+                return related.some(passes);
+        }
+    }
+
+    private matchesCondition(row: Row, record: DataRecord, condition: FilterCondition): boolean {
+        const target = condition.entityname ? row.get(condition.entityname) : record;
+        const actual = target?.[condition.attribute];
+        const { operator } = condition;
+
+        if (condition.valueof) {
+            const [alias, attribute] = condition.valueof.includes('.') ? condition.valueof.split('.') : [undefined, condition.valueof];
+            const other = alias !== undefined ? row.get(alias)?.[attribute] : target?.[attribute];
+
+            return this.compareWith(operator, actual, other);
+        }
+
+        switch (operator) {
+            case 'eq':
+            case 'ne':
+            case 'neq':
+            case 'gt':
+            case 'ge':
+            case 'lt':
+            case 'le':
+                return this.compareWith(operator, actual, condition.value);
+            case 'null':
+                return actual === null || actual === undefined;
+            case 'not-null':
+                return actual !== null && actual !== undefined;
+        }
+
+        if (actual === null || actual === undefined) return false;
+
+        const value = condition.value;
+        const text = String(actual).toLowerCase();
+
+        switch (operator) {
+            case 'like':
+                return this.likePattern(value).test(String(actual));
+            case 'not-like':
+                return !this.likePattern(value).test(String(actual));
+            case 'begins-with':
+                return text.startsWith(String(value).toLowerCase());
+            case 'not-begin-with':
+                return !text.startsWith(String(value).toLowerCase());
+            case 'ends-with':
+                return text.endsWith(String(value).toLowerCase());
+            case 'not-end-with':
+                return !text.endsWith(String(value).toLowerCase());
+            case 'in':
+                return this.values(value).some(item => this.equals(actual, item));
+            case 'not-in':
+                return !this.values(value).some(item => this.equals(actual, item));
+            case 'between':
+                return this.compare(actual, value[0])! >= 0 && this.compare(actual, value[1])! <= 0;
+            case 'not-between':
+                return !(this.compare(actual, value[0])! >= 0 && this.compare(actual, value[1])! <= 0);
+            case 'on':
+                return this.dateOnly(actual) === this.dateOnly(value);
+            case 'on-or-before':
+                return this.dateOnly(actual) <= this.dateOnly(value);
+            case 'on-or-after':
+                return this.dateOnly(actual) >= this.dateOnly(value);
+            case 'eq-userid':
+                return this.equals(actual, this.requireOption('userId', operator));
+            case 'ne-userid':
+                return !this.equals(actual, this.requireOption('userId', operator));
+            case 'eq-businessid':
+                return this.equals(actual, this.requireOption('businessUnitId', operator));
+            case 'ne-businessid':
+                return !this.equals(actual, this.requireOption('businessUnitId', operator));
+            case 'contain-values':
+                return this.values(value).some(item => this.choices(actual).some(choice => this.equals(choice, item)));
+            case 'not-contain-values':
+                return !this.values(value).some(item => this.choices(actual).some(choice => this.equals(choice, item)));
+        }
+
+        return this.matchesDate(operator, this.time(actual), Number(value));
+    }
+
+    /**
+     * Relative date operators, evaluated like the T-SQL translation of SqlBuilder
+     */
+    private matchesDate(operator: FilterOperator, time: number, amount: number): boolean {
+        const now = (this.options.now ?? new Date()).getTime();
+        const today = this.startOf('day', 0);
+        const between = (from: number, to: number): boolean => time >= from && time <= to;
+
+        const period = DATE_PERIODS[operator];
+        if (period) {
+            const [unit, offset] = period;
+            return time >= this.startOf(unit, offset) && time < this.startOf(unit, offset + 1);
+        }
+
+        const last = LAST_X_UNITS[operator];
+        if (last) return between(this.add(today, last, -amount), now);
+
+        const next = NEXT_X_UNITS[operator];
+        if (next) return time >= now && time < this.add(this.add(today, 'day', 1), next, amount);
+
+        const olderThan = OLDER_THAN_X_UNITS[operator];
+        if (olderThan) return time < this.add(now, olderThan, -amount);
+
+        switch (operator) {
+            case 'last-seven-days':
+                return between(this.add(now, 'day', -7), now);
+            case 'next-seven-days':
+                return between(now, this.add(now, 'day', 7));
+            case 'last-x-hours':
+                return between(this.add(now, 'hour', -amount), now);
+            case 'next-x-hours':
+                return between(now, this.add(now, 'hour', amount));
+        }
+
+        throw new QueryBuildError(`Operator ${operator} is not supported by the in-memory engine`);
+    }
+
+    /**
+     * Start of the current day, week, month or year moved by offset periods,
+     * weeks start on Sunday
+     */
+    private startOf(unit: DateUnit, offset: number): number {
+        const now = this.options.now ?? new Date();
+        const year = now.getUTCFullYear();
+        const month = now.getUTCMonth();
+        const day = now.getUTCDate();
+
+        switch (unit) {
+            case 'week':
+                return Date.UTC(year, month, day - now.getUTCDay() + offset * 7);
+            case 'month':
+                return Date.UTC(year, month + offset, 1);
+            case 'year':
+                return Date.UTC(year + offset, 0, 1);
+            default:
+                return Date.UTC(year, month, day + offset);
+        }
+    }
+
+    /**
+     * Add an amount of units to a time; months and years end on the last
+     * day of a shorter month like DATEADD
+     */
+    private add(time: number, unit: DateUnit, amount: number): number {
+        const MINUTE = 60 * 1000;
+        const lengths: Partial<Record<DateUnit, number>> = { minute: MINUTE, hour: 60 * MINUTE, day: 24 * 60 * MINUTE, week: 7 * 24 * 60 * MINUTE };
+
+        if (lengths[unit]) return time + amount * lengths[unit]!;
+
+        const date = new Date(time);
+        const months = unit === 'year' ? amount * 12 : amount;
+        const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+        const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+
+        target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+        target.setUTCHours(date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds());
+
+        return target.getTime();
+    }
+
+    /**
+     * Attributes of the root entity and of link entities with their result keys
+     */
+    private collectColumns(query: FetchQuery): Column[] {
+        const attributes = query.allAttributes ? [...this.allAttributes(query.entity), ...query.attributes] : query.attributes;
+        const columns: Column[] = attributes.map(attribute => ({ key: attribute.alias ?? attribute.name, table: ROOT, attribute }));
+
+        const walk = (links?: LinkEntity[]): void => {
+            for (const link of links ?? []) {
+                if (this.isFilterLink(link)) continue;
+
+                const alias = this.aliasOf(link);
+
+                for (const attribute of link.allAttributes ? [...this.allAttributes(link.name), ...link.attributes] : link.attributes) {
+                    columns.push({ key: attribute.alias ?? `${alias}.${attribute.name}`, table: alias, attribute });
+                }
+
+                walk(link.links);
+            }
+        };
+
+        walk(query.links);
+        return columns;
+    }
+
+    /**
+     * Attributes present in the records of an entity, selected by <all-attributes/>
+     */
+    private allAttributes(entityName: string): Attribute[] {
+        const names = new Set(this.records(entityName).flatMap(record => Object.keys(record)));
+        return [...names].map(name => ({ name }));
+    }
+
+    /**
+     * Select the columns of a row, all attributes of the root record when
+     * the query selects none
+     */
+    private project(row: Row, columns: Column[]): DataRecord {
+        const result: DataRecord = {};
+
+        if (!columns.some(column => column.table === ROOT)) Object.assign(result, row.get(ROOT));
+
+        for (const column of columns) {
+            result[column.key] = row.get(column.table)?.[column.attribute.name] ?? null;
+        }
+
+        return result;
+    }
+
+    private distinct(records: DataRecord[]): DataRecord[] {
+        const seen = new Set<string>();
+
+        return records.filter(record => {
+            const key = JSON.stringify(Object.values(record).map(value => this.normalize(value)));
+            if (seen.has(key)) return false;
+
+            seen.add(key);
+            return true;
+        });
+    }
+
+    /**
+     * Group rows by the grouped columns and compute the aggregates of each group.
+     * Without grouped columns all rows form a single group.
+     */
+    private aggregate(columns: Column[], rows: Row[]): DataRecord[] {
+        const groupColumns = columns.filter(column => !('aggregate' in column.attribute));
+        const groups = new Map<string, { values: any[]; rows: Row[] }>();
+
+        for (const column of groupColumns) {
+            if (!column.attribute.groupby) {
+                throw new QueryBuildError(`Attribute ${column.attribute.name} must be grouped or aggregated in an aggregate query`);
+            }
+        }
+
+        if (groupColumns.length === 0) groups.set('', { values: [], rows });
+
+        for (const row of groupColumns.length > 0 ? rows : []) {
+            const values = groupColumns.map(column => this.groupValue(row.get(column.table)?.[column.attribute.name], column.attribute));
+            const key = JSON.stringify(values.map(value => this.normalize(value)));
+            const group = groups.get(key) ?? { values, rows: [] };
+
+            group.rows.push(row);
+            groups.set(key, group);
+        }
+
+        return [...groups.values()].map(group => {
+            const result: DataRecord = {};
+
+            groupColumns.forEach((column, index) => {
+                result[column.key] = group.values[index];
+            });
+
+            for (const column of columns) {
+                if ('aggregate' in column.attribute) result[column.key] = this.compute(column, group.rows);
+            }
+
+            return result;
+        });
+    }
+
+    private groupValue(value: any, attribute: Attribute): any {
+        if (!attribute.dategrouping || value === null || value === undefined) return value ?? null;
+
+        const date = new Date(this.time(value));
+
+        switch (attribute.dategrouping) {
+            case 'year':
+                return date.getUTCFullYear();
+            case 'quarter':
+                return Math.floor(date.getUTCMonth() / 3) + 1;
+            case 'month':
+                return date.getUTCMonth() + 1;
+            case 'day':
+                return date.getUTCDate();
+            case 'week': {
+                // Week 1 contains January 1st, weeks start on Sunday like DATEPART(week)
+                const january = new Date(Date.UTC(date.getUTCFullYear(), 0, 1));
+                const dayOfYear = Math.floor((date.getTime() - january.getTime()) / (24 * 60 * 60 * 1000));
+
+                return Math.floor((dayOfYear + january.getUTCDay()) / 7) + 1;
+            }
+            default:
+                throw new QueryBuildError(`Date grouping ${attribute.dategrouping} is not supported by the in-memory engine`);
+        }
+    }
+
+    private compute(column: Column, rows: Row[]): any {
+        const attribute = column.attribute as AggregateAttribute;
+        const values = rows
+            .map(row => row.get(column.table)?.[attribute.name])
+            .filter(value => value !== null && value !== undefined);
+
+        switch (attribute.aggregate) {
+            case 'count':
+                return rows.length;
+            case 'countcolumn':
+                return values.length;
+            case 'sum':
+                return values.length > 0 ? values.reduce((sum, value) => sum + Number(value), 0) : null;
+            case 'avg':
+                return values.length > 0 ? values.reduce((sum, value) => sum + Number(value), 0) / values.length : null;
+            case 'min':
+                return values.reduce((min, value) => (min === null || this.compare(value, min)! < 0 ? value : min), null);
+            case 'max':
+                return values.reduce((max, value) => (max === null || this.compare(value, max)! > 0 ? value : max), null);
+        }
+    }
+
+    /**
+     * Orders of the root entity followed by the orders of link entities
+     */
+    private collectOrders(query: FetchQuery): [string, OrderBy][] {
+        const orders: [string, OrderBy][] = (query.orders ?? []).map(order => [order.entityname ?? ROOT, order]);
+
+        const walk = (links?: LinkEntity[]): void => {
+            for (const link of links ?? []) {
+                if (this.isFilterLink(link)) continue;
+
+                for (const order of link.orders ?? []) orders.push([this.aliasOf(link), order]);
+                walk(link.links);
+            }
+        };
+
+        walk(query.links);
+        return orders;
+    }
+
+    /**
+     * Sort rows by attribute, orders on an alias sort by the aliased attribute
+     */
+    private sortRows(rows: Row[], orders: [string, OrderBy][], columns: Column[]): Row[] {
+        const targets = orders.map(([table, order]): [string, string, OrderBy] => {
+            const column = order.alias ? columns.find(candidate => candidate.attribute.alias === order.alias) : undefined;
+            return column ? [column.table, column.attribute.name, order] : [table, order.attribute ?? order.alias!, order];
+        });
+
+        return [...rows].sort((a, b) => {
+            for (const [table, key, order] of targets) {
+                const result = this.compareForSort(a.get(table)?.[key], b.get(table)?.[key]);
+
+                if (result !== 0) return order.order === 'desc' ? -result : result;
+            }
+
+            return 0;
+        });
+    }
+
+    /**
+     * Sort aggregate results by alias or grouped attribute
+     */
+    private sortResults(records: DataRecord[], orders: OrderBy[]): DataRecord[] {
+        return [...records].sort((a, b) => {
+            for (const order of orders) {
+                const key = order.alias ?? order.attribute!;
+                const result = this.compareForSort(a[key], b[key]);
+
+                if (result !== 0) return order.order === 'desc' ? -result : result;
+            }
+
+            return 0;
+        });
+    }
+
+    /**
+     * Nulls sort first in ascending order
+     */
+    private compareForSort(left: any, right: any): number {
+        const leftNull = left === null || left === undefined;
+        const rightNull = right === null || right === undefined;
+
+        if (leftNull || rightNull) return leftNull === rightNull ? 0 : leftNull ? -1 : 1;
+        return this.compare(left, right) ?? 0;
+    }
+
+    private compareWith(operator: FilterOperator, left: any, right: any): boolean {
+        const result = this.compare(left, right);
+        if (result === undefined) return false;
+
+        switch (operator) {
+            case 'eq':
+                return result === 0;
+            case 'ne':
+            case 'neq':
+                return result !== 0;
+            case 'gt':
+                return result > 0;
+            case 'ge':
+                return result >= 0;
+            case 'lt':
+                return result < 0;
+            case 'le':
+                return result <= 0;
+            default:
+                throw new QueryBuildError(`Operator ${operator} cannot compare columns`);
+        }
+    }
+
+    private equals(left: any, right: any): boolean {
+        return this.compare(left, right) === 0;
+    }
+
+    /**
+     * Compare two values, undefined when either is null. Dates compare by
+     * time, lookups by id and strings case-insensitively like Dataverse.
+     */
+    private compare(left: any, right: any): number | undefined {
+        if (left === null || left === undefined || right === null || right === undefined) return undefined;
+
+        let a = this.normalize(left);
+        let b = this.normalize(right);
+
+        if (left instanceof Date || right instanceof Date) {
+            a = this.time(left);
+            b = this.time(right);
+        } else if (typeof a === 'number' || typeof b === 'number') {
+            a = Number(a);
+            b = Number(b);
+        }
+
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    /**
+     * Comparable form of a value: lookups and GUIDs as lower case ids without
+     * braces, booleans as 1 and 0, strings in lower case
+     */
+    private normalize(value: any): any {
+        if (value === null || value === undefined) return null;
+        if (value instanceof Date) return value.getTime();
+        if (typeof value === 'boolean') return value ? 1 : 0;
+        if (typeof value === 'object' && typeof value.id === 'string') return this.normalize(value.id);
+        if (typeof value === 'string') return (isGuid(value) ? value.trim().replace(/^\{(.*)\}$/, '$1') : value).toLowerCase();
+
+        return value;
+    }
+
+    private time(value: any): number {
+        const time = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(String(value));
+
+        if (isNaN(time)) throw new QueryBuildError(`Invalid date ${value}`);
+        return time;
+    }
+
+    /**
+     * Calendar date of a value, yyyy-mm-dd strings are taken as they are
+     */
+    private dateOnly(value: any): string {
+        if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+        return ValueSerializer.calendarDate(new Date(this.time(value)));
+    }
+
+    /**
+     * Translate a like pattern with %, _ and [] wildcards to a case-insensitive regular expression
+     */
+    private likePattern(pattern: any): RegExp {
+        let source = '';
+
+        for (const part of String(pattern).match(/\[[^\]]*\]|./gs) ?? []) {
+            if (part === '%') source += '.*';
+            else if (part === '_') source += '.';
+            else if (part.length > 1) source += part.startsWith('[^') ? part : part.replace(/[\\]/g, '\\\\');
+            else source += part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        }
+
+        return new RegExp(`^${source}$`, 'is');
+    }
+
+    private values(value: any): any[] {
+        return Array.isArray(value) ? value : [value];
+    }
+
+    /**
+     * Values of a multi-select choice, stored as array or comma-separated string
+     */
+    private choices(value: any): any[] {
+        return Array.isArray(value) ? value : String(value).split(',').map(choice => choice.trim());
+    }
+
+    private requireOption(option: 'userId' | 'businessUnitId', operator: FilterOperator): string {
+        const value = this.options[option];
+
+        if (value === undefined) throw new QueryBuildError(`Operator ${operator} requires the ${option} option of the in-memory engine`);
+        return value;
+    }
+
+    private isFilterLink(link: LinkEntity): boolean {
+        return !!link.linkType && InMemoryEngine.FILTER_LINK_TYPES.includes(link.linkType);
+    }
+
+    /**
+     * Alias of a link entity, links without alias are named <entity><n>
+     */
+    private aliasOf(link: LinkEntity): string {
+        let alias = this.linkAliases.get(link);
+
+        if (!alias) {
+            alias = link.alias ?? `${link.name}${this.linkAliases.size + 1}`;
+            this.linkAliases.set(link, alias);
+        }
+
+        return alias;
+    }
+}
@@ -1,15 +1,44 @@
 import {
     FetchQuery,
     FilterCondition,
+    FilterGroup,
     FilterOperator,
+    FilterType,
+    ColumnOperator,
+    ColumnReference,
     OrderType,
+    OrderBy,
     AggregateType,
-    LinkEntity
+    GroupByOptions,
+    LinkEntity,
+    LinkType,
+    AliasedColumn,
+    OperatorFor,
+    ConditionArgs,
+    Relationship,
+    RelationshipDefinition,
+    RelatedEntity,
+    RelationshipsOf,
+    EntityClass,
+    EntityDefinition,
+    BuildOptions,
+    ODataQueryOptions,
+    SqlQuery
 } from '../types';
 import { FetchXMLBuilder } from '../builders/xml-builder';
+import { ODataBuilder } from '../builders/odata-builder';
+import { SqlBuilder } from '../builders/sql-builder';
 import { JoinBuilder } from '../builders/join-builder';
+import { FilterBuilder } from '../builders/filter-builder';
 import { Validator } from '../validators';
+import { DataverseClient } from '../client/dataverse-client';
+import { ValidationError, QueryResultError } from '../errors';
 import { Logger } from '../logger';
+import { PageIterator, PageExecutor } from '../paging/page-iterator';
+import { ResultMapper } from '../mappers/result-mapper';
+import { deepClone, entityLinks } from '../utils';
+import { createRelationshipLinks } from '../relationships/relationship';
+import { EntitySchema } from '../metadata/entity-schema';
 
 /**
  * Base Entity - Abstract base class for all entity types
@@ -17,10 +46,42 @@ import { Logger } from '../logger';
 export abstract class BaseEntity<T = any> {
     protected logger = Logger.getInstance();
     protected query: FetchQuery;
+    private immutableMode = false;
+    private client?: DataverseClient;
 
-    abstract entityName: string;
+    private schema?: EntityDefinition;
+
+    /** Logical name of the entity, a subclass setting it must name the entity given to the constructor */
+    entityName: string;
+
+    /** Web API entity set name, derived from the entity name when not set */
+    entitySetName?: string;
+
+    /** Relationships that can be joined by name with joinRelation() */
+    relationships?: Record<string, RelationshipDefinition>;
+
+    /**
+     * The entity is either given by name, by a model class decorated with
+     * @Entity, or taken from the @Entity decorator of the subclass
+     */
+    constructor(entity?: string | EntityClass<T>) {
+        const schema = typeof entity === 'function' ? EntitySchema.of(entity) : EntitySchema.of(new.target);
+
+        if (typeof entity === 'function' && !schema) {
+            throw new ValidationError(`Class ${entity.name} is not decorated with @Entity`, 'entityName');
+        }
+
+        if (typeof entity === 'string' && schema && schema.logicalName !== entity) {
+            throw new ValidationError(`Entity name ${entity} does not match @Entity name ${schema.logicalName}`, 'entityName');
+        }
+
+        const entityName = schema?.logicalName ?? (entity as string | undefined) ?? '';
+        Validator.validateEntityName(entityName);
+
+        this.schema = schema;
+        this.entityName = entityName;
+        if (schema?.entitySet) this.entitySetName = schema.entitySet;
 
-    constructor(entityName: string) {
         this.query = {
             entity: entityName,
             attributes: []
@@ -29,6 +90,58 @@ export abstract class BaseEntity<T = any> {
         this.logger.debug('Created BaseEntity', { entityName });
     }
 
+    /**
+     * Create an independent copy of this builder, keeping its immutable mode
+     */
+    public clone(): this {
+        this.logger.debug('Cloning query', { entityName: this.query.entity });
+
+        const copy: this = Object.create(Object.getPrototypeOf(this));
+        Object.assign(copy, this);
+        copy.query = deepClone(this.query);
+
+        return copy;
+    }
+
+    /**
+     * Create an independent, mutable copy of this builder
+     */
+    public fork(): this {
+        const copy = this.clone();
+        copy.immutableMode = false;
+
+        return copy;
+    }
+
+    /**
+     * Enable or disable immutable mode. In immutable mode every chain step
+     * returns a new builder and leaves this one untouched.
+     */
+    public immutable(enabled: boolean = true): this {
+        this.logger.debug('Setting immutable mode', { enabled });
+
+        this.immutableMode = enabled;
+        return this;
+    }
+
+    /**
+     * Builder and links a join builder applies its next change to: in immutable
+     * mode a copy with the corresponding links of its query, otherwise as given
+     */
+    public writableLinks(links: LinkEntity[]): [this, LinkEntity[]] {
+        if (!this.immutableMode) return [this, links];
+
+        const paths = links.map(link => {
+            const path = BaseEntity.linkPath(this.query, link);
+            if (!path) throw new ValidationError(`Link entity ${link.name} is not part of the query`, 'link');
+
+            return path;
+        });
+
+        const entity = this.clone();
+        return [entity, paths.map(path => BaseEntity.linkAt(entity.query, path))];
+    }
+
     /**
      * Select specific attributes
      */
@@ -43,10 +156,12 @@ export abstract class BaseEntity<T = any> {
                 return { name: attributeName };
             });
 
+            const entity = this.writable();
+
             // Append new attributes instead of overwriting
-            this.query.attributes.push(...newAttributes);
+            entity.query.attributes.push(...newAttributes);
 
-            return this;
+            return entity;
         } catch (error) {
             this.logger.error('Failed to add select attributes', { error: (error as Error).message });
             throw error;
@@ -65,12 +180,14 @@ export abstract class BaseEntity<T = any> {
 
             this.logger.debug('Adding select with alias', { attribute: attributeName, alias });
 
-            this.query.attributes.push({
+            const entity = this.writable();
+
+            entity.query.attributes.push({
                 name: attributeName,
                 alias: alias
             });
 
-            return this;
+            return entity;
         } catch (error) {
             this.logger.error('Failed to add select with alias', { error: (error as Error).message });
             throw error;
@@ -113,66 +230,174 @@ export abstract class BaseEntity<T = any> {
     }
 
     /**
-     * Add where condition
+     * Add where condition. The attribute may target a link entity, either as
+     * "alias.attribute" or by passing the join builder of that link entity.
      */
-    public where(attribute: keyof T, operator: FilterOperator, value?: any): this {
+    public where<K extends keyof T, O extends OperatorFor<T[K]>>(attribute: K, operator: O, ...value: ConditionArgs<T[K], O>): this;
+    public where(attribute: AliasedColumn, operator: FilterOperator, value?: any): this;
+    public where<U, K extends keyof U, O extends OperatorFor<U[K]>>(link: JoinBuilder<U, any>, attribute: K, operator: O, ...value: ConditionArgs<U[K], O>): this;
+    public where(target: ColumnReference<T> | JoinBuilder<any, any>, ...args: any[]): this {
+        try {
+            const condition = FilterBuilder.createCondition(target, args);
+
+            this.logger.debug('Adding where condition', condition);
+
+            const entity = this.writable();
+
+            if (!entity.query.filters) {
+                entity.query.filters = { type: 'and', conditions: [] };
+            }
+
+            entity.query.filters.conditions.push(condition);
+            return entity;
+        } catch (error) {
+            this.logger.error('Failed to add where condition', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Add condition comparing two columns
+     */
+    public whereColumn(attribute: keyof T, operator: ColumnOperator, otherAttribute: ColumnReference<T>): this {
         try {
             const attributeName = attribute as string;
+            const reference = otherAttribute as string;
+
             Validator.validateAttributeName(attributeName);
+            Validator.validateColumnReference(reference);
 
-            const validOperator = Validator.validateFilterOperator(operator);
+            const validOperator = Validator.validateColumnOperator(operator);
 
-            this.logger.debug('Adding where condition', {
+            this.logger.debug('Adding column comparison', {
                 attribute: attributeName,
                 operator: validOperator,
-                value
+                valueof: reference
             });
 
             const condition: FilterCondition = {
                 attribute: attributeName,
                 operator: validOperator,
-                value
+                valueof: reference
             };
 
-            if (!this.query.filters) {
-                this.query.filters = { type: 'and', conditions: [] };
-            }
+            const entity = this.writable();
+
+            if (!entity.query.filters) entity.query.filters = { type: 'and', conditions: [] };
 
-            this.query.filters.conditions.push(condition);
-            return this;
+            entity.query.filters.conditions.push(condition);
+            return entity;
         } catch (error) {
-            this.logger.error('Failed to add where condition', { error: (error as Error).message });
+            this.logger.error('Failed to add column comparison', { error: (error as Error).message });
             throw error;
         }
     }
 
     /**
-     * Add order by clause
+     * Add nested filter group
      */
-    public orderBy(attribute: keyof T, order: OrderType = 'asc'): this {
+    public whereGroup(type: FilterType, build: (group: FilterBuilder<T>) => void): this {
         try {
-            const attributeName = attribute as string;
+            this.logger.debug('Adding filter group', { type });
+
+            const group = FilterBuilder.createGroup<T>(type, build);
+            if (!group) return this;
+
+            const entity = this.writable();
+
+            if (!entity.query.filters) entity.query.filters = { type: 'and', conditions: [] };
+
+            entity.query.filters.conditions.push(group);
+            return entity;
+        } catch (error) {
+            this.logger.error('Failed to add filter group', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Add order by clause. The attribute may target a link entity, either as
+     * "alias.attribute" or by passing the join builder of that link entity.
+     */
+    public orderBy(attribute: ColumnReference<T>, order?: OrderType): this;
+    public orderBy<U>(link: JoinBuilder<U, any>, attribute: keyof U, order?: OrderType): this;
+    public orderBy(target: ColumnReference<T> | JoinBuilder<any, any>, ...args: any[]): this {
+        try {
+            let entityName: string | undefined;
+            let attributeName: string;
+            let order: OrderType;
+
+            if (typeof target === 'object') {
+                entityName = target.alias;
+                [attributeName, order = 'asc'] = args;
+
+                if (!entityName) {
+                    throw new ValidationError('A join used in an order must have an alias', 'entityname');
+                }
+            } else {
+                attributeName = target as string;
+                [order = 'asc'] = args;
+
+                if (attributeName.includes('.')) {
+                    Validator.validateColumnReference(attributeName);
+                    [entityName, attributeName] = attributeName.split('.');
+                }
+            }
+
             Validator.validateAttributeName(attributeName);
             const validOrder = Validator.validateOrderType(order);
 
-            this.logger.debug('Adding order by', { attribute: attributeName, order: validOrder });
+            this.logger.debug('Adding order by', { attribute: attributeName, entityname: entityName, order: validOrder });
+
+            const entity = this.writable();
 
-            if (!this.query.orders) {
-                this.query.orders = [];
+            if (!entity.query.orders) {
+                entity.query.orders = [];
             }
 
-            this.query.orders.push({
+            const orderBy: OrderBy = {
                 attribute: attributeName,
                 order: validOrder
-            });
+            };
+
+            if (entityName) orderBy.entityname = entityName;
 
-            return this;
+            entity.query.orders.push(orderBy);
+            return entity;
         } catch (error) {
             this.logger.error('Failed to add order by', { error: (error as Error).message });
             throw error;
         }
     }
 
+    /**
+     * Add order by clause on an attribute alias, e.g. of an aggregate
+     */
+    public orderByAlias(alias: string, order: OrderType = 'asc'): this {
+        try {
+            Validator.validateAttributeName(alias);
+            const validOrder = Validator.validateOrderType(order);
+
+            this.logger.debug('Adding order by alias', { alias, order: validOrder });
+
+            const entity = this.writable();
+
+            if (!entity.query.orders) {
+                entity.query.orders = [];
+            }
+
+            entity.query.orders.push({
+                alias,
+                order: validOrder
+            });
+
+            return entity;
+        } catch (error) {
+            this.logger.error('Failed to add order by alias', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
     /**
      * Limit number of results
      */
@@ -182,8 +407,10 @@ export abstract class BaseEntity<T = any> {
 
             this.logger.debug('Adding top limit', { count });
 
-            this.query.top = count;
-            return this;
+            const entity = this.writable();
+
+            entity.query.top = count;
+            return entity;
         } catch (error) {
             this.logger.error('Failed to add top limit', { error: (error as Error).message });
             throw error;
@@ -191,44 +418,104 @@ export abstract class BaseEntity<T = any> {
     }
 
     /**
-     * Add pagination
+     * Add pagination. Pass the paging cookie of the previous page to page
+     * efficiently through large result sets.
      */
-    public page(pageNumber: number, pageSize: number = 50): this {
+    public page(pageNumber: number, pageSize: number = 50, pagingCookie?: string): this {
         try {
             Validator.validatePagination(pageNumber, pageSize);
 
-            this.logger.debug('Adding pagination', { pageNumber, pageSize });
+            this.logger.debug('Adding pagination', { pageNumber, pageSize, pagingCookie });
+
+            const entity = this.writable();
 
-            this.query.page = pageNumber;
-            this.query.count = pageSize;
-            return this;
+            entity.query.page = pageNumber;
+            entity.query.count = pageSize;
+
+            if (pagingCookie) {
+                entity.query.pagingCookie = pagingCookie;
+            } else {
+                delete entity.query.pagingCookie;
+            }
+
+            return entity;
         } catch (error) {
             this.logger.error('Failed to add pagination', { error: (error as Error).message });
             throw error;
         }
     }
 
+    /**
+     * Request the total record count with the results
+     */
+    public returnTotalRecordCount(enabled: boolean = true): this {
+        this.logger.debug('Setting total record count', { enabled });
+
+        const entity = this.writable();
+        entity.query.returnTotalRecordCount = enabled;
+
+        return entity;
+    }
+
+    /**
+     * Iterate over the mapped records of all pages. The executor sends the
+     * FetchXML of one page and returns the Web API response; without one the
+     * client set with withClient() is used.
+     */
+    public paginate<R = T>(executePage?: PageExecutor<any>): PageIterator<R> {
+        const query = deepClone(this.query);
+        const mapper = new ResultMapper(query);
+        const execute = executePage ?? this.requireClient().pageExecutor(this.resolveEntitySetName());
+
+        return new PageIterator<R>(query, async (fetchXml, pageNumber) => {
+            const page = await execute(fetchXml, pageNumber);
+            return { ...page, value: mapper.map<R>(page.value) };
+        });
+    }
+
     /**
      * Add distinct clause
      */
     public distinct(): this {
         this.logger.debug('Adding distinct');
-        this.query.distinct = true;
 
-        return this;
+        const entity = this.writable();
+        entity.query.distinct = true;
+
+        return entity;
     }
 
     /**
      * Add group by clause
      */
-    public groupBy(attribute: keyof T): this {
+    public groupBy(attribute: keyof T, options: GroupByOptions = {}): this {
         try {
             const attributeName = attribute as string;
             Validator.validateAttributeName(attributeName);
+            Validator.validateGroupByOptions(options);
 
-            this.logger.debug('Adding group by', { attribute: attributeName });
+            this.logger.debug('Adding group by', { attribute: attributeName, ...options });
 
-            return this;
+            const entity = this.writable();
+            const existing = entity.query.attributes.find(attr =>
+                attr.name === attributeName && !('aggregate' in attr) && !attr.groupby
+            );
+
+            if (existing && !options.dateGrouping) {
+                existing.groupby = true;
+                if (options.alias) existing.alias = options.alias;
+            } else {
+                entity.query.attributes.push({
+                    name: attributeName,
+                    alias: options.alias,
+                    groupby: true,
+                    dategrouping: options.dateGrouping,
+                    usertimezone: options.userTimeZone
+                });
+            }
+
+            entity.query.aggregate = true;
+            return entity;
         } catch (error) {
             this.logger.error('Failed to add group by', { error: (error as Error).message });
             throw error;
@@ -236,19 +523,22 @@ export abstract class BaseEntity<T = any> {
     }
 
     /**
-     * Join with related entity
+     * Join with related entity. fromAttribute is an attribute of this entity,
+     * toAttribute an attribute of the joined entity; FetchXML names them the
+     * other way round, so they become to and from of the link entity.
      */
     public join<U>(
         entityName: string,
         fromAttribute: keyof T,
         toAttribute: string,
         alias?: string,
-        linkType?: 'inner' | 'outer'
-    ): JoinBuilder<U> {
+        linkType?: LinkType
+    ): JoinBuilder<U, this> {
         try {
             Validator.validateEntityName(entityName);
             Validator.validateAttributeName(fromAttribute as string);
             Validator.validateAttributeName(toAttribute);
+            if (linkType) Validator.validateLinkType(linkType);
 
             this.logger.debug('Adding join', {
                 entityName,
@@ -260,34 +550,284 @@ export abstract class BaseEntity<T = any> {
 
             const link: LinkEntity = {
                 name: entityName,
-                from: fromAttribute as string,
-                to: toAttribute,
+                from: toAttribute,
+                to: fromAttribute as string,
                 alias,
                 linkType,
                 attributes: []
             };
 
-            if (!this.query.links) {
-                this.query.links = [];
+            const entity = this.writable();
+
+            if (!entity.query.links) {
+                entity.query.links = [];
             }
 
-            this.query.links.push(link);
-            return new JoinBuilder<U>(link, this);
+            entity.query.links.push(link);
+            return new JoinBuilder<U, this>(link, entity);
         } catch (error) {
             this.logger.error('Failed to add join', { error: (error as Error).message });
             throw error;
         }
     }
 
+    /**
+     * Join a relationship declared in relationships, or given as definition.
+     * Declared relationships use their name as default alias.
+     */
+    public joinRelation<N extends keyof RelationshipsOf<this> & string>(
+        name: N,
+        alias?: string,
+        linkType?: LinkType
+    ): JoinBuilder<RelatedEntity<RelationshipsOf<this>[N]>, this>;
+    public joinRelation<U>(relationship: Relationship<U>, alias?: string, linkType?: LinkType): JoinBuilder<U, this>;
+    public joinRelation(relationship: string | RelationshipDefinition, alias?: string, linkType?: LinkType): JoinBuilder<any, this> {
+        try {
+            let definition: RelationshipDefinition;
+
+            if (typeof relationship === 'string') {
+                const relationships = this.relationships ?? {};
+                const declared = Object.prototype.hasOwnProperty.call(relationships, relationship) ? relationships[relationship] : undefined;
+
+                if (!declared) {
+                    throw new ValidationError(`Unknown relationship ${relationship} on entity ${this.query.entity}`, 'relationship');
+                }
+
+                definition = declared;
+                alias = alias ?? relationship;
+            } else {
+                definition = relationship;
+            }
+
+            this.logger.debug('Adding relationship join', { relationship: typeof relationship === 'string' ? relationship : definition.entity, alias, linkType });
+
+            const { link, related } = createRelationshipLinks(definition, alias, linkType);
+            const entity = this.writable();
+
+            if (!entity.query.links) {
+                entity.query.links = [];
+            }
+
+            entity.query.links.push(link);
+            return new JoinBuilder<any, this>(related, entity);
+        } catch (error) {
+            this.logger.error('Failed to add relationship join', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Keep only records that have at least one matching related record
+     */
+    public whereExists<U>(
+        entityName: string,
+        fromAttribute: keyof T,
+        toAttribute: string,
+        alias?: string
+    ): JoinBuilder<U, this> {
+        return this.join<U>(entityName, fromAttribute, toAttribute, alias, 'exists');
+    }
+
+    /**
+     * Keep only records that have no matching related record
+     */
+    public whereNotExists<U>(
+        entityName: string,
+        fromAttribute: keyof T,
+        toAttribute: string,
+        alias?: string
+    ): JoinBuilder<U, this> {
+        return this.join<U>(entityName, fromAttribute, toAttribute, alias, 'not any');
+    }
+
+    /**
+     * Remove selected attributes. Aggregates are kept.
+     */
+    public unselect(...attributes: (keyof T)[]): this {
+        const names = attributes.map(attr => attr as string);
+
+        this.logger.debug('Removing select attributes', { attributes: names });
+
+        const entity = this.writable();
+
+        entity.query.attributes = entity.query.attributes.filter(attr =>
+            !names.includes(attr.name) || 'aggregate' in attr
+        );
+
+        return entity;
+    }
+
+    /**
+     * Remove all conditions on an attribute, including those in nested groups.
+     * Linked attributes are referenced as "alias.attribute".
+     */
+    public removeWhere(attribute: ColumnReference<T>): this {
+        try {
+            const reference = attribute as string;
+            let entityName: string | undefined;
+            let attributeName = reference;
+
+            if (reference.includes('.')) {
+                Validator.validateColumnReference(reference);
+                [entityName, attributeName] = reference.split('.');
+            }
+
+            this.logger.debug('Removing where conditions', { attribute: attributeName, entityname: entityName });
+
+            const entity = this.writable();
+
+            entity.query.filters = BaseEntity.pruneFilter(entity.query.filters, condition =>
+                condition.attribute === attributeName && condition.entityname === entityName
+            );
+
+            return entity;
+        } catch (error) {
+            this.logger.error('Failed to remove where conditions', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Remove all orders
+     */
+    public clearOrders(): this {
+        this.logger.debug('Clearing orders');
+
+        const entity = this.writable();
+        delete entity.query.orders;
+
+        return entity;
+    }
+
+    /**
+     * Remove a join by alias, together with its nested joins and the
+     * conditions and orders that reference them
+     */
+    public removeJoin(alias: string): this {
+        try {
+            const link = BaseEntity.findLink(entityLinks(this.query), alias);
+
+            if (!link) {
+                throw new ValidationError(`Unknown join alias: ${alias}`, 'alias');
+            }
+
+            const aliases = BaseEntity.collectAliases(link);
+
+            this.logger.debug('Removing join', { alias, aliases });
+
+            const entity = this.writable();
+            const references = (condition: FilterCondition): boolean =>
+                aliases.includes(condition.entityname ?? '') ||
+                aliases.includes(condition.valueof?.includes('.') ? condition.valueof.split('.')[0] : '');
+
+            entity.query.links = BaseEntity.removeLink(entity.query.links, alias);
+            entity.query.filters = BaseEntity.pruneFilter(BaseEntity.removeFilterLink(entity.query.filters, alias), references);
+
+            if (entity.query.orders) {
+                entity.query.orders = entity.query.orders.filter(order => !aliases.includes(order.entityname ?? ''));
+                if (entity.query.orders.length === 0) delete entity.query.orders;
+            }
+
+            return entity;
+        } catch (error) {
+            this.logger.error('Failed to remove join', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Replace the query of this builder with a copy of the given query,
+     * e.g. a parsed FetchXML query
+     */
+    public fromQuery(query: FetchQuery): this {
+        try {
+            this.checkEntityName();
+            Validator.validateEntityName(query.entity);
+
+            if (query.entity !== this.entityName) {
+                throw new ValidationError(`Query targets entity ${query.entity} but builder targets ${this.entityName}`, 'entityName');
+            }
+
+            this.logger.debug('Loading query into builder', { entityName: query.entity });
+
+            const entity = this.writable();
+
+            entity.query = deepClone(query);
+            return entity;
+        } catch (error) {
+            this.logger.error('Failed to load query', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Set the Dataverse client used to execute this query
+     */
+    public withClient(client: DataverseClient): this {
+        const entity = this.writable();
+        entity.client = client;
+
+        return entity;
+    }
+
+    /**
+     * Execute the query and return the mapped records
+     */
+    public async execute<R = T>(): Promise<R[]> {
+        try {
+            const client = this.requireClient();
+            const response = await client.executeFetchXml(this.resolveEntitySetName(), this.build());
+
+            return new ResultMapper(this.query).map<R>(response.value);
+        } catch (error) {
+            this.logger.error('Failed to execute query', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Execute the query and return the first record, if any
+     */
+    public async first<R = T>(): Promise<R | undefined> {
+        const [record] = await this.limitedTo(1).execute<R>();
+        return record;
+    }
+
+    /**
+     * Execute the query and return its only record. Fails when the query
+     * returns no record or more than one.
+     */
+    public async single<R = T>(): Promise<R> {
+        const records = await this.limitedTo(2).execute<R>();
+
+        if (records.length !== 1) {
+            const found = records.length === 0 ? 'none' : 'more than one';
+
+            this.logger.error('Unexpected number of records', { entityName: this.query.entity, found });
+            throw new QueryResultError(`Expected exactly one ${this.query.entity} record but found ${found}`, records.length);
+        }
+
+        return records[0];
+    }
+
+    /**
+     * Copy of the query, e.g. to map results with ResultMapper or EntityCollectionParser
+     */
+    public toQuery(): FetchQuery {
+        this.checkEntityName();
+        return deepClone(this.query);
+    }
+
     /**
      * Build FetchXML string
      */
-    public build(): string {
+    public build(options: BuildOptions = {}): string {
         try {
             this.logger.debug('Building FetchXML query');
+            this.checkEntityName();
 
             const builder = new FetchXMLBuilder(this.query);
-            const xml = builder.build();
+            const xml = builder.build(options);
 
             this.logger.info('FetchXML query built successfully');
             return xml;
@@ -297,25 +837,221 @@ export abstract class BaseEntity<T = any> {
         }
     }
 
+    /**
+     * Build Web API query options, see ODataBuilder for the constructs OData can express
+     */
+    public buildOData(): ODataQueryOptions {
+        try {
+            this.logger.debug('Building OData query');
+            this.checkEntityName();
+
+            const options = new ODataBuilder(this.query).build();
+
+            this.logger.info('OData query built successfully');
+            return options;
+        } catch (error) {
+            this.logger.error('Failed to build OData query', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Build T-SQL with parameters for the TDS endpoint, see SqlBuilder
+     */
+    public buildSql(): SqlQuery {
+        try {
+            this.logger.debug('Building SQL query');
+            this.checkEntityName();
+
+            const query = new SqlBuilder(this.query).build();
+
+            this.logger.info('SQL query built successfully');
+            return query;
+        } catch (error) {
+            this.logger.error('Failed to build SQL query', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * The entityName field of a subclass is assigned after the constructor
+     * has created the query, so a mismatch can only be detected afterwards
+     */
+    private checkEntityName(): void {
+        if (this.entityName !== this.query.entity) {
+            this.logger.error('Entity name mismatch', { entityName: this.entityName, entity: this.query.entity });
+            throw new ValidationError(`Entity name ${this.entityName} does not match entity ${this.query.entity} of the query`, 'entityName');
+        }
+    }
+
+    private requireClient(): DataverseClient {
+        if (!this.client) {
+            throw new ValidationError('No Dataverse client set, call withClient() first', 'client');
+        }
+
+        return this.client;
+    }
+
+    private resolveEntitySetName(): string {
+        return this.entitySetName ?? DataverseClient.entitySetNameFor(this.query.entity);
+    }
+
+    /**
+     * Copy of this builder returning at most the given number of records
+     */
+    private limitedTo(count: number): this {
+        const entity = this.fork();
+
+        entity.query.top = count;
+        delete entity.query.page;
+        delete entity.query.count;
+        delete entity.query.pagingCookie;
+
+        return entity;
+    }
+
+    /**
+     * Builder to apply the next change to: a copy in immutable mode, otherwise this builder
+     */
+    private writable(): this {
+        return this.immutableMode ? this.clone() : this;
+    }
+
+    /**
+     * Remove matching conditions from a filter and drop groups left empty.
+     * Links placed in the filter groups are kept.
+     */
+    private static pruneFilter(
+        filter: FilterGroup | undefined,
+        matches: (condition: FilterCondition) => boolean
+    ): FilterGroup | undefined {
+        if (!filter) return undefined;
+
+        const conditions: (FilterCondition | FilterGroup)[] = [];
+
+        for (const condition of filter.conditions) {
+            if ('conditions' in condition) {
+                const nested = BaseEntity.pruneFilter(condition, matches);
+                if (nested) conditions.push(nested);
+            } else if (!matches(condition)) {
+                conditions.push(condition);
+            }
+        }
+
+        if (conditions.length === 0 && !filter.links) return undefined;
+
+        const pruned: FilterGroup = { type: filter.type, conditions };
+        if (filter.links) pruned.links = filter.links;
+
+        return pruned;
+    }
+
+    private static findLink(links: LinkEntity[], alias: string): LinkEntity | undefined {
+        for (const link of links) {
+            if (link.alias === alias) return link;
+
+            const nested = BaseEntity.findLink(entityLinks(link), alias);
+            if (nested) return nested;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Position of a link in the query, as indexes into entityLinks() of each level
+     */
+    private static linkPath(target: FetchQuery | LinkEntity, link: LinkEntity): number[] | undefined {
+        const links = entityLinks(target);
+
+        for (let index = 0; index < links.length; index++) {
+            if (links[index] === link) return [index];
+
+            const nested = BaseEntity.linkPath(links[index], link);
+            if (nested) return [index, ...nested];
+        }
+
+        return undefined;
+    }
+
+    private static linkAt(target: FetchQuery | LinkEntity, path: number[]): LinkEntity {
+        return path.reduce((current, index) => entityLinks(current)[index], target) as LinkEntity;
+    }
+
+    private static removeLink(links: LinkEntity[] | undefined, alias: string): LinkEntity[] | undefined {
+        if (!links) return undefined;
+
+        const remaining = links.filter(link => link.alias !== alias);
+
+        for (const link of remaining) {
+            link.filters = BaseEntity.removeFilterLink(link.filters, alias);
+            if (!link.filters) delete link.filters;
+
+            if (!link.links) continue;
+
+            link.links = BaseEntity.removeLink(link.links, alias);
+            if (!link.links) delete link.links;
+        }
+
+        return remaining.length > 0 ? remaining : undefined;
+    }
+
+    /**
+     * Remove a link placed in a filter group and drop groups left empty
+     */
+    private static removeFilterLink(filter: FilterGroup | undefined, alias: string): FilterGroup | undefined {
+        if (!filter) return undefined;
+
+        const conditions: (FilterCondition | FilterGroup)[] = [];
+
+        for (const condition of filter.conditions) {
+            if ('conditions' in condition) {
+                const nested = BaseEntity.removeFilterLink(condition, alias);
+                if (nested) conditions.push(nested);
+            } else {
+                conditions.push(condition);
+            }
+        }
+
+        const links = BaseEntity.removeLink(filter.links, alias);
+        if (conditions.length === 0 && !links) return undefined;
+
+        const group: FilterGroup = { type: filter.type, conditions };
+        if (links) group.links = links;
+
+        return group;
+    }
+
+    private static collectAliases(link: LinkEntity): string[] {
+        const aliases = link.alias ? [link.alias] : [];
+
+        for (const nested of entityLinks(link)) {
+            aliases.push(...BaseEntity.collectAliases(nested));
+        }
+
+        return aliases;
+    }
+
     /**
      * Add aggregate function
      */
     private addAggregate(aggregate: AggregateType, attribute?: keyof T, alias?: string): this {
         try {
             const validAggregate = Validator.validateAggregateType(aggregate);
-            const attributeName = attribute ? attribute as string : this.entityName + 'id';
+            const attributeName = attribute ? attribute as string : this.schema?.primaryId ?? this.query.entity + 'id';
 
             if (attribute)  Validator.validateAttributeName(attributeName);
 
             this.logger.debug('Adding aggregate', { aggregate: validAggregate, attribute: attributeName, alias });
 
-            this.query.attributes.push({
+            const entity = this.writable();
+
+            entity.query.attributes.push({
                 name: attributeName,
                 alias: alias,
                 aggregate: validAggregate
             });
 
-            return this;
+            return entity;
         } catch (error) {
             this.logger.error('Failed to add aggregate', { error: (error as Error).message });
             throw error;
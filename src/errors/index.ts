@@ -15,8 +15,8 @@ export class ValidationError extends FetchXMLError {
 }
 
 export class QueryBuildError extends FetchXMLError {
-    constructor(message: string) {
-        super(message, "QUERY_BUILD_ERROR");
+    constructor(message: string, public line?: number, public column?: number) {
+        super(line !== undefined ? `${message} (line ${line}, column ${column})` : message, "QUERY_BUILD_ERROR");
         this.name = "QueryBuild error";
         Object.setPrototypeOf(this, QueryBuildError.prototype);
     }
@@ -29,3 +29,19 @@ export class AttributeError extends FetchXMLError {
         Object.setPrototypeOf(this, AttributeError.prototype);
     }
 }
+
+export class DataverseError extends FetchXMLError {
+    constructor(message: string, public status?: number, public errorCode?: string) {
+        super(message, "DATAVERSE_ERROR");
+        this.name = "Dataverse error";
+        Object.setPrototypeOf(this, DataverseError.prototype);
+    }
+}
+
+export class QueryResultError extends FetchXMLError {
+    constructor(message: string, public count?: number) {
+        super(message, "QUERY_RESULT_ERROR");
+        this.name = "QueryResult error";
+        Object.setPrototypeOf(this, QueryResultError.prototype);
+    }
+}
@@ -0,0 +1,41 @@
+export * from './types';
+export * from './errors';
+
+export { BaseEntity } from './entities/base-entity';
+export { JoinBuilder } from './builders/join-builder';
+export { FilterBuilder } from './builders/filter-builder';
+export { FetchXMLBuilder } from './builders/xml-builder';
+export { XmlFormatter } from './builders/xml-formatter';
+export { ODataBuilder } from './builders/odata-builder';
+export { SqlBuilder } from './builders/sql-builder';
+
+export { FetchXMLParser } from './parsers/fetchxml-parser';
+export { EntityCollectionParser } from './parsers/entity-collection-parser';
+export { XmlParser, XmlElement } from './parsers/xml-parser';
+
+export { ResultMapper, MappedRecord } from './mappers/result-mapper';
+export {
+    PageIterator,
+    PageExecutor,
+    FetchPage,
+    PagingCookie,
+    PAGING_COOKIE_ANNOTATION,
+    MORE_RECORDS_ANNOTATION,
+    TOTAL_RECORD_COUNT_ANNOTATION
+} from './paging/page-iterator';
+
+export { DataverseClient } from './client/dataverse-client';
+export { NodeHttpTransport } from './client/node-http-transport';
+export { InMemoryEngine } from './engine/in-memory-engine';
+
+export { Entity, Column } from './decorators';
+export { manyToOne, oneToMany, manyToMany } from './relationships/relationship';
+export { MetadataRegistry } from './metadata/metadata-registry';
+export { EntitySchema } from './metadata/entity-schema';
+export { ValueSerializer } from './serializers/value-serializer';
+export { Validator } from './validators';
+export { OPERATORS, OperatorMetadata, OperatorValueKind, OperatorCategory } from './operators';
+export { Logger } from './logger';
+
+export { CodeGenerator, CodegenOptions } from './codegen/code-generator';
+export { CsdlParser, CsdlModel, CsdlEntityType, CsdlEnumType, CsdlProperty, CsdlNavigationProperty } from './codegen/csdl-parser';
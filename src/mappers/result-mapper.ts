@@ -0,0 +1,184 @@
+import { FetchQuery, LinkEntity, Attribute, EntityReference, FormattedValues } from '../types';
+import { Logger } from '../logger';
+import { EntitySchema } from '../metadata/entity-schema';
+
+export const FORMATTED_VALUE_ANNOTATION = '@OData.Community.Display.V1.FormattedValue';
+export const LOOKUP_LOGICAL_NAME_ANNOTATION = '@Microsoft.Dynamics.CRM.lookuplogicalname';
+
+/**
+ * Mapped record: attributes keyed by name or alias, joined columns in
+ * nested objects keyed by link alias and formatted values in $formatted
+ */
+export interface MappedRecord {
+    $formatted?: FormattedValues;
+    [key: string]: any;
+}
+
+/**
+ * Result Mapper
+ * Maps Web API records of a FetchXML query to plain objects, using the
+ * attributes, aliases and link entities of the query
+ */
+export class ResultMapper {
+    private logger = Logger.getInstance();
+
+    /** Path of nested objects for each link alias, e.g. Owner -> [Contacts, Owner] */
+    private linkPaths = new Map<string, string[]>();
+
+    /** Link alias for aliased attributes selected in link entities */
+    private linkAttributeAliases = new Map<string, string>();
+
+    /** Entity name for each link alias */
+    private linkEntities = new Map<string, string>();
+
+    /** Entity and attribute for each attribute alias */
+    private aliasedColumns = new Map<string, [string, string]>();
+
+    constructor(private query: FetchQuery) {
+        this.collectAliases(query.entity, query.attributes);
+        this.collectLinks(query.links ?? [], []);
+    }
+
+    /**
+     * Map the records of a response
+     */
+    public map<R = MappedRecord>(records: Record<string, any>[]): R[] {
+        this.logger.debug('Mapping records', { entity: this.query.entity, count: records.length });
+
+        return records.map(record => this.mapRecord<R>(record));
+    }
+
+    /**
+     * Map a single record
+     */
+    public mapRecord<R = MappedRecord>(record: Record<string, any>): R {
+        const root: MappedRecord = {};
+
+        this.initialize(root, this.query.attributes);
+        this.initializeLinks(root, this.query.links ?? []);
+
+        for (const key of Object.keys(record)) {
+            if (key.includes('@')) continue;
+
+            const [target, field] = this.resolveTarget(root, key);
+            const formatted = record[key + FORMATTED_VALUE_ANNOTATION];
+            const logicalName = record[key + LOOKUP_LOGICAL_NAME_ANNOTATION];
+
+            if (logicalName !== undefined && record[key] !== null) {
+                const reference: EntityReference = { id: record[key], logicalName };
+                if (formatted !== undefined) reference.name = formatted;
+
+                target[field] = reference;
+                continue;
+            }
+
+            target[field] = this.convert(key, record[key]);
+
+            if (formatted !== undefined) {
+                target.$formatted = { ...target.$formatted, [field]: formatted };
+            }
+        }
+
+        return root as R;
+    }
+
+    /**
+     * Object and field a response key maps to
+     */
+    private resolveTarget(root: MappedRecord, key: string): [MappedRecord, string] {
+        const lookup = /^_(.+)_value$/.exec(key);
+        if (lookup) return [root, lookup[1]];
+
+        const separator = key.indexOf('.');
+        if (separator > 0) {
+            const alias = key.slice(0, separator);
+            return [this.nested(root, this.linkPaths.get(alias) ?? [alias]), key.slice(separator + 1)];
+        }
+
+        const linkAlias = this.linkAttributeAliases.get(key);
+        if (linkAlias) return [this.nested(root, this.linkPaths.get(linkAlias)!), key];
+
+        return [root, key];
+    }
+
+    /**
+     * Convert values of columns declared as datetime with @Column to Date
+     */
+    private convert(key: string, value: any): any {
+        if (typeof value !== 'string') return value;
+
+        const [entity, attribute] = this.resolveColumn(key);
+        return EntitySchema.getColumnType(entity, attribute) === 'datetime' ? new Date(value) : value;
+    }
+
+    /**
+     * Entity and attribute a response key belongs to
+     */
+    private resolveColumn(key: string): [string, string] {
+        const aliased = this.aliasedColumns.get(key);
+        if (aliased) return aliased;
+
+        const separator = key.indexOf('.');
+        if (separator > 0) {
+            const alias = key.slice(0, separator);
+            return [this.linkEntities.get(alias) ?? alias, key.slice(separator + 1)];
+        }
+
+        return [this.query.entity, key];
+    }
+
+    private nested(root: MappedRecord, path: string[]): MappedRecord {
+        let target = root;
+
+        for (const alias of path) {
+            if (target[alias] === undefined || target[alias] === null) target[alias] = {};
+            target = target[alias];
+        }
+
+        return target;
+    }
+
+    /**
+     * Set selected attributes to null so that columns without a value are present
+     */
+    private initialize(target: MappedRecord, attributes: Attribute[]): void {
+        for (const attribute of attributes) {
+            target[attribute.alias ?? attribute.name] = null;
+        }
+    }
+
+    private initializeLinks(root: MappedRecord, links: LinkEntity[]): void {
+        for (const link of links) {
+            if (link.alias && link.attributes.length > 0) {
+                this.initialize(this.nested(root, this.linkPaths.get(link.alias)!), link.attributes);
+            }
+
+            this.initializeLinks(root, link.links ?? []);
+        }
+    }
+
+    private collectLinks(links: LinkEntity[], parentPath: string[]): void {
+        for (const link of links) {
+            const path = link.alias ? [...parentPath, link.alias] : parentPath;
+
+            this.collectAliases(link.name, link.attributes);
+
+            if (link.alias) {
+                this.linkPaths.set(link.alias, path);
+                this.linkEntities.set(link.alias, link.name);
+
+                for (const attribute of link.attributes) {
+                    if (attribute.alias) this.linkAttributeAliases.set(attribute.alias, link.alias);
+                }
+            }
+
+            this.collectLinks(link.links ?? [], path);
+        }
+    }
+
+    private collectAliases(entity: string, attributes: Attribute[]): void {
+        for (const attribute of attributes) {
+            if (attribute.alias) this.aliasedColumns.set(attribute.alias, [entity, attribute.name]);
+        }
+    }
+}
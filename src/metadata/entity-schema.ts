@@ -0,0 +1,107 @@
+import { AttributeType, ColumnDefinition, ColumnOptions, EntityDefinition, EntityOptions } from '../types';
+import { ValidationError } from '../errors';
+import { Logger } from '../logger';
+
+/**
+ * Entity Schema
+ * Registry of the entities declared with the @Entity and @Column decorators,
+ * by class and by logical name
+ */
+export class EntitySchema {
+    private static logger = Logger.getInstance();
+    private static classes = new Map<Function, EntityDefinition>();
+    private static entities = new Map<string, EntityDefinition>();
+
+    /** Columns of classes whose @Entity decorator has not run yet */
+    private static pendingColumns = new Map<Function, Record<string, ColumnDefinition>>();
+
+    /**
+     * Register a class as entity. Columns of several classes declaring the
+     * same entity, e.g. a model and its query class, are merged.
+     */
+    public static define(target: Function, logicalName: string, options: EntityOptions = {}): EntityDefinition {
+        if (!logicalName || logicalName.trim() === '') {
+            throw new ValidationError('Entity name cannot be empty', 'entityName');
+        }
+
+        const existing = this.entities.get(logicalName);
+        const columns = { ...this.inheritedColumns(target), ...this.pendingColumns.get(target) };
+        const definition: EntityDefinition = {
+            ...existing,
+            ...options,
+            logicalName,
+            columns: { ...existing?.columns, ...columns }
+        };
+
+        this.pendingColumns.delete(target);
+        this.classes.set(target, definition);
+        this.entities.set(logicalName, definition);
+
+        for (const [type, registered] of this.classes) {
+            if (registered.logicalName === logicalName) this.classes.set(type, definition);
+        }
+
+        this.logger.debug('Defined entity', { logicalName, columns: Object.keys(definition.columns) });
+        return definition;
+    }
+
+    /**
+     * Register a column of a class
+     */
+    public static addColumn(target: Function, property: string, options: ColumnOptions = {}): void {
+        const columns = this.pendingColumns.get(target) ?? {};
+        const column: ColumnDefinition = { name: property };
+
+        if (options.type) column.type = options.type;
+
+        columns[property] = column;
+        this.pendingColumns.set(target, columns);
+    }
+
+    /**
+     * Schema of a decorated class or of its closest decorated base class
+     */
+    public static of(target: Function): EntityDefinition | undefined {
+        for (let type: any = target; type && type !== Function.prototype; type = Object.getPrototypeOf(type)) {
+            const definition = this.classes.get(type);
+            if (definition) return definition;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Schema of an entity by logical name
+     */
+    public static forEntity(logicalName: string): EntityDefinition | undefined {
+        return this.entities.get(logicalName);
+    }
+
+    /**
+     * Whether a column is declared on the entity
+     */
+    public static hasColumn(logicalName: string, column: string): boolean {
+        const definition = this.entities.get(logicalName);
+        return !!definition && Object.prototype.hasOwnProperty.call(definition.columns, column);
+    }
+
+    public static getColumnType(logicalName: string, column: string): AttributeType | undefined {
+        return this.hasColumn(logicalName, column) ? this.entities.get(logicalName)!.columns[column].type : undefined;
+    }
+
+    /**
+     * Whether any entity declares columns, i.e. can be validated
+     */
+    public static hasColumns(logicalName?: string): boolean {
+        const definitions = logicalName ? [this.entities.get(logicalName)] : [...this.entities.values()];
+        return definitions.some(definition => !!definition && Object.keys(definition.columns).length > 0);
+    }
+
+    /**
+     * Columns declared on decorated base classes
+     */
+    private static inheritedColumns(target: Function): Record<string, ColumnDefinition> {
+        const base = Object.getPrototypeOf(target);
+        return base && base !== Function.prototype ? this.of(base)?.columns ?? {} : {};
+    }
+}
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import { AttributeType, MetadataDefinition } from '../types';
+import { ValidationError } from '../errors';
+import { Logger } from '../logger';
+
+const ATTRIBUTE_TYPES: AttributeType[] = [
+    'string', 'integer', 'decimal', 'money', 'boolean', 'datetime', 'lookup', 'choice', 'multichoice', 'guid'
+];
+
+/**
+ * Metadata Registry
+ * Holds the attribute types of entities, used by Validator to check
+ * attributes, operators and values of queries
+ */
+export class MetadataRegistry {
+    private logger = Logger.getInstance();
+    private entities = new Map<string, Map<string, AttributeType>>();
+
+    constructor(definition: MetadataDefinition = {}) {
+        this.register(definition);
+    }
+
+    /**
+     * Create a registry from a JSON document
+     */
+    public static fromJson(json: string): MetadataRegistry {
+        let definition: unknown;
+
+        try {
+            definition = JSON.parse(json);
+        } catch (error) {
+            throw new ValidationError(`Invalid metadata JSON: ${(error as Error).message}`, 'metadata');
+        }
+
+        if (definition === null || typeof definition !== 'object' || Array.isArray(definition)) {
+            throw new ValidationError('Metadata JSON must be an object of entities', 'metadata');
+        }
+
+        return new MetadataRegistry(definition as MetadataDefinition);
+    }
+
+    /**
+     * Create a registry from a JSON file
+     */
+    public static fromFile(path: string): MetadataRegistry {
+        return MetadataRegistry.fromJson(fs.readFileSync(path, 'utf8'));
+    }
+
+    /**
+     * Add or extend entities
+     */
+    public register(definition: MetadataDefinition): this {
+        for (const [entityName, attributes] of Object.entries(definition)) {
+            const entity = this.entities.get(entityName) ?? new Map<string, AttributeType>();
+
+            for (const [attribute, type] of Object.entries(attributes ?? {})) {
+                if (!ATTRIBUTE_TYPES.includes(type)) {
+                    throw new ValidationError(`Invalid attribute type ${type} for ${entityName}.${attribute}`, 'metadata');
+                }
+
+                entity.set(attribute, type);
+            }
+
+            this.entities.set(entityName, entity);
+        }
+
+        this.logger.debug('Registered metadata', { entities: Object.keys(definition) });
+        return this;
+    }
+
+    public hasEntity(entityName: string): boolean {
+        return this.entities.has(entityName);
+    }
+
+    /**
+     * Type of an attribute, or undefined when the entity or attribute is unknown
+     */
+    public getAttributeType(entityName: string, attribute: string): AttributeType | undefined {
+        return this.entities.get(entityName)?.get(attribute);
+    }
+}
@@ -0,0 +1,215 @@
+import { FilterOperator, ColumnOperator, AttributeType } from '../types';
+
+/**
+ * Operator metadata
+ * Describes which kind of value each condition operator expects:
+ * - none: the operator takes no value (e.g. null, today, eq-userid)
+ * - single: the operator takes exactly one value
+ * - integer: the operator takes one whole number (e.g. last-x-days)
+ * - multiple: the operator takes one or more values, rendered as <value> elements
+ * - range: the operator takes exactly two values, rendered as <value> elements
+ */
+export type OperatorValueKind = 'none' | 'single' | 'integer' | 'multiple' | 'range';
+
+export type OperatorCategory =
+    | 'comparison'
+    | 'string'
+    | 'list'
+    | 'null'
+    | 'date'
+    | 'fiscal'
+    | 'user'
+    | 'hierarchy'
+    | 'multiselect';
+
+export interface OperatorMetadata {
+    value: OperatorValueKind;
+    category: OperatorCategory;
+}
+
+export const OPERATORS: Record<FilterOperator, OperatorMetadata> = {
+    // Comparison
+    'eq': { value: 'single', category: 'comparison' },
+    'ne': { value: 'single', category: 'comparison' },
+    'neq': { value: 'single', category: 'comparison' },
+    'gt': { value: 'single', category: 'comparison' },
+    'ge': { value: 'single', category: 'comparison' },
+    'lt': { value: 'single', category: 'comparison' },
+    'le': { value: 'single', category: 'comparison' },
+
+    // String matching
+    'like': { value: 'single', category: 'string' },
+    'not-like': { value: 'single', category: 'string' },
+    'begins-with': { value: 'single', category: 'string' },
+    'not-begin-with': { value: 'single', category: 'string' },
+    'ends-with': { value: 'single', category: 'string' },
+    'not-end-with': { value: 'single', category: 'string' },
+
+    // Lists and ranges
+    'in': { value: 'multiple', category: 'list' },
+    'not-in': { value: 'multiple', category: 'list' },
+    'between': { value: 'range', category: 'list' },
+    'not-between': { value: 'range', category: 'list' },
+
+    // Null checks
+    'null': { value: 'none', category: 'null' },
+    'not-null': { value: 'none', category: 'null' },
+
+    // Dates
+    'on': { value: 'single', category: 'date' },
+    'on-or-before': { value: 'single', category: 'date' },
+    'on-or-after': { value: 'single', category: 'date' },
+    'yesterday': { value: 'none', category: 'date' },
+    'today': { value: 'none', category: 'date' },
+    'tomorrow': { value: 'none', category: 'date' },
+    'last-seven-days': { value: 'none', category: 'date' },
+    'next-seven-days': { value: 'none', category: 'date' },
+    'last-week': { value: 'none', category: 'date' },
+    'this-week': { value: 'none', category: 'date' },
+    'next-week': { value: 'none', category: 'date' },
+    'last-month': { value: 'none', category: 'date' },
+    'this-month': { value: 'none', category: 'date' },
+    'next-month': { value: 'none', category: 'date' },
+    'last-year': { value: 'none', category: 'date' },
+    'this-year': { value: 'none', category: 'date' },
+    'next-year': { value: 'none', category: 'date' },
+    'last-x-hours': { value: 'integer', category: 'date' },
+    'next-x-hours': { value: 'integer', category: 'date' },
+    'last-x-days': { value: 'integer', category: 'date' },
+    'next-x-days': { value: 'integer', category: 'date' },
+    'last-x-weeks': { value: 'integer', category: 'date' },
+    'next-x-weeks': { value: 'integer', category: 'date' },
+    'last-x-months': { value: 'integer', category: 'date' },
+    'next-x-months': { value: 'integer', category: 'date' },
+    'last-x-years': { value: 'integer', category: 'date' },
+    'next-x-years': { value: 'integer', category: 'date' },
+    'olderthan-x-minutes': { value: 'integer', category: 'date' },
+    'olderthan-x-hours': { value: 'integer', category: 'date' },
+    'olderthan-x-days': { value: 'integer', category: 'date' },
+    'olderthan-x-weeks': { value: 'integer', category: 'date' },
+    'olderthan-x-months': { value: 'integer', category: 'date' },
+    'olderthan-x-years': { value: 'integer', category: 'date' },
+
+    // Fiscal periods
+    'this-fiscal-year': { value: 'none', category: 'fiscal' },
+    'this-fiscal-period': { value: 'none', category: 'fiscal' },
+    'next-fiscal-year': { value: 'none', category: 'fiscal' },
+    'next-fiscal-period': { value: 'none', category: 'fiscal' },
+    'last-fiscal-year': { value: 'none', category: 'fiscal' },
+    'last-fiscal-period': { value: 'none', category: 'fiscal' },
+    'last-x-fiscal-years': { value: 'integer', category: 'fiscal' },
+    'last-x-fiscal-periods': { value: 'integer', category: 'fiscal' },
+    'next-x-fiscal-years': { value: 'integer', category: 'fiscal' },
+    'next-x-fiscal-periods': { value: 'integer', category: 'fiscal' },
+    'in-fiscal-year': { value: 'integer', category: 'fiscal' },
+    'in-fiscal-period': { value: 'integer', category: 'fiscal' },
+    'in-fiscal-period-and-year': { value: 'range', category: 'fiscal' },
+    'in-or-before-fiscal-period-and-year': { value: 'range', category: 'fiscal' },
+    'in-or-after-fiscal-period-and-year': { value: 'range', category: 'fiscal' },
+
+    // Current user and business unit
+    'eq-userid': { value: 'none', category: 'user' },
+    'ne-userid': { value: 'none', category: 'user' },
+    'eq-userteams': { value: 'none', category: 'user' },
+    'eq-useroruserteams': { value: 'none', category: 'user' },
+    'eq-useroruserhierarchy': { value: 'none', category: 'user' },
+    'eq-useroruserhierarchyandteams': { value: 'none', category: 'user' },
+    'eq-businessid': { value: 'none', category: 'user' },
+    'ne-businessid': { value: 'none', category: 'user' },
+    'eq-userlanguage': { value: 'none', category: 'user' },
+
+    // Hierarchies
+    'under': { value: 'single', category: 'hierarchy' },
+    'eq-or-under': { value: 'single', category: 'hierarchy' },
+    'not-under': { value: 'single', category: 'hierarchy' },
+    'above': { value: 'single', category: 'hierarchy' },
+    'eq-or-above': { value: 'single', category: 'hierarchy' },
+
+    // Multi-select option sets
+    'contain-values': { value: 'multiple', category: 'multiselect' },
+    'not-contain-values': { value: 'multiple', category: 'multiselect' }
+};
+
+/**
+ * Attribute types each operator category applies to; categories without
+ * an entry apply to all types
+ */
+export const CATEGORY_ATTRIBUTE_TYPES: Partial<Record<OperatorCategory, AttributeType[]>> = {
+    'string': ['string'],
+    'date': ['datetime'],
+    'fiscal': ['datetime'],
+    'user': ['lookup', 'guid'],
+    'hierarchy': ['lookup', 'guid'],
+    'multiselect': ['multichoice']
+};
+
+/** Unit of relative date operators */
+export type DateUnit = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Calendar periods of relative date operators as [unit, offset from the current period]
+ */
+export const DATE_PERIODS: Partial<Record<FilterOperator, [DateUnit, number]>> = {
+    'yesterday': ['day', -1],
+    'today': ['day', 0],
+    'tomorrow': ['day', 1],
+    'last-week': ['week', -1],
+    'this-week': ['week', 0],
+    'next-week': ['week', 1],
+    'last-month': ['month', -1],
+    'this-month': ['month', 0],
+    'next-month': ['month', 1],
+    'last-year': ['year', -1],
+    'this-year': ['year', 0],
+    'next-year': ['year', 1]
+};
+
+/**
+ * Units of the last-x, next-x and olderthan-x operators
+ */
+export const LAST_X_UNITS: Partial<Record<FilterOperator, DateUnit>> = {
+    'last-x-days': 'day', 'last-x-weeks': 'week', 'last-x-months': 'month', 'last-x-years': 'year'
+};
+
+export const NEXT_X_UNITS: Partial<Record<FilterOperator, DateUnit>> = {
+    'next-x-days': 'day', 'next-x-weeks': 'week', 'next-x-months': 'month', 'next-x-years': 'year'
+};
+
+export const OLDER_THAN_X_UNITS: Partial<Record<FilterOperator, DateUnit>> = {
+    'olderthan-x-minutes': 'minute',
+    'olderthan-x-hours': 'hour',
+    'olderthan-x-days': 'day',
+    'olderthan-x-weeks': 'week',
+    'olderthan-x-months': 'month',
+    'olderthan-x-years': 'year'
+};
+
+/**
+ * Operators that can compare two columns through valueof
+ */
+export const COLUMN_OPERATORS: ColumnOperator[] = ['eq', 'ne', 'neq', 'gt', 'ge', 'lt', 'le'];
+
+/**
+ * Check whether an operator is part of the catalogue
+ */
+export function isFilterOperator(operator: string): operator is FilterOperator {
+    return Object.prototype.hasOwnProperty.call(OPERATORS, operator);
+}
+
+/**
+ * Check whether an operator can be used on an attribute of the given type
+ */
+export function isOperatorSupported(operator: FilterOperator, type: AttributeType): boolean {
+    if (operator === 'eq-userlanguage') return type === 'integer';
+
+    const types = CATEGORY_ATTRIBUTE_TYPES[OPERATORS[operator].category];
+    return types === undefined || types.includes(type);
+}
+
+/**
+ * Check whether an operator renders its values as <value> child elements
+ */
+export function isMultiValueOperator(operator: FilterOperator): boolean {
+    const kind = OPERATORS[operator]?.value;
+    return kind === 'multiple' || kind === 'range';
+}
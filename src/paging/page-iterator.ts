@@ -0,0 +1,108 @@
+import { FetchQuery } from '../types';
+import { FetchXMLBuilder } from '../builders/xml-builder';
+import { XmlParser } from '../parsers/xml-parser';
+import { QueryBuildError, ValidationError } from '../errors';
+import { Logger } from '../logger';
+
+export const PAGING_COOKIE_ANNOTATION = '@Microsoft.Dynamics.CRM.fetchxmlpagingcookie';
+export const MORE_RECORDS_ANNOTATION = '@Microsoft.Dynamics.CRM.morerecords';
+export const TOTAL_RECORD_COUNT_ANNOTATION = '@Microsoft.Dynamics.CRM.totalrecordcount';
+
+/**
+ * One page of a Web API FetchXML response
+ */
+export interface FetchPage<R> {
+    value: R[];
+    [PAGING_COOKIE_ANNOTATION]?: string;
+    [MORE_RECORDS_ANNOTATION]?: boolean;
+    [TOTAL_RECORD_COUNT_ANNOTATION]?: number;
+}
+
+/**
+ * Executes the FetchXML of a single page
+ */
+export type PageExecutor<R> = (fetchXml: string, pageNumber: number) => Promise<FetchPage<R>>;
+
+/**
+ * Position of the next page, read from a paging cookie annotation
+ */
+export interface PagingCookie {
+    pageNumber: number;
+    pagingCookie: string;
+}
+
+/**
+ * Page Iterator
+ * Requests page after page, following the paging cookie until the
+ * server reports no more records
+ */
+export class PageIterator<R> implements AsyncIterable<R> {
+    private logger = Logger.getInstance();
+
+    /** Total record count, available after the first page when requested */
+    public totalRecordCount?: number;
+
+    constructor(private query: FetchQuery, private executePage: PageExecutor<R>) {
+        if (query.top) {
+            throw new ValidationError('Paging cannot be combined with top', 'top');
+        }
+    }
+
+    public async *[Symbol.asyncIterator](): AsyncIterator<R> {
+        for await (const records of this.pages()) {
+            yield* records;
+        }
+    }
+
+    /**
+     * Yield the records of each page
+     */
+    public async *pages(): AsyncGenerator<R[]> {
+        let pageNumber = this.query.page ?? 1;
+        let pagingCookie = this.query.pagingCookie;
+
+        for (;;) {
+            const xml = new FetchXMLBuilder({ ...this.query, page: pageNumber, pagingCookie }).build();
+
+            this.logger.debug('Requesting page', { entity: this.query.entity, pageNumber });
+
+            const response = await this.executePage(xml, pageNumber);
+
+            if (response[TOTAL_RECORD_COUNT_ANNOTATION] !== undefined) {
+                this.totalRecordCount = response[TOTAL_RECORD_COUNT_ANNOTATION];
+            }
+
+            yield response.value;
+
+            if (!response[MORE_RECORDS_ANNOTATION]) return;
+
+            const annotation = response[PAGING_COOKIE_ANNOTATION];
+
+            if (annotation) {
+                ({ pageNumber, pagingCookie } = PageIterator.parsePagingCookie(annotation));
+            } else {
+                pageNumber++;
+                pagingCookie = undefined;
+            }
+        }
+    }
+
+    /**
+     * Read the next page number and the decoded paging cookie from the
+     * fetchxmlpagingcookie annotation
+     */
+    public static parsePagingCookie(annotation: string): PagingCookie {
+        const element = new XmlParser(annotation).parse();
+        const pageNumber = element.attributes.pagenumber;
+        const cookie = element.attributes.pagingcookie;
+
+        if (element.name !== 'cookie' || !/^\d+$/.test(pageNumber ?? '') || cookie === undefined) {
+            throw new QueryBuildError(`Invalid paging cookie annotation: ${annotation}`);
+        }
+
+        return {
+            pageNumber: parseInt(pageNumber, 10),
+            pagingCookie: decodeURIComponent(decodeURIComponent(cookie))
+        };
+    }
+}
@@ -0,0 +1,201 @@
+import { FetchQuery, EntityCollection } from '../types';
+import { XmlParser, XmlElement } from './xml-parser';
+import { ResultMapper, FORMATTED_VALUE_ANNOTATION, LOOKUP_LOGICAL_NAME_ANNOTATION } from '../mappers/result-mapper';
+import { QueryBuildError, DataverseError } from '../errors';
+import { Logger } from '../logger';
+
+/**
+ * Entity Collection Parser
+ * Reads the EntityCollection of an Organization service (SOAP)
+ * RetrieveMultiple response into the records returned by ResultMapper
+ */
+export class EntityCollectionParser {
+    private logger = Logger.getInstance();
+
+    constructor(private xml: string, private query?: FetchQuery) { }
+
+    /**
+     * Parse the envelope or EntityCollection element
+     */
+    public parse<R = any>(): EntityCollection<R> {
+        try {
+            this.logger.debug('Parsing EntityCollection');
+
+            const root = new XmlParser(this.xml).parse();
+            const fault = this.find(root, element => this.localName(element) === 'Fault');
+
+            if (fault) throw this.createFault(fault);
+
+            const collection = this.find(root, element => this.child(element, 'Entities') !== undefined);
+            if (!collection) this.fail('No EntityCollection found', root);
+
+            const entityName = this.childText(collection, 'EntityName');
+            const mapper = new ResultMapper(this.query ?? { entity: entityName ?? '', attributes: [] });
+            const entities = this.child(collection, 'Entities')!.children;
+
+            const result: EntityCollection<R> = {
+                records: mapper.map<R>(entities.map(entity => this.parseEntity(entity))),
+                moreRecords: this.childText(collection, 'MoreRecords') === 'true'
+            };
+
+            if (entityName) result.entityName = entityName;
+
+            const pagingCookie = this.childText(collection, 'PagingCookie');
+            if (pagingCookie) result.pagingCookie = pagingCookie;
+
+            const totalRecordCount = this.childText(collection, 'TotalRecordCount');
+            if (totalRecordCount !== undefined && totalRecordCount !== '-1') result.totalRecordCount = parseInt(totalRecordCount, 10);
+
+            const limitExceeded = this.childText(collection, 'TotalRecordCountLimitExceeded');
+            if (limitExceeded !== undefined) result.totalRecordCountLimitExceeded = limitExceeded === 'true';
+
+            this.logger.debug('EntityCollection parsed successfully', { entityName, records: result.records.length });
+            return result;
+        } catch (error) {
+            this.logger.error('Failed to parse EntityCollection', { error: (error as Error).message });
+            throw error;
+        }
+    }
+
+    /**
+     * Convert an <Entity> element to a Web API style record with annotations
+     */
+    private parseEntity(entity: XmlElement): Record<string, any> {
+        if (this.localName(entity) !== 'Entity') this.fail(`Unexpected element <${entity.name}> in <Entities>`, entity);
+
+        const record: Record<string, any> = {};
+
+        for (const pair of this.child(entity, 'Attributes')?.children ?? []) {
+            const key = this.requireChild(pair, 'key').text;
+            this.setValue(record, key, this.requireChild(pair, 'value'));
+        }
+
+        for (const pair of this.child(entity, 'FormattedValues')?.children ?? []) {
+            const key = this.requireChild(pair, 'key').text;
+
+            if (record[key + LOOKUP_LOGICAL_NAME_ANNOTATION] === undefined) {
+                record[key + FORMATTED_VALUE_ANNOTATION] = this.requireChild(pair, 'value').text;
+            }
+        }
+
+        return record;
+    }
+
+    /**
+     * Set the value of a typed element, unwrapping Money, OptionSetValue,
+     * EntityReference and AliasedValue
+     */
+    private setValue(record: Record<string, any>, key: string, element: XmlElement): void {
+        if (this.instanceAttribute(element, 'nil') === 'true') {
+            record[key] = null;
+            return;
+        }
+
+        const type = (this.instanceAttribute(element, 'type') ?? 'string').split(':').pop();
+
+        switch (type) {
+            case 'AliasedValue':
+                this.setValue(record, key, this.requireChild(element, 'Value'));
+                break;
+            case 'EntityReference': {
+                const name = this.childText(element, 'Name');
+
+                record[key] = this.requireChild(element, 'Id').text;
+                record[key + LOOKUP_LOGICAL_NAME_ANNOTATION] = this.childText(element, 'LogicalName');
+                if (name !== undefined) record[key + FORMATTED_VALUE_ANNOTATION] = name;
+                break;
+            }
+            case 'Money':
+            case 'OptionSetValue':
+                record[key] = this.parseNumber(this.requireChild(element, 'Value'));
+                break;
+            case 'OptionSetValueCollection':
+                record[key] = element.children.map(option => this.requireChild(option, 'Value').text.trim()).join(',');
+                break;
+            case 'int':
+            case 'long':
+            case 'decimal':
+            case 'double':
+                record[key] = this.parseNumber(element);
+                break;
+            case 'boolean':
+                record[key] = element.text.trim() === 'true';
+                break;
+            case 'string':
+            case 'guid':
+            case 'dateTime':
+                record[key] = element.text;
+                break;
+            default:
+                this.fail(`Unsupported value type "${type}" for "${key}"`, element);
+        }
+    }
+
+    private parseNumber(element: XmlElement): number {
+        const value = Number(element.text.trim());
+
+        if (element.text.trim() === '' || isNaN(value)) this.fail(`Invalid number "${element.text}"`, element);
+        return value;
+    }
+
+    private createFault(fault: XmlElement): DataverseError {
+        const reason = this.find(fault, element => ['faultstring', 'Text', 'Message'].includes(this.localName(element)));
+        const errorCode = this.find(fault, element => this.localName(element) === 'ErrorCode');
+
+        return new DataverseError(`Organization service fault: ${reason?.text.trim() ?? 'Unknown fault'}`, undefined, errorCode?.text.trim());
+    }
+
+    /**
+     * Depth-first search for an element
+     */
+    private find(element: XmlElement, matches: (element: XmlElement) => boolean): XmlElement | undefined {
+        if (matches(element)) return element;
+
+        for (const child of element.children) {
+            const found = this.find(child, matches);
+            if (found) return found;
+        }
+
+        return undefined;
+    }
+
+    private child(element: XmlElement, name: string): XmlElement | undefined {
+        return element.children.find(child => this.localName(child) === name);
+    }
+
+    private requireChild(element: XmlElement, name: string): XmlElement {
+        const child = this.child(element, name);
+
+        if (!child) this.fail(`Missing <${name}> in <${element.name}>`, element);
+        return child;
+    }
+
+    private childText(element: XmlElement, name: string): string | undefined {
+        const child = this.child(element, name);
+
+        if (!child || this.instanceAttribute(child, 'nil') === 'true') return undefined;
+        return child.text.trim();
+    }
+
+    /**
+     * XML Schema instance attribute such as i:type or i:nil, whatever the prefix
+     */
+    private instanceAttribute(element: XmlElement, name: string): string | undefined {
+        const key = Object.keys(element.attributes).find(attribute =>
+            !attribute.startsWith('xmlns') && attribute.endsWith(`:${name}`)
+        );
+
+        return key !== undefined ? element.attributes[key] : undefined;
+    }
+
+    /**
+     * Element name without namespace prefix
+     */
+    private localName(element: XmlElement): string {
+        return element.name.split(':').pop()!;
+    }
+
+    private fail(message: string, element: XmlElement): never {
+        throw new QueryBuildError(`Invalid EntityCollection: ${message}`, element.line, element.column);
+    }
+}
@@ -0,0 +1,328 @@
+import {
+    FetchQuery,
+    FilterGroup,
+    FilterCondition,
+    OrderBy,
+    LinkEntity,
+    Attribute,
+    AggregateAttribute,
+    EntityReference
+} from '../types';
+import { BaseEntity } from '../entities/base-entity';
+import { XmlParser, XmlElement } from './xml-parser';
+import { OPERATORS } from '../operators';
+import { Validator } from '../validators';
+import { QueryBuildError, ValidationError } from '../errors';
+import { Logger } from '../logger';
+
+type EntityTarget = Pick<FetchQuery, 'allAttributes' | 'attributes' | 'filters' | 'orders' | 'links'>;
+
+/** <fetch> attributes without effect on the query, e.g. written by Advanced Find */
+const IGNORED_FETCH_ATTRIBUTES = ['version', 'output-format', 'mapping'];
+
+const FETCH_ATTRIBUTES = ['distinct', 'aggregate', 'top', 'page', 'count', 'paging-cookie', 'returntotalrecordcount', 'no-lock', ...IGNORED_FETCH_ATTRIBUTES];
+
+/**
+ * FetchXML Parser
+ * Reads a FetchXML string back into the FetchQuery structure
+ */
+export class FetchXMLParser {
+    private logger = Logger.getInstance();
+
+    constructor(private xml: string) { }
+
+    /**
+     * Parse FetchXML into a FetchQuery
+     */
+    public parse(): FetchQuery {
+        try {
+            this.logger.debug('Parsing FetchXML');
+
+            const root = new XmlParser(this.xml).parse();
+            const query = this.parseFetch(root);
+
+            this.logger.debug('FetchXML parsed successfully', { entity: query.entity });
+            return query;
+        } catch (error) {
+            this.logger.error('Failed to parse FetchXML', { error: (error as Error).message });
+
+            if (error instanceof QueryBuildError) throw error;
+            throw new QueryBuildError(`Failed to parse FetchXML: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Parse FetchXML and load it into an entity builder
+     */
+    public hydrate<E extends BaseEntity>(entity: E): E {
+        return entity.fromQuery(this.parse());
+    }
+
+    /**
+     * Parse <fetch> element
+     */
+    private parseFetch(element: XmlElement): FetchQuery {
+        if (element.name !== 'fetch') this.fail(`Expected <fetch> root element but found <${element.name}>`, element);
+
+        const entities = element.children.filter(child => child.name === 'entity');
+        const unexpected = element.children.find(child => child.name !== 'entity');
+
+        if (unexpected) this.fail(`Unexpected element <${unexpected.name}> in <fetch>`, unexpected);
+        if (entities.length !== 1) this.fail('<fetch> must contain exactly one <entity> element', element);
+
+        const entity = entities[0];
+        const query: FetchQuery = {
+            entity: this.requireAttribute(entity, 'name'),
+            attributes: []
+        };
+
+        const attrs = element.attributes;
+        const unsupported = Object.keys(attrs).find(name => !FETCH_ATTRIBUTES.includes(name));
+
+        if (unsupported) this.fail(`Unsupported attribute "${unsupported}" on <fetch>`, element);
+
+        if (attrs.distinct !== undefined) query.distinct = this.parseBoolean(element, 'distinct');
+        if (attrs.aggregate !== undefined) query.aggregate = this.parseBoolean(element, 'aggregate');
+        if (attrs.top !== undefined) query.top = this.parseInteger(element, 'top');
+        if (attrs.page !== undefined) query.page = this.parseInteger(element, 'page');
+        if (attrs.count !== undefined) query.count = this.parseInteger(element, 'count');
+        if (attrs['paging-cookie'] !== undefined) query.pagingCookie = attrs['paging-cookie'];
+        if (attrs.returntotalrecordcount !== undefined) {
+            query.returnTotalRecordCount = this.parseBoolean(element, 'returntotalrecordcount');
+        }
+        if (attrs['no-lock'] !== undefined) query.noLock = this.parseBoolean(element, 'no-lock');
+
+        this.parseEntityChildren(entity, query);
+        return query;
+    }
+
+    /**
+     * Parse children of <entity> or <link-entity>
+     */
+    private parseEntityChildren(element: XmlElement, target: EntityTarget): void {
+        for (const child of element.children) {
+            switch (child.name) {
+                case 'attribute':
+                    target.attributes.push(this.parseAttribute(child));
+                    break;
+                case 'all-attributes':
+                    target.allAttributes = true;
+                    break;
+                case 'filter': {
+                    if (!target.links) target.links = [];
+
+                    const filter = this.parseFilter(child, target.links);
+                    if (target.links.length === 0) delete target.links;
+
+                    if (filter.conditions.length === 0 && !filter.links) break;
+
+                    target.filters = target.filters
+                        ? { type: 'and', conditions: [target.filters, filter] }
+                        : filter;
+                    break;
+                }
+                case 'order':
+                    if (!target.orders) target.orders = [];
+                    target.orders.push(this.parseOrder(child));
+                    break;
+                case 'link-entity':
+                    if (!target.links) target.links = [];
+                    target.links.push(this.parseLinkEntity(child));
+                    break;
+                default:
+                    this.fail(`Unexpected element <${child.name}> in <${element.name}>`, child);
+            }
+        }
+    }
+
+    /**
+     * Parse <attribute> element
+     */
+    private parseAttribute(element: XmlElement): Attribute | AggregateAttribute {
+        const attrs = element.attributes;
+        const attribute: Attribute | AggregateAttribute = { name: this.requireAttribute(element, 'name') };
+
+        if (attrs.aggregate !== undefined) {
+            (attribute as AggregateAttribute).aggregate = this.validate(element, () => Validator.validateAggregateType(attrs.aggregate));
+        }
+
+        if (attrs.groupby !== undefined) attribute.groupby = this.parseBoolean(element, 'groupby');
+        if (attrs.dategrouping !== undefined) {
+            attribute.dategrouping = this.validate(element, () => Validator.validateDateGrouping(attrs.dategrouping));
+        }
+        if (attrs.usertimezone !== undefined) attribute.usertimezone = this.parseBoolean(element, 'usertimezone');
+        if (attrs.alias !== undefined) attribute.alias = attrs.alias;
+
+        return attribute;
+    }
+
+    /**
+     * Parse <filter> element recursively. Link entities placed inside the
+     * top-level and filter of an entity (any, not any, all, not all) are
+     * moved to the given entity links; links inside or and nested filters
+     * stay in their filter group.
+     */
+    private parseFilter(element: XmlElement, entityLinks?: LinkEntity[]): FilterGroup {
+        const type = this.validate(element, () => Validator.validateFilterType(element.attributes.type ?? 'and'));
+        const group: FilterGroup = { type, conditions: [] };
+        const links = type === 'and' && entityLinks ? entityLinks : [];
+
+        for (const child of element.children) {
+            switch (child.name) {
+                case 'condition':
+                    group.conditions.push(this.parseCondition(child));
+                    break;
+                case 'filter':
+                    group.conditions.push(this.parseFilter(child));
+                    break;
+                case 'link-entity':
+                    links.push(this.parseLinkEntity(child));
+                    break;
+                default:
+                    this.fail(`Unexpected element <${child.name}> in <filter>`, child);
+            }
+        }
+
+        if (links !== entityLinks && links.length > 0) group.links = links;
+
+        return group;
+    }
+
+    /**
+     * Parse <condition> element
+     */
+    private parseCondition(element: XmlElement): FilterCondition {
+        const attrs = element.attributes;
+        const operator = this.validate(element, () => Validator.validateFilterOperator(this.requireAttribute(element, 'operator')));
+        const condition: FilterCondition = {
+            attribute: this.requireAttribute(element, 'attribute'),
+            operator
+        };
+
+        if (attrs.entityname !== undefined) condition.entityname = attrs.entityname;
+
+        if (attrs.valueof !== undefined) {
+            condition.valueof = attrs.valueof;
+            return condition;
+        }
+
+        const values = element.children.map(child => {
+            if (child.name !== 'value') this.fail(`Unexpected element <${child.name}> in <condition>`, child);
+            return this.parseValue(child.text, child);
+        });
+
+        switch (OPERATORS[operator].value) {
+            case 'none':
+                break;
+            case 'integer': {
+                const value = attrs.value ?? values[0];
+                if (value === undefined || !/^\d+$/.test(value)) {
+                    this.fail(`Operator ${operator} requires a whole number`, element);
+                }
+                condition.value = parseInt(value, 10);
+                break;
+            }
+            case 'multiple':
+            case 'range':
+                condition.value = values.length > 0 ? values : attrs.value !== undefined ? [attrs.value] : undefined;
+                break;
+            default:
+                condition.value = attrs.value !== undefined ? this.parseValue(attrs.value, element) : values[0];
+        }
+
+        return condition;
+    }
+
+    /**
+     * Values with uitype or uiname are lookup values and become entity references
+     */
+    private parseValue(value: string, element: XmlElement): string | EntityReference {
+        const { uitype, uiname } = element.attributes;
+        if (uitype === undefined && uiname === undefined) return value;
+
+        const reference: EntityReference = { id: value };
+        if (uitype !== undefined) reference.logicalName = uitype;
+        if (uiname !== undefined) reference.name = uiname;
+
+        return reference;
+    }
+
+    /**
+     * Parse <order> element
+     */
+    private parseOrder(element: XmlElement): OrderBy {
+        const attrs = element.attributes;
+        const order: OrderBy = {
+            order: attrs.descending !== undefined && this.parseBoolean(element, 'descending') ? 'desc' : 'asc'
+        };
+
+        if (attrs.entityname !== undefined) order.entityname = attrs.entityname;
+        if (attrs.attribute !== undefined) order.attribute = attrs.attribute;
+        if (attrs.alias !== undefined) order.alias = attrs.alias;
+
+        this.validate(element, () => Validator.validateOrder(order));
+        return order;
+    }
+
+    /**
+     * Parse <link-entity> element
+     */
+    private parseLinkEntity(element: XmlElement): LinkEntity {
+        const attrs = element.attributes;
+        const link: LinkEntity = {
+            name: this.requireAttribute(element, 'name'),
+            from: this.requireAttribute(element, 'from'),
+            to: this.requireAttribute(element, 'to'),
+            attributes: []
+        };
+
+        if (attrs.alias !== undefined) link.alias = attrs.alias;
+        if (attrs['link-type'] !== undefined) {
+            link.linkType = this.validate(element, () => Validator.validateLinkType(attrs['link-type']));
+        }
+        if (attrs.intersect !== undefined) link.intersect = this.parseBoolean(element, 'intersect');
+        if (attrs.visible !== undefined) link.visible = this.parseBoolean(element, 'visible');
+
+        this.parseEntityChildren(element, link);
+        return link;
+    }
+
+    private requireAttribute(element: XmlElement, name: string): string {
+        const value = element.attributes[name];
+
+        if (value === undefined || value.trim() === '') this.fail(`Missing "${name}" attribute on <${element.name}>`, element);
+        return value;
+    }
+
+    private parseBoolean(element: XmlElement, name: string): boolean {
+        const value = element.attributes[name];
+
+        if (value === 'true' || value === '1') return true;
+        if (value === 'false' || value === '0') return false;
+
+        return this.fail(`Invalid boolean "${value}" for "${name}" on <${element.name}>`, element);
+    }
+
+    private parseInteger(element: XmlElement, name: string): number {
+        const value = element.attributes[name];
+
+        if (!/^\d+$/.test(value)) this.fail(`Invalid number "${value}" for "${name}" on <${element.name}>`, element);
+        return parseInt(value, 10);
+    }
+
+    /**
+     * Run a validator and report its error at the position of the element
+     */
+    private validate<R>(element: XmlElement, validator: () => R): R {
+        try {
+            return validator();
+        } catch (error) {
+            if (error instanceof ValidationError) this.fail(error.message, element);
+            throw error;
+        }
+    }
+
+    private fail(message: string, element: XmlElement): never {
+        throw new QueryBuildError(`Invalid FetchXML: ${message}`, element.line, element.column);
+    }
+}
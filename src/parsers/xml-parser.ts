@@ -0,0 +1,265 @@
+import { QueryBuildError } from '../errors';
+
+/**
+ * Parsed XML element with its source position
+ */
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+    line: number;
+    column: number;
+}
+
+/**
+ * Minimal XML parser
+ * Supports elements, attributes, text, CDATA, comments, processing
+ * instructions and the predefined and numeric character entities.
+ * Malformed input raises QueryBuildError with line and column.
+ */
+export class XmlParser {
+    private position = 0;
+    private line = 1;
+    private column = 1;
+
+    constructor(private source: string) { }
+
+    /**
+     * Parse the document and return its root element
+     */
+    public parse(): XmlElement {
+        this.skipMisc();
+
+        if (this.position >= this.source.length) this.fail('Document is empty');
+        if (this.peek() !== '<') this.fail('Expected root element');
+
+        const root = this.parseElement();
+
+        this.skipMisc();
+        if (this.position < this.source.length) this.fail('Unexpected content after root element');
+
+        return root;
+    }
+
+    /**
+     * Parse element starting at the current '<'
+     */
+    private parseElement(): XmlElement {
+        const line = this.line;
+        const column = this.column;
+
+        this.expect('<');
+        const name = this.readName();
+        const attributes: Record<string, string> = {};
+
+        for (;;) {
+            const hadSpace = this.skipWhitespace();
+
+            if (this.startsWith('/>')) {
+                this.advance(2);
+                return { name, attributes, children: [], text: '', line, column };
+            }
+
+            if (this.peek() === '>') {
+                this.advance(1);
+                break;
+            }
+
+            if (!hadSpace) this.fail(`Expected whitespace, '>' or '/>' in <${name}>`);
+
+            const attributeLine = this.line;
+            const attributeColumn = this.column;
+            const attributeName = this.readName();
+
+            this.skipWhitespace();
+            this.expect('=');
+            this.skipWhitespace();
+
+            if (attributeName in attributes) {
+                this.fail(`Duplicate attribute "${attributeName}" in <${name}>`, attributeLine, attributeColumn);
+            }
+
+            attributes[attributeName] = this.readAttributeValue();
+        }
+
+        const element: XmlElement = { name, attributes, children: [], text: '', line, column };
+
+        for (;;) {
+            if (this.position >= this.source.length) this.fail(`Unclosed element <${name}>`, line, column);
+
+            if (this.startsWith('</')) {
+                this.advance(2);
+                const closing = this.readName();
+
+                if (closing !== name) this.fail(`Expected </${name}> but found </${closing}>`);
+
+                this.skipWhitespace();
+                this.expect('>');
+                return element;
+            }
+
+            if (this.startsWith('<!--')) {
+                this.skipComment();
+            } else if (this.startsWith('<![CDATA[')) {
+                element.text += this.readCData();
+            } else if (this.startsWith('<?')) {
+                this.skipProcessingInstruction();
+            } else if (this.peek() === '<') {
+                element.children.push(this.parseElement());
+            } else {
+                element.text += this.readText();
+            }
+        }
+    }
+
+    /**
+     * Skip whitespace, comments, processing instructions and doctype outside the root element
+     */
+    private skipMisc(): void {
+        for (;;) {
+            this.skipWhitespace();
+
+            if (this.startsWith('<?')) {
+                this.skipProcessingInstruction();
+            } else if (this.startsWith('<!--')) {
+                this.skipComment();
+            } else if (this.startsWith('<!DOCTYPE')) {
+                this.skipUntil('>', 'Unclosed doctype');
+            } else {
+                return;
+            }
+        }
+    }
+
+    private skipComment(): void {
+        this.advance(4);
+        this.skipUntil('-->', 'Unclosed comment');
+    }
+
+    private skipProcessingInstruction(): void {
+        this.advance(2);
+        this.skipUntil('?>', 'Unclosed processing instruction');
+    }
+
+    private readCData(): string {
+        this.advance(9);
+        const start = this.position;
+        this.skipUntil(']]>', 'Unclosed CDATA section');
+
+        return this.source.slice(start, this.position - 3);
+    }
+
+    private readText(): string {
+        const start = this.position;
+
+        while (this.position < this.source.length && this.peek() !== '<') {
+            this.advance(1);
+        }
+
+        return this.decodeEntities(this.source.slice(start, this.position), this.line, this.column);
+    }
+
+    private readName(): string {
+        const start = this.position;
+
+        while (this.position < this.source.length && /[A-Za-z0-9_:.\-]/.test(this.peek())) {
+            this.advance(1);
+        }
+
+        if (start === this.position) this.fail('Expected name');
+        return this.source.slice(start, this.position);
+    }
+
+    private readAttributeValue(): string {
+        const quote = this.peek();
+        if (quote !== '"' && quote !== "'") this.fail('Expected quoted attribute value');
+
+        const line = this.line;
+        const column = this.column;
+
+        this.advance(1);
+        const start = this.position;
+
+        while (this.position < this.source.length && this.peek() !== quote) {
+            if (this.peek() === '<') this.fail("Unexpected '<' in attribute value");
+            this.advance(1);
+        }
+
+        if (this.position >= this.source.length) this.fail('Unclosed attribute value', line, column);
+
+        const raw = this.source.slice(start, this.position);
+        this.advance(1);
+
+        return this.decodeEntities(raw, line, column);
+    }
+
+    private decodeEntities(value: string, line: number, column: number): string {
+        return value.replace(/&([^;\s&]*);?/g, (match, entity: string) => {
+            if (!match.endsWith(';')) this.fail(`Unterminated entity "${match}"`, line, column);
+
+            switch (entity) {
+                case 'amp': return '&';
+                case 'lt': return '<';
+                case 'gt': return '>';
+                case 'quot': return '"';
+                case 'apos': return "'";
+            }
+
+            const code = /^#x[0-9a-fA-F]+$/.test(entity)
+                ? parseInt(entity.slice(2), 16)
+                : /^#[0-9]+$/.test(entity) ? parseInt(entity.slice(1), 10) : NaN;
+
+            if (isNaN(code)) this.fail(`Unknown entity "&${entity};"`, line, column);
+            return String.fromCodePoint(code);
+        });
+    }
+
+    private skipWhitespace(): boolean {
+        const start = this.position;
+
+        while (this.position < this.source.length && /\s/.test(this.peek())) {
+            this.advance(1);
+        }
+
+        return this.position > start;
+    }
+
+    private skipUntil(terminator: string, message: string): void {
+        const line = this.line;
+        const column = this.column;
+        const end = this.source.indexOf(terminator, this.position);
+
+        if (end === -1) this.fail(message, line, column);
+        this.advance(end + terminator.length - this.position);
+    }
+
+    private expect(value: string): void {
+        if (!this.startsWith(value)) this.fail(`Expected '${value}'`);
+        this.advance(value.length);
+    }
+
+    private startsWith(value: string): boolean {
+        return this.source.startsWith(value, this.position);
+    }
+
+    private peek(): string {
+        return this.source[this.position];
+    }
+
+    private advance(count: number): void {
+        for (let i = 0; i < count && this.position < this.source.length; i++) {
+            if (this.source[this.position] === '\n') {
+                this.line++;
+                this.column = 1;
+            } else {
+                this.column++;
+            }
+            this.position++;
+        }
+    }
+
+    private fail(message: string, line: number = this.line, column: number = this.column): never {
+        throw new QueryBuildError(`Malformed XML: ${message}`, line, column);
+    }
+}
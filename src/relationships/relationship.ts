@@ -0,0 +1,91 @@
+import { LinkEntity, LinkType, Relationship, RelationshipDefinition } from '../types';
+import { Validator } from '../validators';
+
+/**
+ * Many-to-one relationship through a lookup of this entity
+ * @param entity Related entity, e.g. contact
+ * @param from Primary key of the related entity, e.g. contactid
+ * @param to Lookup attribute of this entity, e.g. primarycontactid
+ */
+export function manyToOne<U = any>(entity: string, from: string, to: string): Relationship<U> {
+    return { entity, from, to, collection: false };
+}
+
+/**
+ * One-to-many relationship through a lookup of the related entity
+ * @param entity Related entity, e.g. contact
+ * @param from Lookup attribute of the related entity, e.g. parentcustomerid
+ * @param to Primary key of this entity, e.g. accountid
+ */
+export function oneToMany<U = any>(entity: string, from: string, to: string): Relationship<U> {
+    return { entity, from, to, collection: true };
+}
+
+/**
+ * Many-to-many relationship through an intersect entity whose attributes
+ * are named after the primary keys of both entities
+ * @param entity Related entity, e.g. lead
+ * @param intersect Intersect entity, e.g. accountleads
+ * @param primaryKey Primary key of this entity, e.g. accountid
+ * @param relatedKey Primary key of the related entity, e.g. leadid
+ */
+export function manyToMany<U = any>(entity: string, intersect: string, primaryKey: string, relatedKey: string): Relationship<U> {
+    return {
+        entity,
+        from: relatedKey,
+        to: relatedKey,
+        collection: true,
+        intersect: { entity: intersect, from: primaryKey, to: primaryKey }
+    };
+}
+
+/**
+ * Create the link entities of a relationship. Many-to-many relationships
+ * produce a hidden intersect link with the related entity nested below it.
+ * Returns the link to add to the parent and the link of the related entity.
+ */
+export function createRelationshipLinks(
+    relationship: RelationshipDefinition,
+    alias?: string,
+    linkType?: LinkType
+): { link: LinkEntity; related: LinkEntity } {
+    Validator.validateEntityName(relationship.entity);
+    Validator.validateAttributeName(relationship.from);
+    Validator.validateAttributeName(relationship.to);
+    if (linkType) Validator.validateLinkType(linkType);
+
+    const related: LinkEntity = {
+        name: relationship.entity,
+        from: relationship.from,
+        to: relationship.to,
+        alias,
+        attributes: []
+    };
+
+    if (!relationship.intersect) {
+        related.linkType = linkType;
+        return { link: related, related };
+    }
+
+    const { intersect } = relationship;
+
+    Validator.validateEntityName(intersect.entity);
+    Validator.validateAttributeName(intersect.from);
+    Validator.validateAttributeName(intersect.to);
+
+    // An outer join has to be outer on both levels to keep records without related rows
+    if (linkType === 'outer') related.linkType = linkType;
+
+    const link: LinkEntity = {
+        name: intersect.entity,
+        from: intersect.from,
+        to: intersect.to,
+        linkType,
+        intersect: true,
+        visible: false,
+        attributes: [],
+        links: [related]
+    };
+
+    return { link, related };
+}
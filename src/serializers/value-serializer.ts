@@ -0,0 +1,146 @@
+import { EntityReference, FilterOperator, SerializedValue, SerializationContext, CustomSerializer } from '../types';
+import { ValidationError } from '../errors';
+import { Logger } from '../logger';
+import { calendarDate, isGuid } from '../utils';
+
+/** Operators comparing the date part only */
+const DATE_ONLY_OPERATORS: FilterOperator[] = ['on', 'on-or-before', 'on-or-after'];
+
+/** Currency columns store at most four decimal places */
+const MONEY_PRECISION = 4;
+
+/**
+ * Value Serializer
+ * Converts condition values to their FetchXML representation. Custom
+ * serializers can be registered per entity attribute.
+ */
+export class ValueSerializer {
+    private static logger = Logger.getInstance();
+    private static serializers = new Map<string, CustomSerializer>();
+    private static timeZone?: string;
+
+    /**
+     * Use a custom serializer for an attribute instead of the built-in conversion
+     */
+    public static register(entityName: string, attribute: string, serializer: CustomSerializer): void {
+        this.serializers.set(`${entityName}.${attribute}`, serializer);
+    }
+
+    public static unregister(entityName: string, attribute: string): void {
+        this.serializers.delete(`${entityName}.${attribute}`);
+    }
+
+    public static clear(): void {
+        this.serializers.clear();
+    }
+
+    /**
+     * Time zone of the calendar dates written for date-only operators, an
+     * IANA name such as Europe/Berlin. Without one the local time zone is used.
+     */
+    public static useTimeZone(timeZone?: string): void {
+        if (timeZone !== undefined) {
+            try {
+                new Intl.DateTimeFormat('en-US', { timeZone });
+            } catch {
+                this.logger.error('Invalid time zone', { timeZone });
+                throw new ValidationError(`Invalid time zone ${timeZone}`, 'timeZone');
+            }
+        }
+
+        this.timeZone = timeZone;
+    }
+
+    /**
+     * Calendar date of a date as yyyy-mm-dd in the configured time zone
+     */
+    public static calendarDate(value: Date): string {
+        return calendarDate(value, this.timeZone);
+    }
+
+    /**
+     * Serialize a single condition value
+     */
+    public static serialize(value: any, context: SerializationContext): SerializedValue {
+        const custom = this.serializers.get(`${context.entityName}.${context.attribute}`);
+
+        if (custom) {
+            const serialized = custom(value, context);
+            return typeof serialized === 'string' ? { value: serialized } : serialized;
+        }
+
+        if (value instanceof Date) return { value: this.serializeDate(value, context) };
+        if (typeof value === 'boolean') return { value: value ? '1' : '0' };
+        if (typeof value === 'number') return { value: this.serializeNumber(value, context) };
+        if (this.isEntityReference(value)) return this.serializeReference(value, context);
+
+        if (value !== null && typeof value === 'object') {
+            this.fail(`Cannot serialize value ${JSON.stringify(value)}`, context);
+        }
+
+        if (context.type === 'guid' || context.type === 'lookup') return { value: this.serializeGuid(String(value), context) };
+
+        return { value: String(value) };
+    }
+
+    /**
+     * Dates are sent as full ISO 8601 in UTC, except for operators that compare
+     * the date part only, which get the calendar date as yyyy-mm-dd
+     */
+    private static serializeDate(value: Date, context: SerializationContext): string {
+        if (isNaN(value.getTime())) this.fail('Invalid date', context);
+
+        if (!DATE_ONLY_OPERATORS.includes(context.operator)) return value.toISOString();
+
+        return this.calendarDate(value);
+    }
+
+    /**
+     * Numbers are written without exponent notation, which Dataverse rejects
+     */
+    private static serializeNumber(value: number, context: SerializationContext): string {
+        if (!Number.isFinite(value)) this.fail(`Invalid number ${value}`, context);
+
+        const { type } = context;
+
+        if ((type === 'integer' || type === 'choice' || type === 'multichoice') && !Number.isInteger(value)) {
+            this.fail(`Expected a whole number but got ${value}`, context);
+        }
+
+        const number = type === 'money' ? Number(value.toFixed(MONEY_PRECISION)) : value;
+        const text = number.toString();
+
+        return text.includes('e') ? number.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 }) : text;
+    }
+
+    /**
+     * Lookup values carry the referenced entity and its name as uitype and uiname
+     */
+    private static serializeReference(reference: EntityReference, context: SerializationContext): SerializedValue {
+        const serialized: SerializedValue = { value: this.serializeGuid(reference.id, context) };
+
+        if (reference.name !== undefined) serialized.uiname = reference.name;
+        if (reference.logicalName !== undefined) serialized.uitype = reference.logicalName;
+
+        return serialized;
+    }
+
+    /**
+     * Validate a GUID and remove its braces
+     */
+    private static serializeGuid(value: string, context: SerializationContext): string {
+        const guid = value.trim();
+
+        if (!isGuid(guid)) this.fail(`Invalid GUID ${value}`, context);
+        return guid.replace(/^\{(.*)\}$/, '$1');
+    }
+
+    private static isEntityReference(value: any): value is EntityReference {
+        return value !== null && typeof value === 'object' && !Array.isArray(value) && typeof value.id === 'string';
+    }
+
+    private static fail(message: string, context: SerializationContext): never {
+        this.logger.error('Failed to serialize value', { entityName: context.entityName, attribute: context.attribute, error: message });
+        throw new ValidationError(`${message} for ${context.entityName}.${context.attribute}`, 'value');
+    }
+}
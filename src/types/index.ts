@@ -5,14 +5,21 @@
 export type FilterOperator =
     | "eq" // Equal to
     | "ne" // Not equal to
+    | "neq" // Not equal to (legacy)
     | "gt" // Greater than
     | "ge" // Greater than or equal to
     | "lt" // Less than
     | "le" // Less than or equal to
     | "like" // Contains
     | "not-like" // Does not contain
+    | "begins-with"
+    | "not-begin-with"
+    | "ends-with"
+    | "not-end-with"
     | "in"
     | "not-in"
+    | "between"
+    | "not-between"
     | "null"
     | "not-null"
     | "on"
@@ -31,7 +38,147 @@ export type FilterOperator =
     | "next-month"
     | "last-year"
     | "this-year"
-    | "next-year";
+    | "next-year"
+    | "last-x-hours"
+    | "next-x-hours"
+    | "last-x-days"
+    | "next-x-days"
+    | "last-x-weeks"
+    | "next-x-weeks"
+    | "last-x-months"
+    | "next-x-months"
+    | "last-x-years"
+    | "next-x-years"
+    | "olderthan-x-minutes"
+    | "olderthan-x-hours"
+    | "olderthan-x-days"
+    | "olderthan-x-weeks"
+    | "olderthan-x-months"
+    | "olderthan-x-years"
+    | "this-fiscal-year"
+    | "this-fiscal-period"
+    | "next-fiscal-year"
+    | "next-fiscal-period"
+    | "last-fiscal-year"
+    | "last-fiscal-period"
+    | "last-x-fiscal-years"
+    | "last-x-fiscal-periods"
+    | "next-x-fiscal-years"
+    | "next-x-fiscal-periods"
+    | "in-fiscal-year"
+    | "in-fiscal-period"
+    | "in-fiscal-period-and-year"
+    | "in-or-before-fiscal-period-and-year"
+    | "in-or-after-fiscal-period-and-year"
+    | "eq-userid"
+    | "ne-userid"
+    | "eq-userteams"
+    | "eq-useroruserteams"
+    | "eq-useroruserhierarchy"
+    | "eq-useroruserhierarchyandteams"
+    | "eq-businessid"
+    | "ne-businessid"
+    | "eq-userlanguage"
+    | "under"
+    | "eq-or-under"
+    | "not-under"
+    | "above"
+    | "eq-or-above"
+    | "contain-values"
+    | "not-contain-values";
+
+export type ColumnOperator = Extract<FilterOperator, "eq" | "ne" | "neq" | "gt" | "ge" | "lt" | "le">;
+
+/**
+ * Column reference for column comparisons, either a plain attribute
+ * or an attribute of a link entity in the form "alias.attribute"
+ */
+export type ColumnReference<T> = keyof T | `${string}.${string}`;
+
+/**
+ * Link entity column in the form "alias.attribute"
+ */
+export type AliasedColumn = `${string}.${string}`;
+
+/**
+ * Operators that take no value, e.g. null, today, eq-userid
+ */
+export type NoValueOperator = Extract<FilterOperator,
+    | "null" | "not-null"
+    | "yesterday" | "today" | "tomorrow" | "last-seven-days" | "next-seven-days"
+    | "last-week" | "this-week" | "next-week" | "last-month" | "this-month" | "next-month"
+    | "last-year" | "this-year" | "next-year"
+    | "this-fiscal-year" | "this-fiscal-period" | "next-fiscal-year" | "next-fiscal-period"
+    | "last-fiscal-year" | "last-fiscal-period"
+    | "eq-userid" | "ne-userid" | "eq-userteams" | "eq-useroruserteams" | "eq-useroruserhierarchy"
+    | "eq-useroruserhierarchyandteams" | "eq-businessid" | "ne-businessid" | "eq-userlanguage">;
+
+/**
+ * Operators that take a whole number, e.g. last-x-days
+ */
+export type CountOperator = Extract<FilterOperator,
+    | "last-x-hours" | "next-x-hours" | "last-x-days" | "next-x-days" | "last-x-weeks" | "next-x-weeks"
+    | "last-x-months" | "next-x-months" | "last-x-years" | "next-x-years"
+    | "olderthan-x-minutes" | "olderthan-x-hours" | "olderthan-x-days" | "olderthan-x-weeks"
+    | "olderthan-x-months" | "olderthan-x-years"
+    | "last-x-fiscal-years" | "last-x-fiscal-periods" | "next-x-fiscal-years" | "next-x-fiscal-periods"
+    | "in-fiscal-year" | "in-fiscal-period">;
+
+/**
+ * Operators that take an array of values
+ */
+export type MultiValueOperator = Extract<FilterOperator, "in" | "not-in" | "contain-values" | "not-contain-values">;
+
+/**
+ * Operators that take a fiscal period and a fiscal year
+ */
+export type FiscalRangeOperator = Extract<FilterOperator,
+    "in-fiscal-period-and-year" | "in-or-before-fiscal-period-and-year" | "in-or-after-fiscal-period-and-year">;
+
+/**
+ * Operators that take a lower and an upper bound
+ */
+export type RangeOperator = Extract<FilterOperator, "between" | "not-between">;
+
+/**
+ * Operators that only apply to date attributes
+ */
+export type DateOperator =
+    | Extract<FilterOperator,
+        | "on" | "on-or-before" | "on-or-after"
+        | "yesterday" | "today" | "tomorrow" | "last-seven-days" | "next-seven-days"
+        | "last-week" | "this-week" | "next-week" | "last-month" | "this-month" | "next-month"
+        | "last-year" | "this-year" | "next-year"
+        | "this-fiscal-year" | "this-fiscal-period" | "next-fiscal-year" | "next-fiscal-period"
+        | "last-fiscal-year" | "last-fiscal-period">
+    | CountOperator
+    | FiscalRangeOperator;
+
+/**
+ * Value accepted for an attribute of type V. Dates may also be passed
+ * as ISO strings and lookups as the id of the referenced record.
+ */
+export type AttributeValue<V> =
+    V extends Date ? Date | string :
+    V extends EntityReference ? EntityReference | string :
+    V extends (infer E)[] ? E :
+    V;
+
+/**
+ * Operators that can be used on an attribute of type V
+ */
+export type OperatorFor<V> = [NonNullable<V>] extends [Date] ? FilterOperator : Exclude<FilterOperator, DateOperator>;
+
+/**
+ * Value arguments of where() for an attribute of type V and operator O
+ */
+export type ConditionArgs<V, O extends FilterOperator> =
+    O extends NoValueOperator ? [] :
+    O extends CountOperator ? [value: number] :
+    O extends MultiValueOperator ? [value: AttributeValue<V>[]] :
+    O extends FiscalRangeOperator ? [value: [period: number, year: number]] :
+    O extends RangeOperator ? [value: [from: AttributeValue<V>, to: AttributeValue<V>]] :
+    [value: AttributeValue<V>];
 
 export type OrderType = "asc" | "desc";
 
@@ -43,52 +190,292 @@ export type AggregateType =
     | "min"
     | "max";
 
+export type DateGrouping =
+    | "day"
+    | "week"
+    | "month"
+    | "quarter"
+    | "year"
+    | "fiscal-period"
+    | "fiscal-year";
+
 export interface FilterCondition {
     attribute: string;
     operator: FilterOperator;
     value?: any;
+    valueof?: string;
+    entityname?: string;
 }
 
+export type FilterType = "and" | "or";
+
 export interface FilterGroup {
-    type: "and" | "or";
+    type: FilterType;
     conditions: (FilterCondition | FilterGroup)[];
+    links?: LinkEntity[]; // any, not any, all and not all links combined with the conditions
 }
 
 export interface OrderBy {
-    attribute: string;
+    attribute?: string;
+    alias?: string;
+    entityname?: string;
     order: OrderType;
 }
 
 export interface Attribute {
     name: string;
     alias?: string;
+    groupby?: boolean;
+    dategrouping?: DateGrouping;
+    usertimezone?: boolean;
 }
 
 export interface AggregateAttribute extends Attribute {
     aggregate: AggregateType;
 }
 
+export interface GroupByOptions {
+    alias?: string;
+    dateGrouping?: DateGrouping;
+    userTimeZone?: boolean;
+}
+
+export type LinkType =
+    | "inner"
+    | "outer"
+    | "exists" // Semi-join, filters parents without returning columns
+    | "in" // Semi-join, filters parents without returning columns
+    | "any" // Rendered inside the parent filter
+    | "not any" // Rendered inside the parent filter
+    | "all" // Rendered inside the parent filter
+    | "not all" // Rendered inside the parent filter
+    | "matchfirstrowusingcrossapply"; // Returns columns of the first matching row only
+
 export interface LinkEntity {
     name: string;
     from: string;
     to: string;
     alias?: string;
-    linkType?: "inner" | "outer";
+    linkType?: LinkType;
+    intersect?: boolean;
+    visible?: boolean;
+    allAttributes?: boolean; // <all-attributes/>, returns every column of the link entity
     attributes: (Attribute | AggregateAttribute)[];
     filters?: FilterGroup;
+    orders?: OrderBy[];
     links?: LinkEntity[];
 }
 
 export interface FetchQuery {
     entity: string;
+    allAttributes?: boolean; // <all-attributes/>, returns every column of the entity
     attributes: (Attribute | AggregateAttribute)[];
     filters?: FilterGroup;
     orders?: OrderBy[];
     links?: LinkEntity[];
     distinct?: boolean;
+    aggregate?: boolean;
     top?: number;
     page?: number;
     count?: number;
+    pagingCookie?: string;
+    returnTotalRecordCount?: boolean;
+    noLock?: boolean;
+}
+
+/**
+ * Output options of build()
+ */
+export interface BuildOptions {
+    /** Put each element on its own line */
+    pretty?: boolean;
+    /** Indentation of pretty output, a number of spaces or a whitespace string, defaults to 2 spaces */
+    indent?: number | string;
+    /** Sort attributes by name and normalize boolean values so that equivalent queries produce identical output */
+    canonical?: boolean;
+}
+
+/**
+ * Web API query options of a query, see ODataBuilder
+ */
+export interface ODataQueryOptions {
+    $select?: string;
+    $filter?: string;
+    $orderby?: string;
+    $expand?: string;
+    $top?: number;
+    $apply?: string;
+    $count?: boolean;
+}
+
+/**
+ * T-SQL statement of a query with its parameter values by name, see SqlBuilder
+ */
+export interface SqlQuery {
+    sql: string;
+    parameters: Record<string, unknown>;
+}
+
+/**
+ * Records of an in-memory data set keyed by entity name, see InMemoryEngine
+ */
+export type InMemoryData = Record<string, Record<string, any>[]>;
+
+export interface InMemoryEngineOptions {
+    /** Reference time of relative date operators, defaults to the current time */
+    now?: Date;
+    /** Current user for eq-userid and ne-userid */
+    userId?: string;
+    /** Business unit of the current user for eq-businessid and ne-businessid */
+    businessUnitId?: string;
+}
+
+export interface EntityReference {
+    id: string;
+    logicalName?: string;
+    name?: string;
+}
+
+export type FormattedValues = Record<string, string>;
+
+export type AttributeType =
+    | "string"
+    | "integer"
+    | "decimal"
+    | "money"
+    | "boolean"
+    | "datetime"
+    | "lookup"
+    | "choice"
+    | "multichoice"
+    | "guid";
+
+/**
+ * Attribute types per entity, e.g. { account: { name: "string", revenue: "money" } }
+ */
+export type MetadataDefinition = Record<string, Record<string, AttributeType>>;
+
+export interface EntityOptions {
+    /** Primary key attribute, defaults to the entity name followed by "id" */
+    primaryId?: string;
+    /** Web API entity set name */
+    entitySet?: string;
+}
+
+export interface ColumnOptions {
+    type?: AttributeType;
+}
+
+export interface ColumnDefinition {
+    name: string;
+    type?: AttributeType;
+}
+
+/**
+ * Runtime schema of an entity declared with @Entity and @Column
+ */
+export interface EntityDefinition extends EntityOptions {
+    logicalName: string;
+    columns: Record<string, ColumnDefinition>;
+}
+
+export type EntityClass<T = any> = abstract new (...args: any[]) => T;
+
+/**
+ * Condition value as rendered in FetchXML, uiname and uitype are set for lookups
+ */
+export interface SerializedValue {
+    value: string;
+    uiname?: string;
+    uitype?: string;
+}
+
+export interface SerializationContext {
+    entityName: string;
+    attribute: string;
+    operator: FilterOperator;
+    type?: AttributeType;
+}
+
+export type CustomSerializer = (value: any, context: SerializationContext) => string | SerializedValue;
+
+/**
+ * Relationship between two entities, in FetchXML link-entity terms:
+ * "from" is the attribute of the related entity, "to" the attribute of this entity.
+ * Many-to-many relationships link through an intersect entity, "to" is then
+ * the attribute of the intersect entity.
+ */
+export interface RelationshipDefinition {
+    entity: string;
+    from: string;
+    to: string;
+    collection: boolean;
+    intersect?: IntersectDefinition;
+}
+
+/**
+ * Intersect entity of a many-to-many relationship: "from" is the attribute
+ * of the intersect entity, "to" the attribute of this entity
+ */
+export interface IntersectDefinition {
+    entity: string;
+    from: string;
+    to: string;
+}
+
+/**
+ * Relationship to records of type U. U only exists at compile time.
+ */
+export interface Relationship<U = any> extends RelationshipDefinition {
+    readonly __related?: U;
+}
+
+/**
+ * Record type of a relationship, any when it is not typed
+ */
+export type RelatedEntity<R> = R extends { readonly __related?: infer U } ? (unknown extends U ? any : U) : any;
+
+/**
+ * Relationships declared on an entity class
+ */
+export type RelationshipsOf<E> = E extends { relationships?: infer R } ? NonNullable<R> : never;
+
+export interface EntityCollection<R = any> {
+    entityName?: string;
+    records: R[];
+    moreRecords: boolean;
+    pagingCookie?: string;
+    totalRecordCount?: number;
+    totalRecordCountLimitExceeded?: boolean;
+}
+
+export type HttpMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+export interface HttpRequest {
+    method: HttpMethod;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+export interface HttpResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+}
+
+export interface HttpTransport {
+    send(request: HttpRequest): Promise<HttpResponse>;
+}
+
+export type TokenProvider = () => string | Promise<string>;
+
+export interface DataverseClientOptions {
+    url: string;
+    apiVersion?: string;
+    transport?: HttpTransport;
+    tokenProvider?: TokenProvider;
+    headers?: Record<string, string>;
 }
 
 export interface LoggerConfig {
@@ -0,0 +1,79 @@
+import { FilterGroup, LinkEntity } from '../types';
+
+/**
+ * Deep copy plain objects, arrays and dates. Other values are returned as is.
+ */
+export function deepClone<V>(value: V): V {
+    if (Array.isArray(value)) {
+        return value.map(item => deepClone(item)) as unknown as V;
+    }
+
+    if (value instanceof Date) {
+        return new Date(value.getTime()) as unknown as V;
+    }
+
+    if (value !== null && typeof value === 'object') {
+        const copy: Record<string, unknown> = {};
+
+        for (const [key, item] of Object.entries(value)) {
+            copy[key] = deepClone(item);
+        }
+
+        return copy as V;
+    }
+
+    return value;
+}
+
+const GUID_PATTERN = /^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i;
+
+/**
+ * Check for a GUID, with or without (matching) braces
+ */
+export function isGuid(value: string): boolean {
+    const braced = /^\{(.*)\}$/.exec(value);
+    return GUID_PATTERN.test(braced ? braced[1] : value);
+}
+
+/**
+ * Calendar date of an instant as yyyy-mm-dd, in the given IANA time zone or
+ * the local time zone of the process
+ */
+export function calendarDate(value: Date, timeZone?: string): string {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).formatToParts(value);
+    const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(item => item.type === type)!.value;
+
+    return `${part('year').padStart(4, '0')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Escape XML special characters
+ */
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Links of an entity or link entity, including those placed in its filter groups
+ */
+export function entityLinks(target: { filters?: FilterGroup; links?: LinkEntity[] }): LinkEntity[] {
+    const links = [...(target.links ?? [])];
+
+    const collect = (filter?: FilterGroup): void => {
+        if (!filter) return;
+
+        links.push(...(filter.links ?? []));
+
+        for (const condition of filter.conditions) {
+            if ('type' in condition) collect(condition);
+        }
+    };
+
+    collect(target.filters);
+    return links;
+}
@@ -1,12 +1,42 @@
-import { FilterOperator, OrderType, AggregateType } from '../types';
-import { ValidationError } from '../errors';
+import {
+    FilterOperator,
+    FilterType,
+    FilterGroup,
+    FilterCondition,
+    ColumnOperator,
+    OrderType,
+    OrderBy,
+    AggregateType,
+    DateGrouping,
+    GroupByOptions,
+    FetchQuery,
+    LinkEntity,
+    LinkType,
+    Attribute,
+    AttributeType
+} from '../types';
+import { ValidationError, AttributeError } from '../errors';
+import { OPERATORS, COLUMN_OPERATORS, isFilterOperator, isOperatorSupported } from '../operators';
+import { MetadataRegistry } from '../metadata/metadata-registry';
+import { EntitySchema } from '../metadata/entity-schema';
 import { Logger } from '../logger';
+import { isGuid, entityLinks } from '../utils';
 
 /**
  * Validation utilities
  */
 export class Validator {
     private static logger = Logger.getInstance();
+    private static metadataRegistry?: MetadataRegistry;
+
+    /** Entities already reported as having no metadata */
+    private static unvalidatedEntities = new Set<string>();
+
+    private static LINK_TYPES: LinkType[] = [
+        'inner', 'outer', 'exists', 'in', 'any', 'not any', 'all', 'not all', 'matchfirstrowusingcrossapply'
+    ];
+    private static FILTER_ONLY_LINK_TYPES: LinkType[] = ['exists', 'in', 'any', 'not any', 'all', 'not all'];
+    private static FILTER_GROUP_LINK_TYPES: LinkType[] = ['any', 'not any', 'all', 'not all'];
 
     private static MAX_PAGE_SIZE = 5000;
     private static MAX_TOP_SIZE = 5000;
@@ -17,16 +47,7 @@ export class Validator {
      * Validate filter operator
      */
     public static validateFilterOperator(operator: string): FilterOperator {
-        const validOperators: FilterOperator[] = [
-            'eq', 'ne', 'gt', 'ge', 'lt', 'le', 'like', 'not-like',
-            'in', 'not-in', 'null', 'not-null', 'on', 'on-or-before',
-            'on-or-after', 'yesterday', 'today', 'tomorrow',
-            'last-seven-days', 'next-seven-days', 'last-week',
-            'this-week', 'next-week', 'last-month', 'this-month',
-            'next-month', 'last-year', 'this-year', 'next-year'
-        ];
-
-        if (!validOperators.includes(operator as FilterOperator)) {
+        if (!isFilterOperator(operator)) {
             this.logger.error(`Invalid filter operator: ${operator}`);
             throw new ValidationError(`Invalid filter operator: ${operator}`, 'operator');
         }
@@ -34,6 +55,132 @@ export class Validator {
         return operator as FilterOperator;
     }
 
+    /**
+     * Validate operator used for a column comparison
+     */
+    public static validateColumnOperator(operator: string): ColumnOperator {
+        if (!COLUMN_OPERATORS.includes(operator as ColumnOperator)) {
+            this.logger.error(`Invalid column comparison operator: ${operator}`);
+            throw new ValidationError(`Operator ${operator} cannot be used to compare columns`, 'operator');
+        }
+        return operator as ColumnOperator;
+    }
+
+    /**
+     * Validate column reference of a column comparison
+     */
+    public static validateColumnReference(reference: string): void {
+        this.validateAttributeName(reference);
+
+        const parts = reference.split('.');
+        if (parts.length > 2 || parts.some(part => part.trim() === '')) {
+            this.logger.error(`Invalid column reference: ${reference}`);
+            throw new ValidationError(`Invalid column reference: ${reference}`, 'valueof');
+        }
+    }
+
+    /**
+     * Validate that aliases referenced by column comparisons and
+     * cross-entity conditions exist in the query
+     */
+    public static validateQueryReferences(query: FetchQuery): void {
+        const aliases = this.collectLinkAliases(entityLinks(query));
+
+        const check = (filter?: FilterGroup): void => {
+            if (!filter) return;
+
+            for (const condition of filter.conditions) {
+                if ('type' in condition) {
+                    check(condition);
+                    continue;
+                }
+
+                if (condition.entityname && !aliases.has(condition.entityname)) {
+                    this.logger.error(`Unknown alias in condition: ${condition.entityname}`);
+                    throw new ValidationError(`Condition references unknown alias: ${condition.entityname}`, 'entityname');
+                }
+
+                if (condition.valueof && condition.valueof.includes('.')) {
+                    const alias = condition.valueof.split('.')[0];
+
+                    if (!aliases.has(alias)) {
+                        this.logger.error(`Unknown alias in column comparison: ${alias}`);
+                        throw new ValidationError(`Column comparison references unknown alias: ${alias}`, 'valueof');
+                    }
+                }
+            }
+        };
+
+        const walk = (links: LinkEntity[]): void => {
+            for (const link of links) {
+                check(link.filters);
+                walk(entityLinks(link));
+            }
+        };
+
+        check(query.filters);
+        walk(entityLinks(query));
+    }
+
+    /**
+     * Validate filter group type
+     */
+    public static validateFilterType(type: string): FilterType {
+        const validTypes: FilterType[] = ['and', 'or'];
+
+        if (!validTypes.includes(type as FilterType)) {
+            this.logger.error(`Invalid filter type: ${type}`);
+            throw new ValidationError(`Invalid filter type: ${type}`, 'type');
+        }
+        return type as FilterType;
+    }
+
+    /**
+     * Validate condition value against the arity of its operator
+     */
+    public static validateConditionValue(operator: FilterOperator, value?: any): void {
+        const kind = OPERATORS[operator].value;
+        const hasValue = value !== undefined && value !== null;
+
+        switch (kind) {
+            case 'none':
+                if (hasValue) {
+                    this.logger.error(`Operator ${operator} does not take a value`);
+                    throw new ValidationError(`Operator ${operator} does not take a value`, 'value');
+                }
+                break;
+            case 'single':
+                if (!hasValue || Array.isArray(value)) {
+                    this.logger.error(`Operator ${operator} requires a single value`);
+                    throw new ValidationError(`Operator ${operator} requires a single value`, 'value');
+                }
+                break;
+            case 'integer':
+                if (!Number.isInteger(value) || value < 0) {
+                    this.logger.error(`Operator ${operator} requires a whole number`);
+                    throw new ValidationError(`Operator ${operator} requires a non-negative whole number`, 'value');
+                }
+                break;
+            case 'multiple':
+                if (!Array.isArray(value) || value.length === 0) {
+                    this.logger.error(`Operator ${operator} requires at least one value`);
+                    throw new ValidationError(`Operator ${operator} requires an array with at least one value`, 'value');
+                }
+                break;
+            case 'range':
+                if (!Array.isArray(value) || value.length !== 2) {
+                    this.logger.error(`Operator ${operator} requires exactly two values`);
+                    throw new ValidationError(`Operator ${operator} requires an array with exactly two values`, 'value');
+                }
+                break;
+        }
+
+        if (Array.isArray(value) && value.some(item => item === undefined || item === null)) {
+            this.logger.error(`Operator ${operator} received an empty value`);
+            throw new ValidationError(`Values for operator ${operator} cannot be null or undefined`, 'value');
+        }
+    }
+
     /**
      * Validate order type
      */
@@ -47,6 +194,115 @@ export class Validator {
         return order as OrderType;
     }
 
+    /**
+     * Validate that an order targets either an attribute or an alias
+     */
+    public static validateOrder(order: OrderBy): void {
+        if (order.attribute && order.alias) {
+            this.logger.error('Order cannot set both attribute and alias', { attribute: order.attribute, alias: order.alias });
+            throw new ValidationError('Order cannot set both attribute and alias', 'order');
+        }
+
+        if (!order.attribute && !order.alias) {
+            this.logger.error('Order requires an attribute or an alias');
+            throw new ValidationError('Order requires an attribute or an alias', 'order');
+        }
+
+        if (order.alias && order.entityname) {
+            this.logger.error('Order on alias cannot set entityname', { alias: order.alias });
+            throw new ValidationError('Order on alias cannot set entityname', 'order');
+        }
+
+        this.validateOrderType(order.order);
+    }
+
+    /**
+     * Validate orders of a query and its link entities against the
+     * attribute aliases and link aliases declared in the query
+     */
+    public static validateOrders(query: FetchQuery): void {
+        const linkAliases = this.collectLinkAliases(entityLinks(query));
+        const attributeAliases = new Set<string>();
+
+        const collect = (attributes: { alias?: string }[], links?: LinkEntity[]): void => {
+            for (const attr of attributes) {
+                if (attr.alias) attributeAliases.add(attr.alias);
+            }
+
+            for (const link of links ?? []) {
+                collect(link.attributes, link.links);
+            }
+        };
+
+        const check = (orders?: OrderBy[]): void => {
+            for (const order of orders ?? []) {
+                this.validateOrder(order);
+
+                if (order.alias && !attributeAliases.has(order.alias)) {
+                    this.logger.error(`Unknown alias in order: ${order.alias}`);
+                    throw new ValidationError(`Order references unknown attribute alias: ${order.alias}`, 'alias');
+                }
+
+                if (order.entityname && !linkAliases.has(order.entityname)) {
+                    this.logger.error(`Unknown link alias in order: ${order.entityname}`);
+                    throw new ValidationError(`Order references unknown alias: ${order.entityname}`, 'entityname');
+                }
+            }
+        };
+
+        const walk = (links: LinkEntity[]): void => {
+            for (const link of links) {
+                check(link.orders);
+                walk(entityLinks(link));
+            }
+        };
+
+        collect(query.attributes, query.links);
+        check(query.orders);
+        walk(entityLinks(query));
+    }
+
+    /**
+     * Validate the attributes of an aggregate query, i.e. one with aggregate
+     * set or a grouped attribute: every attribute of the entity and its links
+     * must be grouped or aggregated and have an alias
+     */
+    public static validateAggregateAttributes(query: FetchQuery): void {
+        const links = (target: FetchQuery | LinkEntity): LinkEntity[] =>
+            entityLinks(target).flatMap(link => [link, ...links(link)]);
+
+        const targets: [string, FetchQuery | LinkEntity][] = [
+            [query.entity, query],
+            ...links(query).map((link): [string, LinkEntity] => [link.alias ?? link.name, link])
+        ];
+
+        const grouped = targets.some(([, target]) => target.attributes.some(attr => attr.groupby));
+        if (!query.aggregate && !grouped) return;
+
+        for (const [entityName, target] of targets) {
+            if (target.allAttributes) {
+                this.logger.error('all-attributes in aggregate query', { entityName });
+                throw new ValidationError(`Aggregate query cannot select all attributes of ${entityName}`, 'attributes');
+            }
+
+            for (const attr of target.attributes) {
+                const aggregated = 'aggregate' in attr && attr.aggregate !== undefined;
+
+                if (!aggregated && !attr.groupby) {
+                    this.logger.error('Plain attribute in aggregate query', { entityName, attribute: attr.name });
+                    throw new ValidationError(`Attribute ${entityName}.${attr.name} must be grouped or aggregated in an aggregate query`, 'attributes');
+                }
+
+                if (!attr.alias) {
+                    const kind = aggregated ? 'Aggregate' : 'Grouped';
+
+                    this.logger.error(`${kind} attribute without alias`, { entityName, attribute: attr.name });
+                    throw new ValidationError(`${kind} attribute ${entityName}.${attr.name} requires an alias`, 'alias');
+                }
+            }
+        }
+    }
+
     /**
      * Validate aggregate type
      */
@@ -60,6 +316,34 @@ export class Validator {
         return aggregate as AggregateType;
     }
 
+    /**
+     * Validate date grouping
+     */
+    public static validateDateGrouping(dateGrouping: string): DateGrouping {
+        const validGroupings: DateGrouping[] = [
+            'day', 'week', 'month', 'quarter', 'year', 'fiscal-period', 'fiscal-year'
+        ];
+
+        if (!validGroupings.includes(dateGrouping as DateGrouping)) {
+            this.logger.error(`Invalid date grouping: ${dateGrouping}`);
+            throw new ValidationError(`Invalid date grouping: ${dateGrouping}`, 'dategrouping');
+        }
+        return dateGrouping as DateGrouping;
+    }
+
+    /**
+     * Validate group by options
+     */
+    public static validateGroupByOptions(options: GroupByOptions): void {
+        if (options.alias !== undefined) this.validateAttributeName(options.alias);
+        if (options.dateGrouping !== undefined) this.validateDateGrouping(options.dateGrouping);
+
+        if (options.userTimeZone !== undefined && options.dateGrouping === undefined) {
+            this.logger.error('usertimezone requires a date grouping');
+            throw new ValidationError('usertimezone can only be set together with a date grouping', 'usertimezone');
+        }
+    }
+
     /**
      * Validate attribute name
      */
@@ -70,6 +354,75 @@ export class Validator {
         }
     }
 
+    /**
+     * Validate link type
+     */
+    public static validateLinkType(linkType: string): LinkType {
+        if (!this.LINK_TYPES.includes(linkType as LinkType)) {
+            this.logger.error(`Invalid link type: ${linkType}`);
+            throw new ValidationError(`Invalid link type: ${linkType}`, 'linkType');
+        }
+        return linkType as LinkType;
+    }
+
+    /**
+     * Check whether a link type can return columns
+     */
+    private static linkTypeReturnsColumns(linkType?: LinkType): boolean {
+        return !linkType || !this.FILTER_ONLY_LINK_TYPES.includes(linkType);
+    }
+
+    /**
+     * Validate that a link entity may select attributes
+     */
+    public static validateLinkSelectable(link: LinkEntity): void {
+        if (!this.linkTypeReturnsColumns(link.linkType)) {
+            this.logger.error(`Cannot select attributes in ${link.linkType} link`, { entityName: link.name });
+            throw new ValidationError(`Link type "${link.linkType}" cannot return attributes (${link.name})`, 'attributes');
+        }
+    }
+
+    /**
+     * Validate link entities of a query. Links that only filter parents,
+     * and any link nested below them, cannot select attributes. Links
+     * inside filter groups must be of type any, not any, all or not all.
+     */
+    public static validateLinkEntities(query: FetchQuery): void {
+        const checkGroup = (filter?: FilterGroup): void => {
+            if (!filter) return;
+
+            for (const link of filter.links ?? []) {
+                if (!link.linkType || !this.FILTER_GROUP_LINK_TYPES.includes(link.linkType)) {
+                    this.logger.error('Invalid link type in filter group', { entityName: link.name, linkType: link.linkType });
+                    throw new ValidationError(`Link entity ${link.name} in a filter group must be of type ${this.FILTER_GROUP_LINK_TYPES.join(', ')}`, 'linkType');
+                }
+            }
+
+            for (const condition of filter.conditions) {
+                if ('type' in condition) checkGroup(condition);
+            }
+        };
+
+        const walk = (links: LinkEntity[], filterOnly: boolean): void => {
+            for (const link of links) {
+                if (link.linkType) this.validateLinkType(link.linkType);
+
+                const linkFilterOnly = filterOnly || !this.linkTypeReturnsColumns(link.linkType);
+
+                if (linkFilterOnly && link.attributes.length > 0) {
+                    this.logger.error('Attributes selected in filter-only link', { entityName: link.name });
+                    throw new ValidationError(`Link entity ${link.name} cannot return attributes because it is part of a filter-only link`, 'attributes');
+                }
+
+                checkGroup(link.filters);
+                walk(entityLinks(link), linkFilterOnly);
+            }
+        };
+
+        checkGroup(query.filters);
+        walk(entityLinks(query), false);
+    }
+
     /**
      * Validate entity name
      */
@@ -104,4 +457,193 @@ export class Validator {
             throw new ValidationError(`Top value must be between ${this.MIN_TOP_SIZE} and ${this.MAX_TOP_SIZE}`, 'top');
         }
     }
+
+    /**
+     * Validate the indentation of pretty output
+     */
+    public static validateIndent(indent: number | string): void {
+        const valid = typeof indent === 'number'
+            ? Number.isInteger(indent) && indent >= 0
+            : /^[ \t]*$/.test(indent);
+
+        if (!valid) {
+            this.logger.error(`Invalid indent: ${JSON.stringify(indent)}`);
+            throw new ValidationError('Indent must be a non-negative number of spaces or a string of spaces and tabs', 'indent');
+        }
+    }
+
+    /**
+     * Set the metadata registry consulted by validateQueryMetadata, or remove it
+     */
+    public static useMetadata(registry?: MetadataRegistry): void {
+        this.metadataRegistry = registry;
+        this.unvalidatedEntities.clear();
+    }
+
+    /**
+     * Type of an attribute from the metadata registry or from @Column declarations
+     */
+    public static getAttributeType(entityName: string, attribute: string): AttributeType | undefined {
+        return this.metadataRegistry?.getAttributeType(entityName, attribute) ?? EntitySchema.getColumnType(entityName, attribute);
+    }
+
+    /**
+     * Validate attributes, operators, values and join columns against the
+     * metadata registry and @Column declarations. Queries on entities without
+     * metadata are not validated; when a query mixes them with entities that
+     * have metadata, the others are skipped with one warning per entity.
+     */
+    public static validateQueryMetadata(query: FetchQuery): void {
+        const entities = new Set([query.entity]);
+        const aliases = new Map<string, string>();
+
+        const collect = (links: LinkEntity[]): void => {
+            for (const link of links) {
+                entities.add(link.name);
+                if (link.alias) aliases.set(link.alias, link.name);
+                collect(entityLinks(link));
+            }
+        };
+
+        collect(entityLinks(query));
+
+        if (![...entities].some(entityName => this.hasMetadata(entityName))) return;
+
+        const known = (entityName: string): boolean => {
+            if (this.hasMetadata(entityName)) return true;
+
+            if (!this.unvalidatedEntities.has(entityName)) {
+                this.unvalidatedEntities.add(entityName);
+                this.logger.warn(`No metadata for entity ${entityName}, skipping metadata validation`);
+            }
+            return false;
+        };
+
+        const attributeType = (entityName: string, attribute: string): AttributeType | undefined => {
+            if (!known(entityName)) return undefined;
+
+            if (!this.hasAttribute(entityName, attribute)) {
+                this.logger.error(`Unknown attribute: ${entityName}.${attribute}`);
+                throw new AttributeError(`Unknown attribute ${attribute} on entity ${entityName}`, attribute);
+            }
+            return this.getAttributeType(entityName, attribute);
+        };
+
+        const checkFilter = (entityName: string, filter?: FilterGroup): void => {
+            for (const condition of filter?.conditions ?? []) {
+                if ('type' in condition) {
+                    checkFilter(entityName, condition);
+                    continue;
+                }
+
+                const target = condition.entityname ? aliases.get(condition.entityname) ?? entityName : entityName;
+                const type = attributeType(target, condition.attribute);
+
+                if (condition.valueof) {
+                    const [alias, attribute] = condition.valueof.includes('.') ? condition.valueof.split('.') : [undefined, condition.valueof];
+                    attributeType(alias ? aliases.get(alias) ?? entityName : entityName, attribute);
+                }
+
+                if (!type) continue;
+
+                if (!isOperatorSupported(condition.operator, type)) {
+                    this.logger.error(`Operator ${condition.operator} not supported for ${type} attribute`, { entityName: target, attribute: condition.attribute });
+                    throw new ValidationError(`Operator ${condition.operator} cannot be used on ${type} attribute ${target}.${condition.attribute}`, 'operator');
+                }
+
+                if (!condition.valueof) this.validateValueType(target, condition.attribute, type, condition);
+            }
+        };
+
+        const checkEntity = (entityName: string, target: { attributes: Attribute[]; filters?: FilterGroup; orders?: OrderBy[]; links?: LinkEntity[] }): void => {
+            for (const attribute of target.attributes) {
+                attributeType(entityName, attribute.name);
+            }
+
+            checkFilter(entityName, target.filters);
+
+            for (const order of target.orders ?? []) {
+                if (order.attribute) attributeType(order.entityname ? aliases.get(order.entityname) ?? entityName : entityName, order.attribute);
+            }
+
+            for (const link of entityLinks(target)) {
+                if (known(link.name) && known(entityName)) this.validateJoinColumns(link, entityName);
+                checkEntity(link.name, link);
+            }
+        };
+
+        checkEntity(query.entity, query);
+    }
+
+    /**
+     * Validate that the join columns exist: as in FetchXML, "from" on the
+     * link entity and "to" on the parent
+     */
+    private static validateJoinColumns(link: LinkEntity, parentName: string): void {
+        if (this.hasAttribute(link.name, link.from) && this.hasAttribute(parentName, link.to)) return;
+
+        this.logger.error('Unknown join columns', { entityName: link.name, parentName, from: link.from, to: link.to });
+        throw new AttributeError(`Join columns from=${link.from} to=${link.to} do not exist on ${link.name} and ${parentName}`, link.from);
+    }
+
+    private static hasMetadata(entityName: string): boolean {
+        return !!this.metadataRegistry?.hasEntity(entityName) || EntitySchema.hasColumns(entityName);
+    }
+
+    private static hasAttribute(entityName: string, attribute: string): boolean {
+        return this.metadataRegistry?.getAttributeType(entityName, attribute) !== undefined || EntitySchema.hasColumn(entityName, attribute);
+    }
+
+    /**
+     * Validate that condition values match the attribute type. Operators
+     * without values or with counts (e.g. last-x-days) are skipped.
+     */
+    private static validateValueType(entityName: string, attribute: string, type: AttributeType, condition: FilterCondition): void {
+        const operator = OPERATORS[condition.operator];
+        if (operator.value === 'none' || operator.value === 'integer' || operator.category === 'fiscal') return;
+
+        const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+
+        for (const value of values) {
+            if (!this.isValueOfType(value, type)) {
+                this.logger.error(`Invalid value for ${type} attribute`, { entityName, attribute, value });
+                throw new ValidationError(`Value ${JSON.stringify(value)} is not valid for ${type} attribute ${entityName}.${attribute}`, 'value');
+            }
+        }
+    }
+
+    private static isValueOfType(value: any, type: AttributeType): boolean {
+        const numeric = (typeof value === 'number' && isFinite(value)) || (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value)));
+
+        switch (type) {
+            case 'string':
+                return typeof value === 'string';
+            case 'integer':
+            case 'choice':
+            case 'multichoice':
+                return numeric && Number.isInteger(Number(value));
+            case 'decimal':
+            case 'money':
+                return numeric;
+            case 'boolean':
+                return typeof value === 'boolean' || [0, 1, '0', '1', 'true', 'false'].includes(value);
+            case 'datetime':
+                return value instanceof Date ? !isNaN(value.getTime()) : typeof value === 'string' && !isNaN(Date.parse(value));
+            case 'lookup':
+                return typeof value === 'string' ? isGuid(value) : typeof value?.id === 'string' && isGuid(value.id);
+            case 'guid':
+                return typeof value === 'string' && isGuid(value);
+        }
+    }
+
+    /**
+     * Collect aliases of all link entities, including nested ones
+     */
+    private static collectLinkAliases(links: LinkEntity[], aliases: Set<string> = new Set()): Set<string> {
+        for (const link of links) {
+            if (link.alias) aliases.add(link.alias);
+            this.collectLinkAliases(entityLinks(link), aliases);
+        }
+        return aliases;
+    }
 }
\ No newline at end of file
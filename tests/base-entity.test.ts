@@ -1,4 +1,5 @@
 import { BaseEntity } from '../src/entities/base-entity';
+import { ValidationError } from '../src/errors';
 
 // Create a concrete implementation of BaseEntity for testing
 class TestEntity extends BaseEntity<{
@@ -204,6 +205,319 @@ describe('BaseEntity XML Generation', () => {
         });
     });
 
+    describe('Extended Operators', () => {
+        it('should handle string matching operators', () => {
+            const result = entity
+                .where('name', 'begins-with', 'Acme')
+                .where('emailaddress1', 'ends-with', '@example.com')
+                .build();
+
+            expect(result).toContain('<condition attribute="name" operator="begins-with" value="Acme"/>');
+            expect(result).toContain('<condition attribute="emailaddress1" operator="ends-with" value="@example.com"/>');
+        });
+
+        it('should handle relative date operators with integer values', () => {
+            const result = entity
+                .where('createdon', 'last-x-days', 30)
+                .where('createdon', 'next-x-months', 3)
+                .where('createdon', 'olderthan-x-years', 2)
+                .build();
+
+            expect(result).toContain('<condition attribute="createdon" operator="last-x-days" value="30"/>');
+            expect(result).toContain('<condition attribute="createdon" operator="next-x-months" value="3"/>');
+            expect(result).toContain('<condition attribute="createdon" operator="olderthan-x-years" value="2"/>');
+        });
+
+        it('should reject non-integer values for relative date operators', () => {
+            expect(() => entity.where('createdon', 'last-x-days', 1.5)).toThrow('Operator last-x-days requires a non-negative whole number');
+            // @ts-expect-error the day count is a number
+            expect(() => entity.where('createdon', 'last-x-days', '30')).toThrow('Operator last-x-days requires a non-negative whole number');
+            // @ts-expect-error last-x-days requires a day count
+            expect(() => entity.where('createdon', 'last-x-days')).toThrow('Operator last-x-days requires a non-negative whole number');
+        });
+
+        it('should handle user and business unit operators without value', () => {
+            const result = entity
+                .where('accountid', 'eq-userid')
+                .where('accountid', 'eq-businessid')
+                .where('accountid', 'eq-useroruserteams')
+                .build();
+
+            expect(result).toContain('<condition attribute="accountid" operator="eq-userid"/>');
+            expect(result).toContain('<condition attribute="accountid" operator="eq-businessid"/>');
+            expect(result).toContain('<condition attribute="accountid" operator="eq-useroruserteams"/>');
+            // @ts-expect-error eq-userid takes no value
+            expect(() => entity.where('accountid', 'eq-userid', 'x')).toThrow('Operator eq-userid does not take a value');
+        });
+
+        it('should handle hierarchy operators', () => {
+            const result = entity
+                .where('accountid', 'under', '00000000-0000-0000-0000-000000000001')
+                .where('accountid', 'eq-or-under', '00000000-0000-0000-0000-000000000002')
+                .where('accountid', 'above', '00000000-0000-0000-0000-000000000003')
+                .build();
+
+            expect(result).toContain('operator="under" value="00000000-0000-0000-0000-000000000001"');
+            expect(result).toContain('operator="eq-or-under" value="00000000-0000-0000-0000-000000000002"');
+            expect(result).toContain('operator="above" value="00000000-0000-0000-0000-000000000003"');
+        });
+
+        it('should render multi-select option set operators as value elements', () => {
+            const result = entity
+                .where('statecode', 'contain-values', [1, 2])
+                .where('statecode', 'not-contain-values', [3])
+                .build();
+
+            expect(result).toContain('<condition attribute="statecode" operator="contain-values"><value>1</value><value>2</value></condition>');
+            expect(result).toContain('<condition attribute="statecode" operator="not-contain-values"><value>3</value></condition>');
+        });
+
+        it('should handle fiscal operators', () => {
+            const result = entity
+                .where('createdon', 'this-fiscal-year')
+                .where('createdon', 'last-x-fiscal-periods', 2)
+                .where('createdon', 'in-fiscal-year', 2024)
+                .where('createdon', 'in-fiscal-period-and-year', [3, 2024])
+                .build();
+
+            expect(result).toContain('<condition attribute="createdon" operator="this-fiscal-year"/>');
+            expect(result).toContain('<condition attribute="createdon" operator="last-x-fiscal-periods" value="2"/>');
+            expect(result).toContain('<condition attribute="createdon" operator="in-fiscal-year" value="2024"/>');
+            expect(result).toContain('<condition attribute="createdon" operator="in-fiscal-period-and-year"><value>3</value><value>2024</value></condition>');
+        });
+    });
+
+    describe('Multi-Value Conditions', () => {
+        it('should render in values as value elements', () => {
+            const result = entity
+                .where('statecode', 'in', [0, 1])
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="statecode" operator="in"><value>0</value><value>1</value></condition></filter></entity></fetch>');
+        });
+
+        it('should render not-in values as value elements', () => {
+            const result = entity
+                .where('name', 'not-in', ['Test', 'Demo'])
+                .build();
+
+            expect(result).toContain('<condition attribute="name" operator="not-in"><value>Test</value><value>Demo</value></condition>');
+        });
+
+        it('should render between and not-between ranges', () => {
+            const result = entity
+                .where('revenue', 'between', [1000, 5000])
+                .where('createdon', 'not-between', ['2024-01-01', '2024-12-31'])
+                .build();
+
+            expect(result).toContain('<condition attribute="revenue" operator="between"><value>1000</value><value>5000</value></condition>');
+            expect(result).toContain('<condition attribute="createdon" operator="not-between"><value>2024-01-01</value><value>2024-12-31</value></condition>');
+        });
+
+        it('should reject values for operators without value', () => {
+            // @ts-expect-error null takes no value
+            expect(() => entity.where('name', 'null', 'Test')).toThrow('Operator null does not take a value');
+        });
+
+        it('should require a value for single value operators', () => {
+            // @ts-expect-error eq requires a value
+            expect(() => entity.where('name', 'eq')).toThrow('Operator eq requires a single value');
+            // @ts-expect-error eq takes a single value
+            expect(() => entity.where('name', 'eq', ['Test'])).toThrow('Operator eq requires a single value');
+        });
+
+        it('should require at least one value for in', () => {
+            expect(() => entity.where('statecode', 'in', [])).toThrow('Operator in requires an array with at least one value');
+            // @ts-expect-error in takes an array
+            expect(() => entity.where('statecode', 'in', 0)).toThrow('Operator in requires an array with at least one value');
+        });
+
+        it('should require exactly two values for between', () => {
+            // @ts-expect-error between takes two values
+            expect(() => entity.where('revenue', 'between', [1000])).toThrow('Operator between requires an array with exactly two values');
+            // @ts-expect-error between takes two values
+            expect(() => entity.where('revenue', 'between', [1, 2, 3])).toThrow('Operator between requires an array with exactly two values');
+        });
+
+        it('should reject null entries in value lists', () => {
+            // @ts-expect-error in values cannot be null
+            expect(() => entity.where('statecode', 'in', [0, null])).toThrow('Values for operator in cannot be null or undefined');
+        });
+    });
+
+    describe('Column Comparisons', () => {
+        it('should compare two columns of the root entity', () => {
+            const result = entity
+                .whereColumn('name', 'ne', 'emailaddress1')
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="name" operator="ne" valueof="emailaddress1"/></filter></entity></fetch>');
+        });
+
+        it('should compare with a linked column through its alias', () => {
+            const result = entity
+                .join<{ address1_city: string }>('contact', 'accountid', 'parentcustomerid', 'PrimaryContact')
+                    .end()
+                .whereColumn('name', 'eq', 'PrimaryContact.address1_city')
+                .build();
+
+            expect(result).toContain('<condition attribute="name" operator="eq" valueof="PrimaryContact.address1_city"/>');
+        });
+
+        it('should support column comparisons inside groups', () => {
+            const result = entity
+                .whereGroup('or', group => group
+                    .whereColumn('revenue', 'gt', 'telephone1')
+                    .where('statecode', 'eq', 0))
+                .build();
+
+            expect(result).toContain('<filter type="or"><condition attribute="revenue" operator="gt" valueof="telephone1"/><condition attribute="statecode" operator="eq" value="0"/></filter>');
+        });
+
+        it('should reject operators that cannot compare columns', () => {
+            expect(() => entity.whereColumn('name', 'like' as any, 'emailaddress1')).toThrow('Operator like cannot be used to compare columns');
+        });
+
+        it('should reject malformed column references', () => {
+            expect(() => entity.whereColumn('name', 'eq', 'a.b.c')).toThrow('Invalid column reference: a.b.c');
+        });
+
+        it('should reject unknown aliases when building', () => {
+            entity.whereColumn('name', 'eq', 'MissingAlias.fullname');
+
+            expect(() => entity.build()).toThrow('Column comparison references unknown alias: MissingAlias');
+        });
+    });
+
+    describe('Cross-Entity Conditions', () => {
+        interface Contact {
+            contactid: string;
+            statecode: number;
+        }
+
+        it('should target linked column through join builder reference', () => {
+            const contacts = entity.join<Contact>('contact', 'accountid', 'parentcustomerid', 'Contacts', 'outer');
+
+            const result = contacts.end()
+                .select('name')
+                .where(contacts, 'contactid', 'null')
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><attribute name="name"/><filter type="and"><condition entityname="Contacts" attribute="contactid" operator="null"/></filter><link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts" link-type="outer"></link-entity></entity></fetch>');
+        });
+
+        it('should target linked column through alias.attribute reference', () => {
+            const result = entity
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', 'Contacts', 'outer')
+                    .end()
+                .where('Contacts.statecode', 'eq', 0)
+                .build();
+
+            expect(result).toContain('<condition entityname="Contacts" attribute="statecode" operator="eq" value="0"/>');
+        });
+
+        it('should support linked conditions inside groups', () => {
+            const contacts = entity.join<Contact>('contact', 'accountid', 'parentcustomerid', 'Contacts', 'outer');
+
+            const result = entity
+                .whereGroup('or', group => group
+                    .where(contacts, 'contactid', 'null')
+                    .where('statecode', 'eq', 1))
+                .build();
+
+            expect(result).toContain('<filter type="or"><condition entityname="Contacts" attribute="contactid" operator="null"/><condition attribute="statecode" operator="eq" value="1"/></filter>');
+        });
+
+        it('should type-check attributes against the joined entity', () => {
+            const contacts = entity.join<Contact>('contact', 'accountid', 'parentcustomerid', 'Contacts');
+
+            // @ts-expect-error - 'revenue' is not an attribute of Contact
+            expect(() => entity.where(contacts, 'revenue', 'null')).not.toThrow();
+        });
+
+        it('should require an alias on referenced joins', () => {
+            const contacts = entity.join<Contact>('contact', 'accountid', 'parentcustomerid');
+
+            expect(() => entity.where(contacts, 'contactid', 'null')).toThrow('A join used in a condition must have an alias');
+        });
+
+        it('should reject unknown aliases when building', () => {
+            entity.where('Missing.statecode', 'eq', 0);
+
+            expect(() => entity.build()).toThrow('Condition references unknown alias: Missing');
+        });
+    });
+
+    describe('Filter Groups', () => {
+        it('should generate nested or group inside root filter', () => {
+            const result = entity
+                .where('statecode', 'eq', 0)
+                .whereGroup('or', group => group
+                    .where('name', 'like', 'Acme')
+                    .where('telephone1', 'not-null'))
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><filter type="or"><condition attribute="name" operator="like" value="Acme"/><condition attribute="telephone1" operator="not-null"/></filter></filter></entity></fetch>');
+        });
+
+        it('should generate deeply nested groups', () => {
+            const result = entity
+                .whereGroup('or', group => group
+                    .where('statecode', 'eq', 1)
+                    .whereGroup('and', inner => inner
+                        .where('revenue', 'gt', 1000)
+                        .where('isactive', 'eq', true)))
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><filter type="or"><condition attribute="statecode" operator="eq" value="1"/><filter type="and"><condition attribute="revenue" operator="gt" value="1000"/><condition attribute="isactive" operator="eq" value="1"/></filter></filter></filter></entity></fetch>');
+        });
+
+        it('should skip empty groups', () => {
+            const result = entity
+                .whereGroup('or', () => undefined)
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"></entity></fetch>');
+        });
+
+        it('should place exists links inside the group', () => {
+            const result = entity
+                .where('statecode', 'eq', 0)
+                .whereGroup('or', group => group
+                    .where('revenue', 'gt', 1000)
+                    .whereExists<{ statecode: number }>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                        .where('statecode', 'eq', 0)
+                        .end()
+                    .whereNotExists('task', 'accountid', 'regardingobjectid'))
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><filter type="or"><condition attribute="revenue" operator="gt" value="1000"/><link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts" link-type="any"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></link-entity><link-entity name="task" from="regardingobjectid" to="accountid" link-type="not any"></link-entity></filter></filter></entity></fetch>');
+        });
+
+        it('should keep groups that only contain links', () => {
+            const result = entity
+                .whereGroup('or', group => group.whereExists('contact', 'accountid', 'parentcustomerid'))
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><filter type="or"><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="any"></link-entity></filter></filter></entity></fetch>');
+        });
+
+        it('should reject links in groups that are not any, not any, all or not all', () => {
+            const query = entity.toQuery();
+            query.filters = { type: 'or', conditions: [], links: [{ name: 'contact', from: 'accountid', to: 'parentcustomerid', linkType: 'outer', attributes: [] }] };
+
+            expect(() => entity.fromQuery(query).build()).toThrow('Link entity contact in a filter group must be of type any, not any, all, not all');
+        });
+
+        it('should reject invalid group type', () => {
+            expect(() => entity.whereGroup('xor' as any, group => group.where('name', 'eq', 'Test'))).toThrow('Invalid filter type: xor');
+        });
+
+        it('should validate conditions inside groups', () => {
+            expect(() => entity.whereGroup('or', group => group.where('name', 'invalid' as any, 'Test'))).toThrow('Invalid filter operator: invalid');
+        });
+    });
+
     describe('Order By', () => {
         it('should generate single order by', () => {
             const result = entity
@@ -231,6 +545,109 @@ describe('BaseEntity XML Generation', () => {
         });
     });
 
+    describe('Group By', () => {
+        it('should mark selected attribute as grouped', () => {
+            const result = entity
+                .select('name')
+                .sum('revenue', 'TotalRevenue')
+                .groupBy('name', { alias: 'Name' })
+                .build();
+
+            expect(result).toBe('<fetch aggregate="true"><entity name="account"><attribute name="name" groupby="true" alias="Name"/><attribute name="revenue" aggregate="sum" alias="TotalRevenue"/></entity></fetch>');
+        });
+
+        it('should add grouped attribute with alias when not selected', () => {
+            const result = entity
+                .count('accountid', 'AccountCount')
+                .groupBy('statecode', { alias: 'State' })
+                .build();
+
+            expect(result).toBe('<fetch aggregate="true"><entity name="account"><attribute name="accountid" aggregate="count" alias="AccountCount"/><attribute name="statecode" groupby="true" alias="State"/></entity></fetch>');
+        });
+
+        it('should generate date grouping', () => {
+            const result = entity
+                .sum('revenue', 'TotalRevenue')
+                .groupBy('createdon', { alias: 'Year', dateGrouping: 'year' })
+                .groupBy('createdon', { alias: 'Month', dateGrouping: 'month', userTimeZone: false })
+                .build();
+
+            expect(result).toContain('<attribute name="createdon" groupby="true" dategrouping="year" alias="Year"/>');
+            expect(result).toContain('<attribute name="createdon" groupby="true" dategrouping="month" usertimezone="false" alias="Month"/>');
+        });
+
+        it('should require aliases on grouped and aggregated attributes', () => {
+            expect(() => entity.sum('revenue', 'TotalRevenue').groupBy('statecode').build())
+                .toThrow('Grouped attribute account.statecode requires an alias');
+            expect(() => new TestEntity('account').sum('revenue').groupBy('statecode', { alias: 'State' }).build())
+                .toThrow('Aggregate attribute account.revenue requires an alias');
+        });
+
+        it('should reject plain attributes in aggregate queries', () => {
+            expect(() => entity.select('name').sum('revenue', 'TotalRevenue').groupBy('statecode', { alias: 'State' }).build())
+                .toThrow('Attribute account.name must be grouped or aggregated in an aggregate query');
+        });
+
+        it('should reject invalid date grouping', () => {
+            expect(() => entity.groupBy('createdon', { dateGrouping: 'decade' as any })).toThrow('Invalid date grouping: decade');
+        });
+
+        it('should reject usertimezone without date grouping', () => {
+            expect(() => entity.groupBy('createdon', { userTimeZone: true })).toThrow('usertimezone can only be set together with a date grouping');
+        });
+    });
+
+    describe('Order By Alias and Linked Columns', () => {
+        it('should order by aggregate alias', () => {
+            const result = entity
+                .sum('revenue', 'TotalRevenue')
+                .groupBy('statecode', { alias: 'State' })
+                .orderByAlias('TotalRevenue', 'desc')
+                .build();
+
+            expect(result).toContain('<order alias="TotalRevenue" descending="true"/>');
+        });
+
+        it('should order by linked column through join builder reference', () => {
+            const contacts = entity.join<{ lastname: string }>('contact', 'accountid', 'parentcustomerid', 'Contacts');
+
+            const result = entity
+                .orderBy(contacts, 'lastname', 'desc')
+                .orderBy('name')
+                .build();
+
+            expect(result).toContain('<order entityname="Contacts" attribute="lastname" descending="true"/><order attribute="name" descending="false"/>');
+        });
+
+        it('should order by linked column through alias.attribute reference', () => {
+            const result = entity
+                .join<{ lastname: string }>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                    .end()
+                .orderBy('Contacts.lastname')
+                .build();
+
+            expect(result).toContain('<order entityname="Contacts" attribute="lastname" descending="false"/>');
+        });
+
+        it('should reject unknown attribute aliases when building', () => {
+            entity.orderByAlias('Missing');
+
+            expect(() => entity.build()).toThrow('Order references unknown attribute alias: Missing');
+        });
+
+        it('should reject unknown link aliases when building', () => {
+            entity.orderBy('Missing.lastname');
+
+            expect(() => entity.build()).toThrow('Order references unknown alias: Missing');
+        });
+
+        it('should require an alias on referenced joins', () => {
+            const contacts = entity.join<{ lastname: string }>('contact', 'accountid', 'parentcustomerid');
+
+            expect(() => entity.orderBy(contacts, 'lastname')).toThrow('A join used in an order must have an alias');
+        });
+    });
+
     describe('Fetch Options', () => {
         it('should generate distinct query', () => {
             const result = entity
@@ -263,6 +680,24 @@ describe('BaseEntity XML Generation', () => {
 
             expect(result).toBe('<fetch page="1" count="50"><entity name="account"></entity></fetch>');
         });
+
+        it('should generate pagination with paging cookie and total record count', () => {
+            const result = entity
+                .page(2, 5000, '<cookie page="1"><accountid last="{A1}" /></cookie>')
+                .returnTotalRecordCount()
+                .build();
+
+            expect(result).toBe('<fetch page="2" count="5000" paging-cookie="&lt;cookie page=&quot;1&quot;&gt;&lt;accountid last=&quot;{A1}&quot; /&gt;&lt;/cookie&gt;" returntotalrecordcount="true"><entity name="account"></entity></fetch>');
+        });
+
+        it('should drop the paging cookie when paging without one', () => {
+            const result = entity
+                .page(2, 50, '<cookie page="1"/>')
+                .page(1)
+                .build();
+
+            expect(result).toBe('<fetch page="1" count="50"><entity name="account"></entity></fetch>');
+        });
     });
 
     describe('Complex Queries', () => {
@@ -348,6 +783,174 @@ describe('BaseEntity XML Generation', () => {
         });
     });
 
+    describe('Clone and Immutable Mode', () => {
+        it('should clone without sharing state', () => {
+            const base = entity.select('name').where('statecode', 'eq', 0);
+            const copy = base.clone().where('revenue', 'gt', 1000);
+
+            expect(copy).toBeInstanceOf(TestEntity);
+            expect(base.build()).not.toContain('revenue');
+            expect(copy.build()).toContain('condition attribute="revenue" operator="gt" value="1000"');
+        });
+
+        it('should not share a loaded query with the caller', () => {
+            const query = new TestEntity('account').select('name').toQuery();
+            const first = new TestEntity('account').fromQuery(query).where('statecode', 'eq', 0);
+            const second = new TestEntity('account').fromQuery(query);
+
+            query.attributes.push({ name: 'revenue' });
+
+            expect(first.build()).toBe('<fetch><entity name="account"><attribute name="name"/><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></entity></fetch>');
+            expect(second.build()).toBe('<fetch><entity name="account"><attribute name="name"/></entity></fetch>');
+        });
+
+        it('should return a new builder for every step in immutable mode', () => {
+            const base = entity.immutable().select('name').where('statecode', 'eq', 0);
+            const active = base.where('revenue', 'gt', 1000);
+            const ordered = base.orderBy('name');
+
+            expect(active).not.toBe(base);
+            expect(entity.build()).toBe('<fetch><entity name="account"></entity></fetch>');
+            expect(base.build()).toBe('<fetch><entity name="account"><attribute name="name"/><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></entity></fetch>');
+            expect(active.build()).not.toContain('order');
+            expect(ordered.build()).not.toContain('revenue');
+        });
+
+        it('should keep the parent query untouched when joining in immutable mode', () => {
+            const base = entity.immutable().select('name');
+            const joined = base
+                .join<{ fullname: string }>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                    .select('fullname')
+                    .end();
+
+            expect(base.build()).not.toContain('link-entity');
+            expect(joined.build()).toContain('<link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts"><attribute name="fullname"/></link-entity>');
+        });
+
+        it('should branch twice from a held join builder in immutable mode', () => {
+            const contacts = entity.immutable().select('name').join<{ fullname: string; statecode: number }>('contact', 'accountid', 'parentcustomerid', 'Contacts');
+            const active = contacts.where('statecode', 'eq', 0).end();
+            const named = contacts.select('fullname').orderBy('fullname').end();
+            const owners = contacts.join<{ fullname: string }>('systemuser', 'fullname', 'systemuserid', 'Owner');
+            const owned = owners.select('fullname').end().end();
+
+            expect(contacts.end().build()).toBe('<fetch><entity name="account"><attribute name="name"/><link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts"></link-entity></entity></fetch>');
+            expect(active.build()).toBe('<fetch><entity name="account"><attribute name="name"/><link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></link-entity></entity></fetch>');
+            expect(named.build()).toBe('<fetch><entity name="account"><attribute name="name"/><link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts"><attribute name="fullname"/><order attribute="fullname" descending="false"/></link-entity></entity></fetch>');
+            expect(owners.end().end().build()).toContain('<link-entity name="systemuser" from="systemuserid" to="fullname" alias="Owner"></link-entity>');
+            expect(owned.build()).toContain('<link-entity name="systemuser" from="systemuserid" to="fullname" alias="Owner"><attribute name="fullname"/></link-entity>');
+            expect(owned.build()).not.toContain('statecode');
+        });
+
+        it('should fork into a mutable builder', () => {
+            const template = entity.immutable().select('name');
+            const fork = template.fork();
+
+            expect(fork.where('statecode', 'eq', 0)).toBe(fork);
+            expect(template.clone().where('statecode', 'eq', 0)).not.toBe(template);
+            expect(template.build()).not.toContain('filter');
+        });
+    });
+
+    describe('Removal Operations', () => {
+        it('should unselect attributes but keep aggregates', () => {
+            const result = entity
+                .select('name', 'revenue', 'accountid')
+                .count('accountid', 'Total')
+                .unselect('revenue', 'accountid')
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><attribute name="name"/><attribute name="accountid" aggregate="count" alias="Total"/></entity></fetch>');
+        });
+
+        it('should remove conditions from nested groups and drop empty groups', () => {
+            const result = entity
+                .where('statecode', 'eq', 0)
+                .whereGroup('or', group => group.where('revenue', 'gt', 1000).where('revenue', 'null'))
+                .whereGroup('or', group => group.where('name', 'like', 'A%').where('revenue', 'lt', 10))
+                .removeWhere('revenue')
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><filter type="or"><condition attribute="name" operator="like" value="A%"/></filter></filter></entity></fetch>');
+        });
+
+        it('should remove linked conditions only when referenced by alias', () => {
+            const result = entity
+                .where('statecode', 'eq', 0)
+                .where('Contacts.statecode', 'eq', 1)
+                .removeWhere('Contacts.statecode')
+                .removeWhere('name')
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></entity></fetch>');
+        });
+
+        it('should clear orders', () => {
+            const result = entity.orderBy('name').orderBy('createdon', 'desc').clearOrders().build();
+
+            expect(result).toBe('<fetch><entity name="account"></entity></fetch>');
+        });
+
+        it('should remove a join with its nested joins and references', () => {
+            const query = entity.select('name');
+
+            query
+                .join<{ fullname: string; ownerid: string }>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                    .select('fullname')
+                    .join<{ fullname: string }>('systemuser', 'ownerid', 'systemuserid', 'Owner')
+                        .select('fullname')
+                        .end()
+                    .end()
+                .join<{ name: string }>('territory', 'accountid', 'territoryid', 'Territory')
+                    .select('name')
+                    .end()
+                .where('Owner.fullname', 'not-null')
+                .whereColumn('name', 'ne', 'Contacts.fullname')
+                .where('Territory.name', 'eq', 'West')
+                .orderBy('Contacts.fullname')
+                .orderBy('name');
+
+            const result = query.removeJoin('Contacts').build();
+
+            expect(result).toBe('<fetch><entity name="account"><attribute name="name"/><filter type="and"><condition entityname="Territory" attribute="name" operator="eq" value="West"/></filter><order attribute="name" descending="false"/><link-entity name="territory" from="territoryid" to="accountid" alias="Territory"><attribute name="name"/></link-entity></entity></fetch>');
+        });
+
+        it('should remove a nested join', () => {
+            const result = entity
+                .join<{ ownerid: string }>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                    .join<{ fullname: string }>('systemuser', 'ownerid', 'systemuserid', 'Owner')
+                        .end()
+                    .end()
+                .removeJoin('Owner')
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts"></link-entity></entity></fetch>');
+        });
+
+        it('should keep links in groups when removing conditions and remove them by alias', () => {
+            const query = entity
+                .whereGroup('or', group => group
+                    .where('revenue', 'gt', 1000)
+                    .whereExists('contact', 'accountid', 'parentcustomerid', 'Contacts'))
+                .removeWhere('revenue');
+
+            expect(query.build()).toBe('<fetch><entity name="account"><filter type="and"><filter type="or"><link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts" link-type="any"></link-entity></filter></filter></entity></fetch>');
+            expect(query.removeJoin('Contacts').build()).toBe('<fetch><entity name="account"></entity></fetch>');
+        });
+
+        it('should reject unknown join aliases', () => {
+            expect(() => entity.removeJoin('Missing')).toThrow('Unknown join alias: Missing');
+        });
+
+        it('should not modify the template in immutable mode', () => {
+            const template = entity.immutable().select('name', 'revenue').where('statecode', 'eq', 0).orderBy('name');
+            const trimmed = template.unselect('revenue').removeWhere('statecode').clearOrders();
+
+            expect(trimmed.build()).toBe('<fetch><entity name="account"><attribute name="name"/></entity></fetch>');
+            expect(template.build()).toBe('<fetch><entity name="account"><attribute name="name"/><attribute name="revenue"/><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter><order attribute="name" descending="false"/></entity></fetch>');
+        });
+    });
+
     describe('Edge Cases', () => {
         it('should handle empty select', () => {
             const result = entity.build();
@@ -355,6 +958,15 @@ describe('BaseEntity XML Generation', () => {
             expect(result).toBe('<fetch><entity name="account"></entity></fetch>');
         });
 
+        it('should reject an entityName field that differs from the constructor entity', () => {
+            const mismatched = new TestEntity('contact').select('name');
+
+            expect(() => mismatched.build()).toThrow('Entity name account does not match entity contact of the query');
+            expect(() => mismatched.buildOData()).toThrow(ValidationError);
+            expect(() => mismatched.buildSql()).toThrow(ValidationError);
+            expect(() => mismatched.toQuery()).toThrow(ValidationError);
+        });
+
         it('should handle select with no attributes', () => {
             const result = entity.select().build();
 
@@ -412,7 +1024,7 @@ describe('BaseEntity XML Generation', () => {
                 .where('isactive', 'eq', true)
                 .build();
 
-            expect(result).toContain('value="true"');
+            expect(result).toContain('value="1"');
         });
 
         it('should handle zero values', () => {
@@ -0,0 +1,299 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { CodeGenerator } from '../src/codegen/code-generator';
+import { CsdlParser } from '../src/codegen/csdl-parser';
+import { runCli } from '../src/codegen/cli';
+import { QueryBuildError, ValidationError } from '../src/errors';
+
+const metadataPath = path.join(__dirname, 'fixtures', 'metadata.xml');
+const metadata = fs.readFileSync(metadataPath, 'utf8');
+const optionSetsPath = path.join(__dirname, 'fixtures', 'option-sets.json');
+const optionSets = CodeGenerator.parseOptionSets(fs.readFileSync(optionSetsPath, 'utf8'));
+
+describe('Code Generation', () => {
+    describe('CsdlParser', () => {
+        it('should read entity types, enums and entity sets', () => {
+            const model = new CsdlParser(metadata).parse();
+            const account = model.entityTypes.find(entity => entity.name === 'account')!;
+
+            expect(model.entityTypes.map(entity => entity.name)).toEqual(['crmbaseentity', 'account', 'contact', 'new_project', 'lead']);
+            expect(model.enumTypes[0].members[1]).toEqual({ name: 'Unpublished', value: 1 });
+            expect(model.entitySets.new_project).toBe('new_projects');
+            expect(account.key).toBe('accountid');
+            expect(account.baseType).toBe('crmbaseentity');
+            expect(account.navigationProperties[0]).toEqual({
+                name: 'primarycontactid',
+                entity: 'contact',
+                collection: false,
+                partner: 'account_primary_contact',
+                constraint: { property: '_primarycontactid_value', referencedProperty: 'contactid' }
+            });
+        });
+
+        it('should reject documents that are not CSDL', () => {
+            expect(() => new CsdlParser('<fetch/>').parse()).toThrow(QueryBuildError);
+            expect(() => new CsdlParser('<fetch/>').parse()).toThrow('Invalid CSDL: Expected <edmx:Edmx> root element but found <fetch>');
+        });
+    });
+
+    describe('CodeGenerator', () => {
+        it('should generate interfaces, enums, relationships and entity classes', () => {
+            const code = CodeGenerator.fromCsdl(metadata, { entities: ['account'] }).generate();
+
+            expect(code).toBe(`// Generated by fetchorm-codegen from CSDL $metadata. Do not edit.
+import { BaseEntity, EntityReference, MetadataDefinition, manyToOne, oneToMany } from 'fetchorm';
+
+export enum ComponentState {
+    Published = 0,
+    Unpublished = 1,
+    Deleted = 2,
+    DeletedUnpublished = 3
+}
+
+export interface Account {
+    accountid: string;
+    name: string;
+    revenue: number;
+    numberofemployees: number;
+    donotemail: boolean;
+    createdon: Date;
+    statecode: number;
+    componentstate: ComponentState;
+    primarycontactid: EntityReference;
+    new_tier: number;
+}
+
+export const AccountRelationships = {
+    primarycontactid: manyToOne('contact', 'contactid', 'primarycontactid'),
+    contact_customer_accounts: oneToMany('contact', 'parentcustomerid', 'accountid'),
+    new_account_new_project: oneToMany('new_project', 'new_accountid', 'accountid')
+};
+
+export class AccountEntity extends BaseEntity<Account> {
+    entitySetName = 'accounts';
+    relationships = AccountRelationships;
+
+    constructor() {
+        super('account');
+    }
+}
+
+export const Metadata: MetadataDefinition = {
+    account: {
+        accountid: 'guid',
+        name: 'string',
+        revenue: 'decimal',
+        numberofemployees: 'integer',
+        donotemail: 'boolean',
+        createdon: 'datetime',
+        statecode: 'integer',
+        componentstate: 'choice',
+        primarycontactid: 'lookup',
+        new_tier: 'integer'
+    }
+};
+`);
+        });
+
+        it('should filter entities by publisher prefix', () => {
+            const code = CodeGenerator.fromCsdl(metadata, { publisherPrefixes: ['new_'], importPath: '../fetchorm' }).generate();
+
+            expect(code).toContain("from '../fetchorm';");
+            expect(code).toContain('export interface NewProject {');
+            expect(code).toContain('    new_tags: string[];');
+            expect(code).toContain('    new_accountid: EntityReference;');
+            expect(code).toContain("export class NewProjectEntity extends BaseEntity<NewProject> {");
+            expect(code).toContain("        new_budget: 'decimal',\n        new_accountid: 'lookup'\n    }");
+            expect(code).not.toContain('interface Account');
+            expect(code).not.toContain('enum ComponentState');
+        });
+
+        it('should combine entity list and prefixes and skip abstract types', () => {
+            const code = CodeGenerator.fromCsdl(metadata, { entities: ['contact'], publisherPrefixes: ['new_'] }).generate();
+
+            expect(code).toContain('export interface Contact {');
+            expect(code).toContain('export interface NewProject {');
+            expect(code).toContain("    account_primary_contact: oneToMany('account', 'primarycontactid', 'contactid')");
+            expect(code).toContain("    new_accountid: manyToOne('account', 'accountid', 'new_accountid')");
+            expect(code).not.toContain('Crmbaseentity');
+            expect(code).not.toContain('interface Lead');
+        });
+
+        it('should type relationships to generated entities', () => {
+            const code = CodeGenerator.fromCsdl(metadata, { entities: ['account', 'contact'] }).generate();
+
+            expect(code).toContain("    primarycontactid: manyToOne<Contact>('contact', 'contactid', 'primarycontactid'),");
+            expect(code).toContain("    new_account_new_project: oneToMany('new_project', 'new_accountid', 'accountid')");
+            expect(code).toContain('    relationships = ContactRelationships;');
+        });
+
+        it('should skip many-to-many relationships with a warning', () => {
+            const generator = CodeGenerator.fromCsdl(metadata, { optionSets });
+            const contact = new CsdlParser(metadata).parse().entityTypes.find(entity => entity.name === 'contact')!;
+
+            expect(Object.keys(generator.relationships(contact))).toEqual(['parentcustomerid_account', 'account_primary_contact']);
+            expect(generator.generate()).not.toContain('contactleads_association');
+            expect(generator.warnings).toEqual([
+                'Skipped many-to-many relationship contact.contactleads_association, join it with manyToMany()',
+                'Skipped many-to-many relationship lead.contactleads_association, join it with manyToMany()'
+            ]);
+        });
+
+        it('should warn that choice columns are typed as number without option sets', () => {
+            const generator = CodeGenerator.fromCsdl(metadata, { entities: ['account'] });
+            generator.generate();
+
+            expect(generator.warnings).toEqual(['No option set metadata given, choice columns are typed as number']);
+        });
+
+        it('should take the entity name from the constructor only', () => {
+            const code = CodeGenerator.fromCsdl(metadata, { entities: ['lead'] }).generate();
+
+            expect(code).toContain("export class LeadEntity extends BaseEntity<Lead> {\n    entitySetName = 'leads';");
+            expect(code).toContain("        super('lead');");
+            expect(code).not.toContain('entityName');
+        });
+
+        it('should generate option set enums for choice columns', () => {
+            const code = CodeGenerator.fromCsdl(metadata, { entities: ['account'], optionSets }).generate();
+
+            expect(code).toContain('export enum AccountStatecode {\n    Active = 0,\n    Inactive = 1\n}');
+            expect(code).toContain('export enum NewTier {\n    Gold = 100000000,\n    Silver = 100000001,\n    _1stClass = 100000002,\n    Value100000003 = 100000003\n}');
+            expect(code).toContain('    statecode: AccountStatecode;');
+            expect(code).toContain('    new_tier: NewTier;');
+            expect(code).toContain("        statecode: 'choice',");
+            expect(code).toContain("        new_tier: 'choice'\n");
+        });
+
+        it('should reject invalid option set metadata', () => {
+            expect(() => CodeGenerator.parseOptionSets('{')).toThrow(ValidationError);
+            expect(() => CodeGenerator.parseOptionSets('{"value":[{"LogicalName":"statecode"}]}'))
+                .toThrow('Invalid option set metadata: expected attributes with EntityLogicalName and LogicalName');
+        });
+
+        it('should reject unknown entities', () => {
+            expect(() => CodeGenerator.fromCsdl(metadata, { entities: ['opportunity'] }).generate()).toThrow(ValidationError);
+        });
+    });
+
+    describe('Generated Code', () => {
+        it('should compile against the package entry module', () => {
+            const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fetchorm-codegen-'));
+            const file = path.join(directory, 'entities.ts');
+            const importPath = path.join(__dirname, '..', 'src').split(path.sep).join('/');
+
+            try {
+                const code = CodeGenerator.fromCsdl(metadata, { importPath, optionSets }).generate();
+                const usage = `
+import { MetadataRegistry, Validator } from '${importPath}';
+
+Validator.useMetadata(new MetadataRegistry(Metadata));
+
+export const query = new AccountEntity()
+    .select('name')
+    .where('new_tier', 'eq', NewTier.Gold)
+    .joinRelation('primarycontactid')
+        .select('fullname')
+        .end()
+    .build();
+`;
+                fs.writeFileSync(file, code + usage);
+
+                const program = ts.createProgram([file], {
+                    target: ts.ScriptTarget.ES2020,
+                    module: ts.ModuleKind.CommonJS,
+                    strict: true,
+                    esModuleInterop: true,
+                    skipLibCheck: true,
+                    experimentalDecorators: true,
+                    noEmit: true
+                });
+                const diagnostics = ts.getPreEmitDiagnostics(program)
+                    .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+                expect(diagnostics).toEqual([]);
+            } finally {
+                fs.rmSync(directory, { recursive: true, force: true });
+            }
+        }, 120000);
+    });
+
+    describe('CLI', () => {
+        const run = (args: string[]) => {
+            const output = { stdout: '', stderr: '' };
+            const code = runCli(args, {
+                stdout: text => { output.stdout += text; },
+                stderr: text => { output.stderr += text; }
+            });
+
+            return { code, ...output };
+        };
+
+        it('should write the generated code to a file', () => {
+            const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fetchorm-codegen-'));
+            const outputFile = path.join(directory, 'entities.ts');
+
+            try {
+                const result = run(['--input', metadataPath, '--output', outputFile, '--prefix', 'new_', '-e', 'account,contact']);
+
+                expect(result.code).toBe(0);
+                expect(fs.readFileSync(outputFile, 'utf8')).toBe(
+                    CodeGenerator.fromCsdl(metadata, { publisherPrefixes: ['new_'], entities: ['account', 'contact'] }).generate()
+                );
+            } finally {
+                fs.rmSync(directory, { recursive: true, force: true });
+            }
+        });
+
+        it('should read option sets', () => {
+            const result = run(['-i', metadataPath, '-e', 'account', '--option-sets', optionSetsPath]);
+
+            expect(result.code).toBe(0);
+            expect(result.stdout).toContain('    new_tier: NewTier;');
+            expect(result.stderr).toBe('');
+        });
+
+        it('should write to stdout without an output file and warnings to stderr', () => {
+            const result = run(['-i', metadataPath, '-e', 'lead']);
+
+            expect(result.code).toBe(0);
+            expect(result.stdout).toContain('export class LeadEntity extends BaseEntity<Lead> {');
+            expect(result.stdout).not.toContain('warning');
+            expect(result.stderr).toBe([
+                'fetchorm-codegen: warning: No option set metadata given, choice columns are typed as number',
+                'fetchorm-codegen: warning: Skipped many-to-many relationship lead.contactleads_association, join it with manyToMany()',
+                ''
+            ].join('\n'));
+        });
+
+        it('should report invalid arguments', () => {
+            expect(run([]).stderr).toBe('fetchorm-codegen: Missing --input\nRun with --help for usage.\n');
+            expect(run(['--input']).code).toBe(1);
+            expect(run(['--verbose']).stderr).toContain('Unknown option: --verbose');
+            expect(run(['-i', metadataPath, '-e', 'opportunity']).stderr).toContain('Unknown entity: opportunity');
+        });
+
+        it('should print usage', () => {
+            const result = run(['--help']);
+
+            expect(result.code).toBe(0);
+            expect(result.stdout).toContain('Usage: fetchorm-codegen --input <metadata.xml> [options]');
+        });
+    });
+
+    describe('Package', () => {
+        it('should build the files main, types and bin point at before packing', () => {
+            const pkg = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8'));
+            const source = (file: string) => path.join(__dirname, '..', file.replace(/^dist\//, 'src/').replace(/\.(d\.ts|js)$/, '.ts'));
+
+            expect(pkg.scripts.prepack).toBe('npm run build');
+            for (const file of [pkg.main, pkg.types, pkg.bin['fetchorm-codegen']]) {
+                expect(file).toMatch(/^dist\//);
+                expect(fs.existsSync(source(file))).toBe(true);
+            }
+            expect(fs.readFileSync(source(pkg.bin['fetchorm-codegen']), 'utf8')).toMatch(/^#!\/usr\/bin\/env node\n/);
+        });
+    });
+});
@@ -0,0 +1,242 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { DataverseClient } from '../src/client/dataverse-client';
+import { BaseEntity } from '../src/entities/base-entity';
+import { DataverseError, QueryResultError, ValidationError } from '../src/errors';
+import { HttpRequest, HttpTransport } from '../src/types';
+
+interface Account {
+    name: string;
+    accountid: string;
+    statecode: number;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+interface RecordedRequest {
+    method?: string;
+    path: string;
+    fetchXml: string | null;
+    headers: http.IncomingHttpHeaders;
+}
+
+/**
+ * Local server replying to each request with the next canned response
+ */
+class MockDataverse {
+    public requests: RecordedRequest[] = [];
+    private responses: { status: number; body: unknown }[] = [];
+    private server = http.createServer((request, response) => {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+
+        this.requests.push({
+            method: request.method,
+            path: url.pathname,
+            fetchXml: url.searchParams.get('fetchXml'),
+            headers: request.headers
+        });
+
+        const next = this.responses.shift() ?? { status: 500, body: { error: { code: '0x0', message: 'No response queued' } } };
+
+        response.writeHead(next.status, { 'Content-Type': 'application/json' });
+        response.end(typeof next.body === 'string' ? next.body : JSON.stringify(next.body));
+    });
+
+    public reply(status: number, body: unknown): this {
+        this.responses.push({ status, body });
+        return this;
+    }
+
+    public start(): Promise<string> {
+        return new Promise(resolve => {
+            this.server.listen(0, '127.0.0.1', () => {
+                resolve(`http://127.0.0.1:${(this.server.address() as AddressInfo).port}`);
+            });
+        });
+    }
+
+    public stop(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+}
+
+describe('DataverseClient', () => {
+    let server: MockDataverse;
+    let client: DataverseClient;
+    let url: string;
+
+    beforeEach(async () => {
+        server = new MockDataverse();
+        url = await server.start();
+
+        client = new DataverseClient({ url: `${url}/`, tokenProvider: async () => 'token-123' });
+    });
+
+    afterEach(async () => {
+        await server.stop();
+    });
+
+    describe('Requests', () => {
+        it('should send FetchXML with Web API headers', async () => {
+            server.reply(200, { value: [{ name: 'Contoso' }] });
+
+            const response = await client.executeFetchXml('accounts', '<fetch><entity name="account"/></fetch>');
+
+            expect(response.value).toEqual([{ name: 'Contoso' }]);
+            expect(server.requests).toHaveLength(1);
+
+            const [request] = server.requests;
+
+            expect(request.method).toBe('GET');
+            expect(request.path).toBe('/api/data/v9.2/accounts');
+            expect(request.fetchXml).toBe('<fetch><entity name="account"/></fetch>');
+            expect(request.headers.authorization).toBe('Bearer token-123');
+            expect(request.headers.prefer).toBe('odata.include-annotations="*"');
+            expect(request.headers.accept).toBe('application/json');
+            expect(request.headers['odata-version']).toBe('4.0');
+            expect(request.headers['odata-maxversion']).toBe('4.0');
+        });
+
+        it('should use the configured API version and extra headers', async () => {
+            server.reply(200, { value: [] });
+
+            const custom = new DataverseClient({
+                url,
+                apiVersion: '9.1',
+                headers: { 'CallerObjectId': 'user-1' }
+            });
+
+            await custom.executeFetchXml('accounts', '<fetch/>');
+
+            expect(server.requests[0].path).toBe('/api/data/v9.1/accounts');
+            expect(server.requests[0].headers.callerobjectid).toBe('user-1');
+            expect(server.requests[0].headers.authorization).toBeUndefined();
+        });
+
+        it('should use a custom transport', async () => {
+            const sent: HttpRequest[] = [];
+            const transport: HttpTransport = {
+                send: async request => {
+                    sent.push(request);
+                    return { status: 200, headers: {}, body: '{"value":[]}' };
+                }
+            };
+
+            await new DataverseClient({ url: 'https://org.crm.dynamics.com', transport }).executeFetchXml('accounts', '<fetch/>');
+
+            expect(sent[0].url).toBe('https://org.crm.dynamics.com/api/data/v9.2/accounts?fetchXml=%3Cfetch%2F%3E');
+        });
+
+        it('should reject invalid URLs', () => {
+            expect(() => new DataverseClient({ url: 'org.crm.dynamics.com' })).toThrow(ValidationError);
+        });
+    });
+
+    describe('Errors', () => {
+        it('should raise Dataverse errors with status and code', async () => {
+            server.reply(400, { error: { code: '0x80041103', message: "'account' entity doesn't contain attribute with Name = 'foo'" } });
+
+            const error = await client.executeFetchXml('accounts', '<fetch/>').catch(e => e);
+
+            expect(error).toBeInstanceOf(DataverseError);
+            expect(error.message).toBe("Dataverse request failed with status 400: 'account' entity doesn't contain attribute with Name = 'foo'");
+            expect(error.status).toBe(400);
+            expect(error.errorCode).toBe('0x80041103');
+        });
+
+        it('should raise errors for responses that are not JSON', async () => {
+            server.reply(502, 'Bad Gateway').reply(200, 'not json');
+
+            await expect(client.executeFetchXml('accounts', '<fetch/>')).rejects.toThrow('Dataverse request failed with status 502: Bad Gateway');
+            await expect(client.executeFetchXml('accounts', '<fetch/>')).rejects.toThrow('Dataverse returned an invalid JSON response');
+        });
+    });
+
+    describe('Entity Set Names', () => {
+        it.each([
+            ['account', 'accounts'],
+            ['opportunity', 'opportunities'],
+            ['address', 'addresses'],
+            ['systemuser', 'systemusers']
+        ])('should derive %s -> %s', (logicalName, entitySetName) => {
+            expect(DataverseClient.entitySetNameFor(logicalName)).toBe(entitySetName);
+        });
+    });
+
+    describe('BaseEntity Execution', () => {
+        it('should execute the built query against the entity set', async () => {
+            server.reply(200, { value: [{ name: 'A' }, { name: 'B' }] });
+
+            const records = await new AccountEntity('account')
+                .withClient(client)
+                .select('name')
+                .where('statecode', 'eq', 0)
+                .execute();
+
+            expect(records.map(record => record.name)).toEqual(['A', 'B']);
+            expect(server.requests[0].path).toBe('/api/data/v9.2/accounts');
+            expect(server.requests[0].fetchXml).toBe('<fetch><entity name="account"><attribute name="name"/><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></entity></fetch>');
+        });
+
+        it('should use an explicit entity set name', async () => {
+            class CustomEntity extends BaseEntity<Account> {
+                entityName = 'new_project';
+                entitySetName = 'new_projectset';
+            }
+
+            server.reply(200, { value: [] });
+            await new CustomEntity('new_project').withClient(client).execute();
+
+            expect(server.requests[0].path).toBe('/api/data/v9.2/new_projectset');
+        });
+
+        it('should request a single record for first() without changing the query', async () => {
+            server.reply(200, { value: [{ name: 'A' }] }).reply(200, { value: [] });
+
+            const account = new AccountEntity('account').withClient(client).select('name').page(3, 25);
+
+            expect(await account.first()).toEqual({ name: 'A' });
+            expect(await account.first()).toBeUndefined();
+            expect(server.requests[0].fetchXml).toBe('<fetch top="1"><entity name="account"><attribute name="name"/></entity></fetch>');
+            expect(account.build()).toBe('<fetch page="3" count="25"><entity name="account"><attribute name="name"/></entity></fetch>');
+        });
+
+        it('should require exactly one record for single()', async () => {
+            server
+                .reply(200, { value: [{ name: 'A' }] })
+                .reply(200, { value: [] })
+                .reply(200, { value: [{ name: 'A' }, { name: 'B' }] });
+
+            const account = new AccountEntity('account').withClient(client).select('name');
+
+            expect(await account.single()).toEqual({ name: 'A' });
+            await expect(account.single()).rejects.toThrow(new QueryResultError('Expected exactly one account record but found none'));
+            await expect(account.single()).rejects.toThrow('Expected exactly one account record but found more than one');
+            expect(server.requests[0].fetchXml).toContain('top="2"');
+        });
+
+        it('should paginate through the client', async () => {
+            server
+                .reply(200, {
+                    value: [{ name: 'A' }],
+                    '@Microsoft.Dynamics.CRM.morerecords': true,
+                    '@Microsoft.Dynamics.CRM.fetchxmlpagingcookie': '<cookie pagenumber="2" pagingcookie="%253ccookie%2520page%253d%25221%2522%252f%253e" istracking="False" />'
+                })
+                .reply(200, { value: [{ name: 'B' }] });
+
+            const names: string[] = [];
+            for await (const record of new AccountEntity('account').withClient(client).select('name').page(1, 1).paginate()) {
+                names.push(record.name);
+            }
+
+            expect(names).toEqual(['A', 'B']);
+            expect(server.requests[1].fetchXml).toBe('<fetch page="2" count="1" paging-cookie="&lt;cookie page=&quot;1&quot;/&gt;"><entity name="account"><attribute name="name"/></entity></fetch>');
+        });
+
+        it('should require a client', async () => {
+            await expect(new AccountEntity('account').execute()).rejects.toThrow('No Dataverse client set, call withClient() first');
+        });
+    });
+});
@@ -0,0 +1,181 @@
+import { BaseEntity } from '../src/entities/base-entity';
+import { Entity, Column } from '../src/decorators';
+import { EntitySchema } from '../src/metadata/entity-schema';
+import { ResultMapper } from '../src/mappers/result-mapper';
+import { QueryBuildError, ValidationError } from '../src/errors';
+import { EntityReference } from '../src/types';
+import { Logger } from '../src/logger';
+
+@Entity('account', { primaryId: 'accountid', entitySet: 'accounts' })
+class Account {
+    @Column({ type: 'guid' }) accountid!: string;
+    @Column() name!: string;
+    @Column({ type: 'money' }) revenue!: number;
+    @Column({ type: 'datetime' }) createdon!: Date;
+    @Column({ type: 'lookup' }) primarycontactid!: EntityReference;
+}
+
+@Entity('contact', { primaryId: 'contactid' })
+class Contact {
+    @Column({ type: 'guid' }) contactid!: string;
+    @Column({ type: 'string' }) fullname!: string;
+    @Column({ type: 'lookup' }) parentcustomerid!: EntityReference;
+    @Column({ type: 'datetime' }) birthdate!: Date;
+}
+
+@Entity('email', { primaryId: 'activityid' })
+class EmailEntity extends BaseEntity<{ activityid: string; subject: string }> {}
+
+@Entity('account')
+class AccountEntity extends BaseEntity<Account> {}
+
+class Query<T> extends BaseEntity<T> {}
+
+describe('Decorators', () => {
+    describe('Schema', () => {
+        it('should register entities with their columns', () => {
+            expect(EntitySchema.of(Account)).toEqual({
+                logicalName: 'account',
+                primaryId: 'accountid',
+                entitySet: 'accounts',
+                columns: {
+                    accountid: { name: 'accountid', type: 'guid' },
+                    name: { name: 'name' },
+                    revenue: { name: 'revenue', type: 'money' },
+                    createdon: { name: 'createdon', type: 'datetime' },
+                    primarycontactid: { name: 'primarycontactid', type: 'lookup' }
+                }
+            });
+            expect(EntitySchema.forEntity('contact')?.primaryId).toBe('contactid');
+            expect(EntitySchema.getColumnType('contact', 'birthdate')).toBe('datetime');
+            expect(EntitySchema.hasColumn('account', 'name')).toBe(true);
+            expect(EntitySchema.getColumnType('account', 'name')).toBeUndefined();
+        });
+
+        it('should inherit columns of decorated base classes', () => {
+            @Entity('lead')
+            class Lead {
+                @Column() subject!: string;
+            }
+
+            @Entity('lead')
+            class QualifiedLead extends Lead {
+                @Column({ type: 'datetime' }) qualifiedon!: Date;
+            }
+
+            expect(Object.keys(EntitySchema.of(QualifiedLead)!.columns)).toEqual(['subject', 'qualifiedon']);
+        });
+
+        it('should reject empty entity names', () => {
+            expect(() => Entity('')(class Empty {})).toThrow(ValidationError);
+        });
+    });
+
+    describe('Entities', () => {
+        it('should take the entity from the decorated subclass', () => {
+            const account = new AccountEntity();
+
+            expect(account.entityName).toBe('account');
+            expect(account.entitySetName).toBe('accounts');
+            expect(account.select('name').build()).toBe('<fetch><entity name="account"><attribute name="name"/></entity></fetch>');
+        });
+
+        it('should take the entity from a decorated model class', () => {
+            const contacts = new Query<Contact>(Contact);
+
+            expect(contacts.entityName).toBe('contact');
+            expect(contacts.entitySetName).toBeUndefined();
+            expect(contacts.select('fullname').build()).toBe('<fetch><entity name="contact"><attribute name="fullname"/></entity></fetch>');
+        });
+
+        it('should reject undecorated classes and mismatching names', () => {
+            class Undecorated {}
+
+            expect(() => new Query(Undecorated)).toThrow('Class Undecorated is not decorated with @Entity');
+            expect(() => new AccountEntity('contact')).toThrow('Entity name contact does not match @Entity name account');
+            expect(() => new Query()).toThrow(ValidationError);
+        });
+
+        it('should count the primary key declared with @Entity', () => {
+            const result = new EmailEntity().count().build();
+
+            expect(result).toContain('<attribute name="activityid" aggregate="count"/>');
+        });
+    });
+
+    describe('Validation', () => {
+        const untyped = () => new AccountEntity() as BaseEntity<any>;
+
+        it('should reject columns that are not declared', () => {
+            expect(() => untyped().where('numberofemployees', 'gt', 10).build()).toThrow(QueryBuildError);
+            expect(() => untyped().select('numberofemployees').build()).toThrow('Unknown attribute numberofemployees on entity account');
+        });
+
+        it('should check operators and values against column types', () => {
+            expect(() => untyped().where('revenue', 'like', '%1%').build()).toThrow('Operator like cannot be used on money attribute account.revenue');
+            expect(() => untyped().where('createdon', 'gt', 'yesterday').build()).toThrow('is not valid for datetime attribute account.createdon');
+            expect(() => untyped().where('name', 'like', 'Contoso%').build()).not.toThrow();
+        });
+
+        it('should check join columns', () => {
+            const valid = new AccountEntity()
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                    .select('fullname')
+                    .end();
+
+            expect(() => valid.build()).not.toThrow();
+            expect(() => new AccountEntity().join<Contact>('contact', 'name', 'ownerid', 'Contacts').end().build())
+                .toThrow('Join columns from=ownerid to=name do not exist on contact and account');
+        });
+
+        it('should only validate entities with declared columns and warn once per entity', () => {
+            const warn = jest.spyOn(Logger.getInstance(), 'warn').mockImplementation(() => undefined);
+            const joined = () => untyped()
+                .join<any>('opportunity', 'accountid', 'parentaccountid')
+                    .select('estimatedvalue')
+                    .end();
+
+            try {
+                expect(() => new Query<any>('opportunity').where('estimatedvalue', 'like', '%1%').build()).not.toThrow();
+                expect(warn).not.toHaveBeenCalled();
+
+                expect(() => joined().build()).not.toThrow();
+                expect(() => joined().build()).not.toThrow();
+                expect(warn).toHaveBeenCalledTimes(1);
+                expect(warn).toHaveBeenCalledWith('No metadata for entity opportunity, skipping metadata validation');
+            } finally {
+                warn.mockRestore();
+            }
+        });
+
+        it('should serialize values by column type', () => {
+            const result = new AccountEntity().where('revenue', 'gt', 1000.123456).build();
+
+            expect(result).toContain('<condition attribute="revenue" operator="gt" value="1000.1235"/>');
+        });
+    });
+
+    describe('Result Mapping', () => {
+        it('should map datetime columns to dates', () => {
+            const query = new AccountEntity()
+                .select('name', 'createdon')
+                .selectAs('createdon', 'Created')
+                .join<Contact>('contact', 'primarycontactid', 'contactid', 'Contact', 'outer')
+                    .select('birthdate')
+                    .end()
+                .toQuery();
+
+            const [record] = new ResultMapper(query).map([{
+                'name': '2024-01-15',
+                'createdon': '2024-01-15T10:30:00Z',
+                'Created': '2024-01-15T10:30:00Z',
+                'Contact.birthdate': '1990-05-01T00:00:00Z'
+            }]);
+
+            expect(record.name).toBe('2024-01-15');
+            expect(record.createdon).toEqual(new Date('2024-01-15T10:30:00Z'));
+            expect(record.Created).toEqual(new Date('2024-01-15T10:30:00Z'));
+            expect(record.Contact.birthdate).toEqual(new Date('1990-05-01T00:00:00Z'));
+        });
+    });
+});
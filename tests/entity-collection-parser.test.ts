@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EntityCollectionParser } from '../src/parsers/entity-collection-parser';
+import { BaseEntity } from '../src/entities/base-entity';
+import { DataverseError, QueryBuildError } from '../src/errors';
+import { EntityReference } from '../src/types';
+
+interface Account {
+    name: string;
+    revenue: number;
+    statecode: number;
+    accountid: string;
+    donotemail: boolean;
+    primarycontactid: EntityReference;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+const fixture = (name: string): string => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+describe('EntityCollectionParser', () => {
+    describe('RetrieveMultiple Responses', () => {
+        it('should parse records, lookups, aliased values and formatted values', () => {
+            const result = new EntityCollectionParser(fixture('retrieve-multiple-response.xml')).parse();
+
+            expect(result.records[0]).toEqual({
+                name: 'Contoso & Co',
+                revenue: 1000.5,
+                statecode: 0,
+                primarycontactid: { id: '5f3a0c2d-0000-0000-0000-000000000001', logicalName: 'contact', name: 'Jane Doe' },
+                accountid: 'a1000000-0000-0000-0000-000000000001',
+                donotemail: false,
+                Contacts: {
+                    fullname: 'Jane Doe',
+                    parentcustomerid: { id: 'a1000000-0000-0000-0000-000000000001', logicalName: 'account', name: 'Contoso & Co' }
+                },
+                $formatted: { revenue: '$1,000.50', statecode: 'Active', donotemail: 'Allow' }
+            });
+            expect(result.records[1]).toEqual({ name: 'Fabrikam', accountid: 'a1000000-0000-0000-0000-000000000002' });
+        });
+
+        it('should read paging information', () => {
+            const result = new EntityCollectionParser(fixture('retrieve-multiple-response.xml')).parse();
+
+            expect(result.entityName).toBe('account');
+            expect(result.moreRecords).toBe(true);
+            expect(result.pagingCookie).toBe('<cookie page="1"><accountid last="{A1000000-0000-0000-0000-000000000002}" first="{A1000000-0000-0000-0000-000000000001}" /></cookie>');
+            expect(result.totalRecordCount).toBe(42);
+            expect(result.totalRecordCountLimitExceeded).toBe(false);
+        });
+
+        it('should map records like the Web API results of the same query', () => {
+            const account = new AccountEntity('account')
+                .select('name', 'revenue', 'primarycontactid')
+                .join<{ fullname: string }>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                    .select('fullname')
+                    .end();
+
+            const result = new EntityCollectionParser(fixture('retrieve-multiple-response.xml'), account.toQuery()).parse<Account>();
+
+            expect(result.records[1]).toEqual({
+                name: 'Fabrikam',
+                revenue: null,
+                primarycontactid: null,
+                accountid: 'a1000000-0000-0000-0000-000000000002',
+                Contacts: { fullname: null }
+            });
+        });
+
+        it('should parse aggregate results', () => {
+            const result = new EntityCollectionParser(fixture('aggregate-response.xml')).parse();
+
+            expect(result.records).toEqual([{
+                City: 'Seattle',
+                Total: 3,
+                TotalRevenue: 2500,
+                Industries: '1,3',
+                LastModified: null,
+                $formatted: { TotalRevenue: '$2,500.00' }
+            }]);
+            expect(result.moreRecords).toBe(false);
+            expect(result.pagingCookie).toBeUndefined();
+            expect(result.totalRecordCount).toBeUndefined();
+        });
+
+        it('should accept a bare EntityCollection', () => {
+            const xml = '<EntityCollection xmlns:a="http://schemas.microsoft.com/xrm/2011/Contracts"><a:Entities/><a:MoreRecords>false</a:MoreRecords></EntityCollection>';
+
+            expect(new EntityCollectionParser(xml).parse()).toEqual({ records: [], moreRecords: false });
+        });
+    });
+
+    describe('Errors', () => {
+        it('should raise organization service faults', () => {
+            const parse = () => new EntityCollectionParser(fixture('fault-response.xml')).parse();
+
+            expect(parse).toThrow(DataverseError);
+            expect(parse).toThrow("Organization service fault: 'account' entity doesn't contain attribute with Name = 'foo'.");
+
+            try {
+                parse();
+            } catch (error) {
+                expect((error as DataverseError).errorCode).toBe('-2147217149');
+            }
+        });
+
+        it('should reject documents without an EntityCollection', () => {
+            expect(() => new EntityCollectionParser('<Envelope><Body/></Envelope>').parse()).toThrow('Invalid EntityCollection: No EntityCollection found (line 1, column 1)');
+        });
+
+        it('should reject unsupported value types with position', () => {
+            const xml = '<c xmlns:i="i"><Entities><Entity><Attributes><KeyValuePairOfstringanyType><key>x</key>\n<value i:type="a:Unknown">1</value></KeyValuePairOfstringanyType></Attributes></Entity></Entities></c>';
+            const parse = () => new EntityCollectionParser(xml).parse();
+
+            expect(parse).toThrow(QueryBuildError);
+            expect(parse).toThrow('Invalid EntityCollection: Unsupported value type "Unknown" for "x" (line 2, column 1)');
+        });
+    });
+});
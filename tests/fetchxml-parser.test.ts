@@ -0,0 +1,236 @@
+import { FetchXMLParser } from '../src/parsers/fetchxml-parser';
+import { FetchXMLBuilder } from '../src/builders/xml-builder';
+import { BaseEntity } from '../src/entities/base-entity';
+import { QueryBuildError } from '../src/errors';
+
+interface Account {
+    name: string;
+    revenue: number;
+    accountid: string;
+    statecode: number;
+    createdon: Date;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+const roundTrip = (xml: string): string => new FetchXMLBuilder(new FetchXMLParser(xml).parse()).build();
+
+describe('FetchXMLParser', () => {
+    describe('Parsing', () => {
+        it('should parse fetch options, attributes and orders', () => {
+            const query = new FetchXMLParser(
+                '<fetch distinct="true" top="50"><entity name="account"><attribute name="name"/><attribute name="revenue" alias="Revenue"/><order attribute="name" descending="false"/></entity></fetch>'
+            ).parse();
+
+            expect(query).toEqual({
+                entity: 'account',
+                distinct: true,
+                top: 50,
+                attributes: [{ name: 'name' }, { name: 'revenue', alias: 'Revenue' }],
+                orders: [{ attribute: 'name', order: 'asc' }]
+            });
+        });
+
+        it('should parse nested filters and condition values', () => {
+            const query = new FetchXMLParser(`
+                <fetch>
+                    <entity name="account">
+                        <filter type="and">
+                            <condition attribute="statecode" operator="eq" value="0"/>
+                            <filter type="or">
+                                <condition attribute="statecode" operator="in">
+                                    <value>1</value>
+                                    <value>2</value>
+                                </condition>
+                                <condition attribute="createdon" operator="last-x-days" value="30"/>
+                            </filter>
+                        </filter>
+                    </entity>
+                </fetch>
+            `).parse();
+
+            expect(query.filters).toEqual({
+                type: 'and',
+                conditions: [
+                    { attribute: 'statecode', operator: 'eq', value: '0' },
+                    {
+                        type: 'or',
+                        conditions: [
+                            { attribute: 'statecode', operator: 'in', value: ['1', '2'] },
+                            { attribute: 'createdon', operator: 'last-x-days', value: 30 }
+                        ]
+                    }
+                ]
+            });
+        });
+
+        it('should parse link entities and move filter links to the entity links', () => {
+            const query = new FetchXMLParser(
+                '<fetch><entity name="account"><filter type="and"><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="not any"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></link-entity></filter></entity></fetch>'
+            ).parse();
+
+            expect(query.filters).toBeUndefined();
+            expect(query.links).toEqual([{
+                name: 'contact',
+                from: 'parentcustomerid',
+                to: 'accountid',
+                linkType: 'not any',
+                attributes: [],
+                filters: { type: 'and', conditions: [{ attribute: 'statecode', operator: 'eq', value: '0' }] }
+            }]);
+        });
+
+        it('should keep links inside or and nested filters in their filter group', () => {
+            const query = new FetchXMLParser(
+                '<fetch><entity name="account"><filter type="or"><condition attribute="name" operator="eq" value="A"/><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="any"></link-entity></filter></entity></fetch>'
+            ).parse();
+
+            expect(query.links).toBeUndefined();
+            expect(query.filters).toEqual({
+                type: 'or',
+                conditions: [{ attribute: 'name', operator: 'eq', value: 'A' }],
+                links: [{ name: 'contact', from: 'parentcustomerid', to: 'accountid', linkType: 'any', attributes: [] }]
+            });
+        });
+
+        it('should accept Advanced Find exports', () => {
+            const xml = `<?xml version="1.0" encoding="utf-8"?>
+<!-- exported view -->
+<fetch version="1.0" output-format="xml-platform" mapping="logical" distinct="false">
+  <entity name="account">
+    <attribute name="name" />
+    <attribute name="accountid" />
+    <order attribute="name" descending="false" />
+    <filter type="and">
+      <condition attribute="name" operator="like" value="%Contoso &amp; Co%" />
+    </filter>
+  </entity>
+</fetch>`;
+
+            const query = new FetchXMLParser(xml).parse();
+
+            expect(query.distinct).toBe(false);
+            expect(query.filters!.conditions[0]).toEqual({ attribute: 'name', operator: 'like', value: '%Contoso & Co%' });
+        });
+
+        it('should keep all-attributes of entities and link entities', () => {
+            const query = new FetchXMLParser('<fetch><entity name="account"><all-attributes/><link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts"><all-attributes/></link-entity></entity></fetch>').parse();
+
+            expect(query.allAttributes).toBe(true);
+            expect(query.links![0]).toEqual({ name: 'contact', from: 'parentcustomerid', to: 'accountid', alias: 'Contacts', allAttributes: true, attributes: [] });
+        });
+    });
+
+    describe('Round Trip', () => {
+        it.each([
+            '<fetch><entity name="account"><attribute name="name"/></entity></fetch>',
+            '<fetch distinct="true" top="10"><entity name="account"><attribute name="name" alias="AccountName"/><order attribute="name" descending="true"/></entity></fetch>',
+            '<fetch aggregate="true"><entity name="account"><attribute name="createdon" groupby="true" dategrouping="month" usertimezone="false" alias="Month"/><attribute name="revenue" aggregate="sum" alias="TotalRevenue"/><order alias="TotalRevenue" descending="true"/></entity></fetch>',
+            '<fetch page="3" count="5000" paging-cookie="&lt;cookie page=&quot;2&quot;&gt;&lt;accountid last=&quot;{A1}&quot; /&gt;&lt;/cookie&gt;" returntotalrecordcount="true"><entity name="account"><attribute name="name"/></entity></fetch>',
+            '<fetch page="2" count="25"><entity name="account"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><filter type="or"><condition attribute="name" operator="begins-with" value="A"/><condition attribute="revenue" operator="between"><value>1</value><value>2</value></condition></filter></filter></entity></fetch>',
+            '<fetch><entity name="account"><filter type="and"><condition entityname="Contacts" attribute="contactid" operator="null"/><condition attribute="name" operator="ne" valueof="Contacts.fullname"/></filter><order entityname="Contacts" attribute="lastname" descending="false"/><link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts" link-type="outer"><attribute name="lastname"/><link-entity name="systemuser" from="systemuserid" to="owninguser" alias="Owner" intersect="true" visible="false"><attribute name="fullname"/><order attribute="fullname" descending="false"/></link-entity></link-entity></entity></fetch>',
+            '<fetch><entity name="account"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="not any"></link-entity></filter></entity></fetch>',
+            '<fetch><entity name="account"><filter type="or"><condition attribute="name" operator="eq" value="A"/><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="any"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></link-entity></filter></entity></fetch>',
+            '<fetch><entity name="account"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><filter type="or"><condition attribute="name" operator="eq" value="A"/><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="not all"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></link-entity></filter></filter></entity></fetch>',
+            '<fetch><entity name="account"><filter type="and"><condition attribute="primarycontactid" operator="eq" value="8a2b1e4c-1b2c-4d5e-8f90-0123456789ab" uiname="Jane Doe" uitype="contact"/><condition attribute="ownerid" operator="in"><value uitype="team">1c2b1e4c-1b2c-4d5e-8f90-0123456789ab</value></condition></filter></entity></fetch>',
+            '<fetch><entity name="account"><all-attributes/><link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts" link-type="outer"><all-attributes/></link-entity></entity></fetch>',
+            '<fetch top="5" no-lock="true"><entity name="account"><attribute name="name"/></entity></fetch>'
+        ])('should round-trip %s', xml => {
+            expect(roundTrip(xml)).toBe(xml);
+        });
+
+        it('should round-trip builder output', () => {
+            const xml = new AccountEntity('account')
+                .select('name')
+                .where('statecode', 'eq', 0)
+                .whereGroup('or', group => group.where('revenue', 'gt', 1000).where('createdon', 'this-year'))
+                .join<{ fullname: string }>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                    .select('fullname')
+                    .end()
+                .orderBy('name')
+                .top(10)
+                .build();
+
+            expect(roundTrip(xml)).toBe(xml);
+        });
+    });
+
+    describe('Hydration', () => {
+        it('should hydrate an entity builder for further modification', () => {
+            const account = new FetchXMLParser(
+                '<fetch><entity name="account"><attribute name="name"/><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></entity></fetch>'
+            ).hydrate(new AccountEntity('account'));
+
+            const result = account
+                .select('revenue')
+                .where('revenue', 'gt', 1000)
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><attribute name="name"/><attribute name="revenue"/><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><condition attribute="revenue" operator="gt" value="1000"/></filter></entity></fetch>');
+        });
+
+        it('should reject queries for a different entity', () => {
+            const parser = new FetchXMLParser('<fetch><entity name="contact"/></fetch>');
+
+            expect(() => parser.hydrate(new AccountEntity('account'))).toThrow('Query targets entity contact but builder targets account');
+        });
+    });
+
+    describe('Errors', () => {
+        const parseError = (xml: string): QueryBuildError => {
+            try {
+                new FetchXMLParser(xml).parse();
+            } catch (error) {
+                return error as QueryBuildError;
+            }
+            throw new Error('Expected parse to fail');
+        };
+
+        it('should report unclosed elements with position', () => {
+            const error = parseError('<fetch>\n  <entity name="account">\n</fetch>');
+
+            expect(error).toBeInstanceOf(QueryBuildError);
+            expect(error.message).toBe('Malformed XML: Expected </entity> but found </fetch> (line 3, column 8)');
+            expect(error.line).toBe(3);
+            expect(error.column).toBe(8);
+        });
+
+        it('should report unquoted attribute values', () => {
+            const error = parseError('<fetch top=10><entity name="account"/></fetch>');
+
+            expect(error.message).toBe('Malformed XML: Expected quoted attribute value (line 1, column 12)');
+        });
+
+        it('should report invalid operators at the condition', () => {
+            const error = parseError('<fetch>\n<entity name="account">\n<filter>\n  <condition attribute="name" operator="contains" value="x"/>\n</filter>\n</entity>\n</fetch>');
+
+            expect(error.message).toBe('Invalid FetchXML: Invalid filter operator: contains (line 4, column 3)');
+        });
+
+        it('should report missing required attributes', () => {
+            const error = parseError('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid"/></entity></fetch>');
+
+            expect(error.message).toBe('Invalid FetchXML: Missing "to" attribute on <link-entity> (line 1, column 31)');
+        });
+
+        it('should reject fetch attributes the query cannot represent', () => {
+            const error = parseError('<fetch latematerialize="true"><entity name="account"/></fetch>');
+
+            expect(error.message).toBe('Invalid FetchXML: Unsupported attribute "latematerialize" on <fetch> (line 1, column 1)');
+        });
+
+        it('should reject unexpected elements', () => {
+            const error = parseError('<fetch><entity name="account"><select name="x"/></entity></fetch>');
+
+            expect(error.message).toBe('Invalid FetchXML: Unexpected element <select> in <entity> (line 1, column 31)');
+        });
+
+        it('should reject unknown entities and trailing content', () => {
+            expect(parseError('<fetch><entity name="a" x="&foo;"/></fetch>').message).toContain('Unknown entity "&foo;"');
+            expect(parseError('<fetch><entity name="a"/></fetch><fetch/>').message).toContain('Unexpected content after root element');
+            expect(parseError('').message).toContain('Document is empty');
+        });
+    });
+});
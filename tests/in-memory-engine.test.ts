@@ -0,0 +1,371 @@
+import { InMemoryEngine } from '../src/engine/in-memory-engine';
+import { BaseEntity } from '../src/entities/base-entity';
+import { manyToOne, oneToMany } from '../src/relationships/relationship';
+import { QueryBuildError } from '../src/errors';
+import { ValueSerializer } from '../src/serializers/value-serializer';
+import { FetchQuery, FilterCondition, InMemoryData, LinkEntity } from '../src/types';
+
+interface Account {
+    accountid: string;
+    name: string;
+    revenue: number;
+    statecode: number;
+    createdon: Date;
+    primarycontactid: string;
+}
+
+interface Contact {
+    contactid: string;
+    fullname: string;
+    statecode: number;
+    parentcustomerid: string;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+
+    relationships = {
+        primarycontactid: manyToOne<Contact>('contact', 'contactid', 'primarycontactid'),
+        contact_customer_accounts: oneToMany<Contact>('contact', 'parentcustomerid', 'accountid')
+    };
+}
+
+const NOW = new Date('2024-05-15T12:00:00Z');
+
+const data: InMemoryData = {
+    account: [
+        { accountid: 'a1', name: 'Contoso', revenue: 500, statecode: 0, createdon: '2024-05-15T08:00:00Z', primarycontactid: 'c1', ownerid: 'u1' },
+        { accountid: 'a2', name: 'Fabrikam', revenue: 1500, statecode: 0, createdon: '2024-05-01T00:00:00Z', primarycontactid: 'c3', ownerid: 'u2' },
+        { accountid: 'a3', name: 'Northwind', revenue: null, statecode: 1, createdon: '2023-11-20T00:00:00Z', primarycontactid: null, ownerid: 'u1' },
+        { accountid: 'a4', name: 'Adventure Works', revenue: 250, statecode: 0, createdon: '2024-05-14T23:00:00Z', primarycontactid: null, ownerid: 'u2' }
+    ],
+    contact: [
+        { contactid: 'c1', fullname: 'Jane Doe', statecode: 0, parentcustomerid: 'a1' },
+        { contactid: 'c2', fullname: 'John Doe', statecode: 1, parentcustomerid: 'a1' },
+        { contactid: 'c3', fullname: 'Ann Smith', statecode: 0, parentcustomerid: 'a2' },
+        { contactid: 'c4', fullname: 'Bob Smith', statecode: 1, parentcustomerid: 'a3' }
+    ]
+};
+
+describe('InMemoryEngine', () => {
+    const engine = new InMemoryEngine(data, { now: NOW, userId: 'u1' });
+    const run = (query: Partial<FetchQuery>) => engine.execute({ entity: 'account', attributes: [{ name: 'name' }], ...query });
+    const names = (query: Partial<FetchQuery>) => run(query).map(record => record.name);
+    const where = (...conditions: FilterCondition[]) => names({ filters: { type: 'and', conditions } });
+
+    describe('Filters', () => {
+        it('should evaluate comparison operators', () => {
+            expect(where({ attribute: 'statecode', operator: 'eq', value: 0 })).toEqual(['Contoso', 'Fabrikam', 'Adventure Works']);
+            expect(where({ attribute: 'revenue', operator: 'gt', value: 400 })).toEqual(['Contoso', 'Fabrikam']);
+            expect(where({ attribute: 'revenue', operator: 'le', value: '500' })).toEqual(['Contoso', 'Adventure Works']);
+            expect(where({ attribute: 'revenue', operator: 'ne', value: 500 })).toEqual(['Fabrikam', 'Adventure Works']);
+            expect(where({ attribute: 'name', operator: 'eq', value: 'contoso' })).toEqual(['Contoso']);
+        });
+
+        it('should evaluate null, list and range operators', () => {
+            expect(where({ attribute: 'revenue', operator: 'null' })).toEqual(['Northwind']);
+            expect(where({ attribute: 'primarycontactid', operator: 'not-null' })).toEqual(['Contoso', 'Fabrikam']);
+            expect(where({ attribute: 'accountid', operator: 'in', value: ['a2', 'a3'] })).toEqual(['Fabrikam', 'Northwind']);
+            expect(where({ attribute: 'accountid', operator: 'not-in', value: ['a2', 'a3'] })).toEqual(['Contoso', 'Adventure Works']);
+            expect(where({ attribute: 'revenue', operator: 'between', value: [250, 500] })).toEqual(['Contoso', 'Adventure Works']);
+        });
+
+        it('should evaluate string operators', () => {
+            expect(where({ attribute: 'name', operator: 'like', value: '%OR%' })).toEqual(['Northwind', 'Adventure Works']);
+            expect(where({ attribute: 'name', operator: 'like', value: '[CF]%' })).toEqual(['Contoso', 'Fabrikam']);
+            expect(where({ attribute: 'name', operator: 'not-like', value: '_o%' })).toEqual(['Fabrikam', 'Adventure Works']);
+            expect(where({ attribute: 'name', operator: 'begins-with', value: 'fab' })).toEqual(['Fabrikam']);
+            expect(where({ attribute: 'name', operator: 'ends-with', value: 'works' })).toEqual(['Adventure Works']);
+        });
+
+        it('should evaluate date operators relative to now in UTC', () => {
+            expect(where({ attribute: 'createdon', operator: 'today' })).toEqual(['Contoso']);
+            expect(where({ attribute: 'createdon', operator: 'yesterday' })).toEqual(['Adventure Works']);
+            expect(where({ attribute: 'createdon', operator: 'this-month' })).toEqual(['Contoso', 'Fabrikam', 'Adventure Works']);
+            expect(where({ attribute: 'createdon', operator: 'last-x-days', value: 1 })).toEqual(['Contoso', 'Adventure Works']);
+            expect(where({ attribute: 'createdon', operator: 'olderthan-x-months', value: 3 })).toEqual(['Northwind']);
+            expect(where({ attribute: 'createdon', operator: 'on-or-after', value: '2024-05-14' })).toEqual(['Contoso', 'Adventure Works']);
+            expect(where({ attribute: 'createdon', operator: 'last-year' })).toEqual(['Northwind']);
+        });
+
+        it('should compare calendar dates in the time zone of the serializer', () => {
+            const query = new AccountEntity('account').select('name').where('createdon', 'on', new Date('2024-05-14T23:00:00Z'));
+
+            try {
+                ValueSerializer.useTimeZone('Europe/Berlin');
+
+                expect(query.build()).toContain('value="2024-05-15"');
+                expect(engine.execute(query).map(record => record.name)).toEqual(['Contoso', 'Adventure Works']);
+                expect(where({ attribute: 'createdon', operator: 'on-or-before', value: '2024-05-14' })).toEqual(['Fabrikam', 'Northwind']);
+
+                ValueSerializer.useTimeZone('UTC');
+
+                expect(query.build()).toContain('value="2024-05-14"');
+                expect(engine.execute(query).map(record => record.name)).toEqual(['Adventure Works']);
+            } finally {
+                ValueSerializer.useTimeZone();
+            }
+        });
+
+        it('should evaluate current user operators with the userId option', () => {
+            expect(where({ attribute: 'ownerid', operator: 'eq-userid' })).toEqual(['Contoso', 'Northwind']);
+            expect(() => new InMemoryEngine(data).execute({
+                entity: 'account',
+                attributes: [],
+                filters: { type: 'and', conditions: [{ attribute: 'ownerid', operator: 'eq-userid' }] }
+            })).toThrow('Operator eq-userid requires the userId option of the in-memory engine');
+        });
+
+        it('should evaluate nested filter groups', () => {
+            expect(names({
+                filters: {
+                    type: 'and',
+                    conditions: [
+                        { attribute: 'statecode', operator: 'eq', value: 0 },
+                        {
+                            type: 'or',
+                            conditions: [
+                                { attribute: 'revenue', operator: 'lt', value: 300 },
+                                { attribute: 'name', operator: 'eq', value: 'Fabrikam' }
+                            ]
+                        }
+                    ]
+                }
+            })).toEqual(['Fabrikam', 'Adventure Works']);
+        });
+
+        it('should compare columns', () => {
+            const engine = new InMemoryEngine({ opportunity: [{ name: 'A', actualvalue: 10, estimatedvalue: 5 }, { name: 'B', actualvalue: 1, estimatedvalue: 5 }] });
+
+            expect(engine.execute({
+                entity: 'opportunity',
+                attributes: [{ name: 'name' }],
+                filters: { type: 'and', conditions: [{ attribute: 'actualvalue', operator: 'gt', valueof: 'estimatedvalue' }] }
+            })).toEqual([{ name: 'A' }]);
+        });
+
+        it('should reject operators without in-memory equivalent', () => {
+            expect(() => where({ attribute: 'createdon', operator: 'this-fiscal-year' }))
+                .toThrow(new QueryBuildError('Operator this-fiscal-year is not supported by the in-memory engine'));
+        });
+    });
+
+    describe('Joins', () => {
+        const contacts = (linkType: LinkEntity['linkType'], conditions: FilterCondition[] = []): LinkEntity => ({
+            name: 'contact',
+            from: 'parentcustomerid',
+            to: 'accountid',
+            alias: 'Contacts',
+            linkType,
+            attributes: [],
+            filters: conditions.length > 0 ? { type: 'and', conditions } : undefined
+        });
+        const active: FilterCondition = { attribute: 'statecode', operator: 'eq', value: 0 };
+
+        it('should return one row per match of inner links and keep unmatched rows of outer links', () => {
+            const account = new AccountEntity('account')
+                .select('name')
+                .orderBy('name')
+                .joinRelation('primarycontactid', 'Contact', 'outer')
+                    .select('fullname')
+                    .end();
+
+            expect(engine.execute(account)).toEqual([
+                { 'name': 'Adventure Works', 'Contact.fullname': null },
+                { 'name': 'Contoso', 'Contact.fullname': 'Jane Doe' },
+                { 'name': 'Fabrikam', 'Contact.fullname': 'Ann Smith' },
+                { 'name': 'Northwind', 'Contact.fullname': null }
+            ]);
+
+            expect(engine.execute(account.clone().removeJoin('Contact').joinRelation('contact_customer_accounts', 'Contacts').select('fullname').end()))
+                .toEqual([
+                    { 'name': 'Contoso', 'Contacts.fullname': 'Jane Doe' },
+                    { 'name': 'Contoso', 'Contacts.fullname': 'John Doe' },
+                    { 'name': 'Fabrikam', 'Contacts.fullname': 'Ann Smith' },
+                    { 'name': 'Northwind', 'Contacts.fullname': 'Bob Smith' }
+                ]);
+        });
+
+        it('should join links created with join() and whereExists()', () => {
+            const account = new AccountEntity('account')
+                .select('name')
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                    .select('fullname')
+                    .where('statecode', 'eq', 0)
+                    .end();
+
+            expect(engine.execute(account)).toEqual([
+                { 'name': 'Contoso', 'Contacts.fullname': 'Jane Doe' },
+                { 'name': 'Fabrikam', 'Contacts.fullname': 'Ann Smith' }
+            ]);
+            expect(engine.execute(new AccountEntity('account').select('name').whereNotExists<Contact>('contact', 'accountid', 'parentcustomerid').end()))
+                .toEqual([{ name: 'Adventure Works' }]);
+        });
+
+        it('should apply link filters to the join and reference links in conditions', () => {
+            const link = { ...contacts('outer', [active]), attributes: [{ name: 'fullname', alias: 'contact' }] };
+
+            expect(run({ links: [link], orders: [{ attribute: 'name', order: 'asc' }] })).toEqual([
+                { name: 'Adventure Works', contact: null },
+                { name: 'Contoso', contact: 'Jane Doe' },
+                { name: 'Fabrikam', contact: 'Ann Smith' },
+                { name: 'Northwind', contact: null }
+            ]);
+            expect(names({
+                links: [contacts('outer')],
+                filters: { type: 'and', conditions: [{ entityname: 'Contacts', attribute: 'contactid', operator: 'null' }] }
+            })).toEqual(['Adventure Works']);
+        });
+
+        it('should filter parents with exists and any links', () => {
+            expect(names({ links: [contacts('exists')] })).toEqual(['Contoso', 'Fabrikam', 'Northwind']);
+            expect(names({ links: [contacts('in', [active])] })).toEqual(['Contoso', 'Fabrikam']);
+            expect(names({ links: [contacts('any', [active])] })).toEqual(['Contoso', 'Fabrikam']);
+            expect(names({ links: [contacts('not any', [active])] })).toEqual(['Northwind', 'Adventure Works']);
+        });
+
+        it('should evaluate all and not all links over the related records', () => {
+            expect(names({ links: [contacts('all', [active])] })).toEqual(['Fabrikam', 'Adventure Works']);
+            expect(names({ links: [contacts('not all', [active])] })).toEqual(['Contoso', 'Northwind']);
+        });
+
+        it('should evaluate links placed in filter groups', () => {
+            expect(names({
+                filters: {
+                    type: 'or',
+                    conditions: [{ attribute: 'revenue', operator: 'lt', value: 300 }],
+                    links: [contacts('any', [active])]
+                }
+            })).toEqual(['Contoso', 'Fabrikam', 'Adventure Works']);
+        });
+
+        it('should return the first match of matchfirstrowusingcrossapply links', () => {
+            const link = { ...contacts('matchfirstrowusingcrossapply'), attributes: [{ name: 'fullname' }] };
+
+            expect(run({ links: [link], filters: { type: 'and', conditions: [{ attribute: 'accountid', operator: 'eq', value: 'a1' }] } }))
+                .toEqual([{ 'name': 'Contoso', 'Contacts.fullname': 'Jane Doe' }]);
+        });
+
+        it('should drop rows without match of matchfirstrowusingcrossapply links', () => {
+            const link = { ...contacts('matchfirstrowusingcrossapply', [active]), attributes: [{ name: 'fullname' }] };
+
+            expect(run({ links: [link] })).toEqual([
+                { 'name': 'Contoso', 'Contacts.fullname': 'Jane Doe' },
+                { 'name': 'Fabrikam', 'Contacts.fullname': 'Ann Smith' }
+            ]);
+        });
+
+        it('should return all attributes of link entities with all-attributes', () => {
+            const link = { ...contacts('inner'), allAttributes: true };
+
+            expect(run({ links: [link], filters: { type: 'and', conditions: [{ attribute: 'accountid', operator: 'eq', value: 'a2' }] } })).toEqual([{
+                'name': 'Fabrikam',
+                'Contacts.contactid': 'c3',
+                'Contacts.fullname': 'Ann Smith',
+                'Contacts.statecode': 0,
+                'Contacts.parentcustomerid': 'a2'
+            }]);
+        });
+
+        it('should return all attributes of the root entity without selected attributes', () => {
+            const [record] = engine.execute({ entity: 'contact', attributes: [], top: 1 });
+
+            expect(record).toEqual(data.contact[0]);
+        });
+
+        it('should reject entities without data', () => {
+            expect(() => engine.execute({ entity: 'lead', attributes: [] })).toThrow('No records for entity lead in the in-memory data');
+        });
+    });
+
+    describe('Results', () => {
+        it('should order with nulls first and by link attributes', () => {
+            expect(names({ orders: [{ attribute: 'revenue', order: 'asc' }] })).toEqual(['Northwind', 'Adventure Works', 'Contoso', 'Fabrikam']);
+            expect(names({ orders: [{ attribute: 'revenue', order: 'desc' }] })).toEqual(['Fabrikam', 'Contoso', 'Adventure Works', 'Northwind']);
+            expect(names({
+                links: [{ name: 'contact', from: 'contactid', to: 'primarycontactid', alias: 'Contact', attributes: [], orders: [{ attribute: 'fullname', order: 'asc' }] }]
+            })).toEqual(['Fabrikam', 'Contoso']);
+        });
+
+        it('should order by the attribute of an alias without aggregation', () => {
+            const query = () => new AccountEntity('account')
+                .selectAs('revenue', 'Revenue')
+                .select('name')
+                .joinRelation('primarycontactid', 'Contact')
+                    .selectAs('fullname', 'ContactName')
+                    .end();
+
+            expect(engine.execute(query().orderByAlias('Revenue', 'desc')).map(record => record.name)).toEqual(['Fabrikam', 'Contoso']);
+            expect(engine.execute(query().orderByAlias('ContactName', 'desc')).map(record => record.name)).toEqual(['Contoso', 'Fabrikam']);
+        });
+
+        it('should apply top and paging', () => {
+            const orders = [{ attribute: 'name', order: 'asc' as const }];
+
+            expect(names({ orders, top: 2 })).toEqual(['Adventure Works', 'Contoso']);
+            expect(names({ orders, page: 2, count: 3 })).toEqual(['Northwind']);
+        });
+
+        it('should remove duplicate rows with distinct', () => {
+            expect(run({ attributes: [{ name: 'statecode' }], distinct: true })).toEqual([{ statecode: 0 }, { statecode: 1 }]);
+        });
+
+        it('should aggregate grouped rows', () => {
+            const account = new AccountEntity('account')
+                .groupBy('statecode', { alias: 'state' })
+                .sum('revenue', 'total')
+                .avg('revenue', 'average')
+                .count(undefined, 'accounts')
+                .orderByAlias('state');
+
+            expect(engine.execute(account)).toEqual([
+                { state: 0, total: 2250, average: 750, accounts: 3 },
+                { state: 1, total: null, average: null, accounts: 1 }
+            ]);
+        });
+
+        it('should group by date parts and aggregate all rows without groups', () => {
+            const account = new AccountEntity('account')
+                .groupBy('createdon', { alias: 'year', dateGrouping: 'year' })
+                .groupBy('createdon', { alias: 'month', dateGrouping: 'month' })
+                .max('revenue', 'highest')
+                .orderByAlias('year');
+
+            expect(engine.execute(account)).toEqual([
+                { year: 2023, month: 11, highest: null },
+                { year: 2024, month: 5, highest: 1500 }
+            ]);
+            expect(run({
+                attributes: [
+                    { name: 'revenue', alias: 'lowest', aggregate: 'min' },
+                    { name: 'revenue', alias: 'accounts', aggregate: 'count' },
+                    { name: 'revenue', alias: 'withRevenue', aggregate: 'countcolumn' }
+                ],
+                aggregate: true
+            })).toEqual([{ lowest: 250, accounts: 4, withRevenue: 3 }]);
+        });
+    });
+
+    describe('Pagination', () => {
+        it('should serve pages to paginate()', async () => {
+            const records: { name: string }[] = [];
+            const account = new AccountEntity('account').select('name').orderBy('name').page(1, 3);
+
+            for await (const record of account.paginate<{ name: string }>(engine.pageExecutor())) {
+                records.push(record);
+            }
+
+            expect(records.map(record => record.name)).toEqual(['Adventure Works', 'Contoso', 'Fabrikam', 'Northwind']);
+        });
+
+        it('should return the total record count when requested', async () => {
+            const page = await engine.pageExecutor()('<fetch count="2" page="2" returntotalrecordcount="true"><entity name="account"><attribute name="name"/></entity></fetch>', 2);
+
+            expect(page).toEqual({
+                'value': [{ name: 'Northwind' }, { name: 'Adventure Works' }],
+                '@Microsoft.Dynamics.CRM.morerecords': false,
+                '@Microsoft.Dynamics.CRM.totalrecordcount': 4
+            });
+        });
+    });
+});
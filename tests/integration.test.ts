@@ -86,7 +86,7 @@ describe('FetchORM Integration Tests', () => {
             expect(result).toContain('attribute name="revenue"');
             expect(result).toContain('condition attribute="statecode" operator="eq" value="0"');
             expect(result).toContain('condition attribute="revenue" operator="gt" value="1000000"');
-            expect(result).toContain('condition attribute="isactive" operator="eq" value="true"');
+            expect(result).toContain('condition attribute="isactive" operator="eq" value="1"');
             expect(result).toContain('order attribute="revenue" descending="true"');
             expect(result).toContain('top="50"');
         });
@@ -115,11 +115,11 @@ describe('FetchORM Integration Tests', () => {
             expect(result).toContain('attribute name="name"');
             expect(result).toContain('attribute name="revenue"');
             expect(result).toContain('attribute name="revenue" aggregate="sum" alias="TotalRevenue"');
-            expect(result).toContain('link-entity name="contact" from="accountid" to="parentcustomerid" alias="PrimaryContact"');
+            expect(result).toContain('link-entity name="contact" from="parentcustomerid" to="accountid" alias="PrimaryContact"');
             expect(result).toContain('attribute name="firstname"');
             expect(result).toContain('attribute name="lastname"');
             expect(result).toContain('attribute name="emailaddress1"');
-            expect(result).toContain('link-entity name="opportunity" from="accountid" to="parentaccountid" alias="AccountOpportunities"');
+            expect(result).toContain('link-entity name="opportunity" from="parentaccountid" to="accountid" alias="AccountOpportunities"');
             expect(result).toContain('attribute name="name"');
             expect(result).toContain('attribute name="revenue"');
             expect(result).toContain('condition attribute="probability" operator="gt" value="50"');
@@ -152,7 +152,7 @@ describe('FetchORM Integration Tests', () => {
             expect(result).toContain('attribute name="jobtitle"');
             expect(result).toContain('condition attribute="statecode" operator="eq" value="0"');
             expect(result).toContain('condition attribute="emailaddress1" operator="not-null"');
-            expect(result).toContain('link-entity name="email" from="contactid" to="regardingobjectid" alias="ContactEmails"');
+            expect(result).toContain('link-entity name="email" from="regardingobjectid" to="contactid" alias="ContactEmails"');
             expect(result).toContain('attribute name="subject"');
             expect(result).toContain('attribute name="emailaddress"');
             expect(result).toContain('condition attribute="createdon" operator="last-seven-days"');
@@ -193,11 +193,11 @@ describe('FetchORM Integration Tests', () => {
             expect(result).toContain('condition attribute="probability" operator="ge" value="25"');
             expect(result).toContain('condition attribute="revenue" operator="gt" value="50000"');
             expect(result).toContain('condition attribute="estimatedclosedate" operator="this-month"');
-            expect(result).toContain('link-entity name="account" from="parentaccountid" to="accountid" alias="OpportunityAccount"');
+            expect(result).toContain('link-entity name="account" from="accountid" to="parentaccountid" alias="OpportunityAccount"');
             expect(result).toContain('attribute name="name"');
             expect(result).toContain('attribute name="address1_city"');
             expect(result).toContain('attribute name="address1_country"');
-            expect(result).toContain('link-entity name="contact" from="parentcontactid" to="contactid" alias="OpportunityContact"');
+            expect(result).toContain('link-entity name="contact" from="contactid" to="parentcontactid" alias="OpportunityContact"');
             expect(result).toContain('attribute name="firstname"');
             expect(result).toContain('attribute name="lastname"');
             expect(result).toContain('attribute name="jobtitle"');
@@ -219,22 +219,23 @@ describe('FetchORM Integration Tests', () => {
                 .where('statecode', 'eq', 0)
                 .where('revenue', 'gt', 0)
                 .join<Opportunity>('opportunity', 'accountid', 'parentaccountid', 'AccountOpportunities')
-                    .select('revenue', 'opportunityid')
+                    .sum('revenue', 'OpportunityRevenue')
+                    .count('opportunityid', 'OpportunityCount')
                     .where('statecode', 'eq', 0)
                     .end()
-                .orderBy('TotalRevenue', 'desc')
-                .groupBy('address1_country')
+                .orderByAlias('TotalRevenue', 'desc')
+                .groupBy('address1_country', { alias: 'Country' })
                 .build();
 
             expect(result).toContain('entity name="account"');
-            expect(result).toContain('attribute name="address1_country"');
+            expect(result).toContain('attribute name="address1_country" groupby="true" alias="Country"');
             expect(result).toContain('attribute name="revenue" aggregate="sum" alias="TotalRevenue"');
             expect(result).toContain('attribute name="revenue" aggregate="avg" alias="AverageRevenue"');
             expect(result).toContain('attribute name="accountid" aggregate="count" alias="AccountCount"');
-            expect(result).toContain('link-entity name="opportunity" from="accountid" to="parentaccountid" alias="AccountOpportunities"');
-            expect(result).toContain('attribute name="revenue"');
-            expect(result).toContain('attribute name="opportunityid"');
-            expect(result).toContain('order attribute="TotalRevenue" descending="true"');
+            expect(result).toContain('link-entity name="opportunity" from="parentaccountid" to="accountid" alias="AccountOpportunities"');
+            expect(result).toContain('attribute name="revenue" aggregate="sum" alias="OpportunityRevenue"');
+            expect(result).toContain('attribute name="opportunityid" aggregate="count" alias="OpportunityCount"');
+            expect(result).toContain('order alias="TotalRevenue" descending="true"');
         });
 
         it('should generate contact activity query', () => {
@@ -261,10 +262,10 @@ describe('FetchORM Integration Tests', () => {
             expect(result).toContain('attribute name="firstname"');
             expect(result).toContain('attribute name="lastname"');
             expect(result).toContain('attribute name="contactid" aggregate="count" alias="ContactCount"');
-            expect(result).toContain('link-entity name="email" from="contactid" to="regardingobjectid" alias="ContactEmails"');
+            expect(result).toContain('link-entity name="email" from="regardingobjectid" to="contactid" alias="ContactEmails"');
             expect(result).toContain('attribute name="emailid"');
             expect(result).toContain('condition attribute="createdon" operator="last-month"');
-            expect(result).toContain('link-entity name="opportunity" from="contactid" to="parentcontactid" alias="ContactOpportunities"');
+            expect(result).toContain('link-entity name="opportunity" from="parentcontactid" to="contactid" alias="ContactOpportunities"');
             expect(result).toContain('attribute name="opportunityid"');
             expect(result).toContain('attribute name="revenue"');
             expect(result).toContain('order attribute="contactid" descending="true"');
@@ -296,7 +297,7 @@ describe('FetchORM Integration Tests', () => {
             expect(result).toContain('condition attribute="revenue" operator="gt" value="100000"');
             expect(result).toContain('condition attribute="address1_city" operator="like" value="New York"');
             expect(result).toContain('condition attribute="address1_country" operator="eq" value="United States"');
-            expect(result).toContain('link-entity name="contact" from="accountid" to="parentcustomerid" alias="AccountContacts"');
+            expect(result).toContain('link-entity name="contact" from="parentcustomerid" to="accountid" alias="AccountContacts"');
             expect(result).toContain('condition attribute="jobtitle" operator="like" value="Manager"');
             expect(result).toContain('distinct="true"');
         });
@@ -39,7 +39,7 @@ describe('JoinBuilder XML Generation', () => {
             
             const result = joinBuilder.end().build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid"></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"></link-entity></entity></fetch>');
         });
 
         it('should create join with alias', () => {
@@ -47,7 +47,7 @@ describe('JoinBuilder XML Generation', () => {
             
             const result = joinBuilder.end().build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid" alias="PrimaryContact"></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid" alias="PrimaryContact"></link-entity></entity></fetch>');
         });
 
         it('should create outer join', () => {
@@ -55,7 +55,184 @@ describe('JoinBuilder XML Generation', () => {
             
             const result = joinBuilder.end().build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid" link-type="outer"></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="outer"></link-entity></entity></fetch>');
+        });
+    });
+
+    describe('Extended Link Types', () => {
+        it('should render semi-join link types as link-entity children', () => {
+            const result = entity
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', undefined, 'exists')
+                    .where('statecode', 'eq', 0)
+                    .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="exists"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></link-entity></entity></fetch>');
+        });
+
+        it('should render not any link inside the parent filter', () => {
+            const result = entity
+                .select('name')
+                .where('statecode', 'eq', 0)
+                .whereNotExists<Contact>('contact', 'accountid', 'parentcustomerid')
+                    .where('statecode', 'eq', 0)
+                    .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><attribute name="name"/><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="not any"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></link-entity></filter></entity></fetch>');
+        });
+
+        it('should create filter for any link when none exists', () => {
+            const result = entity
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', undefined, 'any')
+                    .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="any"></link-entity></filter></entity></fetch>');
+        });
+
+        it('should append all link to root filter after groups', () => {
+            const result = entity
+                .whereGroup('or', group => group.where('name', 'eq', 'A').where('name', 'eq', 'B'))
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', undefined, 'all')
+                    .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><filter type="or"><condition attribute="name" operator="eq" value="A"/><condition attribute="name" operator="eq" value="B"/></filter><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="all"></link-entity></filter></entity></fetch>');
+        });
+
+        it('should render whereExists as exists link', () => {
+            const result = entity
+                .whereExists<Contact>('contact', 'accountid', 'parentcustomerid', 'ActiveContact')
+                    .where('statecode', 'eq', 0)
+                    .end()
+                .build();
+
+            expect(result).toContain('<link-entity name="contact" from="parentcustomerid" to="accountid" alias="ActiveContact" link-type="exists">');
+        });
+
+        it('should allow selecting attributes in matchfirstrowusingcrossapply link', () => {
+            const result = entity
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', 'FirstContact', 'matchfirstrowusingcrossapply')
+                    .select('firstname')
+                    .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid" alias="FirstContact" link-type="matchfirstrowusingcrossapply"><attribute name="firstname"/></link-entity></entity></fetch>');
+        });
+
+        it('should reject attributes in filter-only links', () => {
+            joinBuilder = entity.whereNotExists<Contact>('contact', 'accountid', 'parentcustomerid');
+
+            expect(() => joinBuilder.select('firstname')).toThrow('Link type "not any" cannot return attributes (contact)');
+            expect(() => joinBuilder.selectAs('firstname', 'First')).toThrow('Link type "not any" cannot return attributes (contact)');
+            expect(() => joinBuilder.groupBy('firstname')).toThrow('Link type "not any" cannot return attributes (contact)');
+        });
+
+        it('should reject invalid link types', () => {
+            expect(() => entity.join<Contact>('contact', 'accountid', 'parentcustomerid', undefined, 'left' as any)).toThrow('Invalid link type: left');
+        });
+    });
+
+    describe('Nested Joins', () => {
+        interface SystemUser {
+            systemuserid: string;
+            fullname: string;
+            isdisabled: boolean;
+        }
+
+        it('should create multi-level joins with typed end', () => {
+            const result = entity
+                .select('name')
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', 'PrimaryContact')
+                    .select('firstname')
+                    .join<SystemUser>('systemuser', 'contactid', 'systemuserid', 'Owner')
+                        .select('fullname')
+                        .where('isdisabled', 'eq', false)
+                        .end()
+                    .select('lastname')
+                    .end()
+                .select('revenue')
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><attribute name="name"/><attribute name="revenue"/><link-entity name="contact" from="parentcustomerid" to="accountid" alias="PrimaryContact"><attribute name="firstname"/><attribute name="lastname"/><link-entity name="systemuser" from="systemuserid" to="contactid" alias="Owner"><attribute name="fullname"/><filter type="and"><condition attribute="isdisabled" operator="eq" value="0"/></filter></link-entity></link-entity></entity></fetch>');
+        });
+
+        it('should render nested not any links inside the link filter', () => {
+            const result = entity
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', 'PrimaryContact')
+                    .whereNotExists<SystemUser>('systemuser', 'contactid', 'systemuserid')
+                        .end()
+                    .end()
+                .build();
+
+            expect(result).toContain('<link-entity name="contact" from="parentcustomerid" to="accountid" alias="PrimaryContact"><filter type="and"><link-entity name="systemuser" from="systemuserid" to="contactid" link-type="not any"></link-entity></filter></link-entity>');
+        });
+
+        it('should accept nested aliases in root conditions', () => {
+            const contact = entity.join<Contact>('contact', 'accountid', 'parentcustomerid', 'PrimaryContact');
+            const owner = contact.join<SystemUser>('systemuser', 'contactid', 'systemuserid', 'Owner', 'outer');
+
+            const result = entity
+                .where(owner, 'systemuserid', 'null')
+                .build();
+
+            expect(result).toContain('<condition entityname="Owner" attribute="systemuserid" operator="null"/>');
+        });
+    });
+
+    describe('Join Ordering and Aggregates', () => {
+        it('should add order inside link entity', () => {
+            const result = entity
+                .join<Contact>('contact', 'accountid', 'parentcustomerid')
+                    .select('lastname')
+                    .orderBy('lastname')
+                    .orderBy('firstname', 'desc')
+                    .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"><attribute name="lastname"/><order attribute="lastname" descending="false"/><order attribute="firstname" descending="true"/></link-entity></entity></fetch>');
+        });
+
+        it('should order by alias inside link entity', () => {
+            const result = entity
+                .join<Contact>('contact', 'accountid', 'parentcustomerid')
+                    .selectAs('lastname', 'ContactLastName')
+                    .orderByAlias('ContactLastName', 'desc')
+                    .end()
+                .build();
+
+            expect(result).toContain('<attribute name="lastname" alias="ContactLastName"/><order alias="ContactLastName" descending="true"/>');
+        });
+
+        it('should add aggregates in join', () => {
+            const result = entity
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                    .count(undefined, 'ContactCount')
+                    .max('statecode', 'MaxState')
+                    .end()
+                .groupBy('name', { alias: 'Name' })
+                .build();
+
+            expect(result).toContain('<fetch aggregate="true">');
+            expect(result).toContain('<attribute name="contactid" aggregate="count" alias="ContactCount"/><attribute name="statecode" aggregate="max" alias="MaxState"/>');
+        });
+
+        it('should reject aggregates in filter-only links', () => {
+            joinBuilder = entity.whereExists<Contact>('contact', 'accountid', 'parentcustomerid');
+
+            expect(() => joinBuilder.count()).toThrow('Link type "exists" cannot return attributes (contact)');
+        });
+
+        it('should render link settings', () => {
+            const result = entity
+                .join<Contact>('contact', 'accountid', 'parentcustomerid')
+                    .intersect()
+                    .visible(false)
+                    .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid" intersect="true" visible="false"></link-entity></entity></fetch>');
         });
     });
 
@@ -68,7 +245,7 @@ describe('JoinBuilder XML Generation', () => {
                 .end()
                 .build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid"><attribute name="firstname"/><attribute name="lastname"/></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"><attribute name="firstname"/><attribute name="lastname"/></link-entity></entity></fetch>');
         });
 
         it('should select attributes with alias in join', () => {
@@ -80,7 +257,7 @@ describe('JoinBuilder XML Generation', () => {
                 .end()
                 .build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid"><attribute name="firstname" alias="ContactFirstName"/><attribute name="lastname" alias="ContactLastName"/></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"><attribute name="firstname" alias="ContactFirstName"/><attribute name="lastname" alias="ContactLastName"/></link-entity></entity></fetch>');
         });
 
         it('should handle multiple select calls in join', () => {
@@ -93,7 +270,43 @@ describe('JoinBuilder XML Generation', () => {
                 .end()
                 .build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid"><attribute name="firstname"/><attribute name="lastname"/><attribute name="emailaddress1" alias="ContactEmail"/></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"><attribute name="firstname"/><attribute name="lastname"/><attribute name="emailaddress1" alias="ContactEmail"/></link-entity></entity></fetch>');
+        });
+    });
+
+    describe('Join Grouping', () => {
+        it('should group by linked attribute', () => {
+            joinBuilder = entity.join<Contact>('contact', 'accountid', 'parentcustomerid', 'PrimaryContact');
+
+            const result = joinBuilder
+                .groupBy('lastname', { alias: 'ContactLastName' })
+                .end()
+                .count('accountid', 'AccountCount')
+                .build();
+
+            expect(result).toBe('<fetch aggregate="true"><entity name="account"><attribute name="accountid" aggregate="count" alias="AccountCount"/><link-entity name="contact" from="parentcustomerid" to="accountid" alias="PrimaryContact"><attribute name="lastname" groupby="true" alias="ContactLastName"/></link-entity></entity></fetch>');
+        });
+
+        it('should mark selected linked attribute as grouped', () => {
+            joinBuilder = entity.join<Contact>('contact', 'accountid', 'parentcustomerid');
+
+            const result = joinBuilder
+                .selectAs('statecode', 'ContactState')
+                .groupBy('statecode')
+                .end()
+                .build();
+
+            expect(result).toContain('<attribute name="statecode" groupby="true" alias="ContactState"/>');
+            expect(result).toContain('<fetch aggregate="true">');
+        });
+
+        it('should validate linked attributes of aggregate queries', () => {
+            const grouped = () => new TestEntity('account').count('accountid', 'AccountCount').join<Contact>('contact', 'accountid', 'parentcustomerid', 'PrimaryContact');
+
+            expect(() => grouped().groupBy('lastname').end().build())
+                .toThrow('Grouped attribute PrimaryContact.lastname requires an alias');
+            expect(() => grouped().groupBy('lastname', { alias: 'ContactLastName' }).select('firstname').end().build())
+                .toThrow('Attribute PrimaryContact.firstname must be grouped or aggregated in an aggregate query');
         });
     });
 
@@ -106,7 +319,7 @@ describe('JoinBuilder XML Generation', () => {
                 .end()
                 .build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/></filter></link-entity></entity></fetch>');
         });
 
         it('should add multiple where conditions to join', () => {
@@ -118,7 +331,7 @@ describe('JoinBuilder XML Generation', () => {
                 .end()
                 .build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><condition attribute="firstname" operator="like" value="John"/></filter></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><condition attribute="firstname" operator="like" value="John"/></filter></link-entity></entity></fetch>');
         });
 
         it('should handle all filter operators in join', () => {
@@ -151,6 +364,52 @@ describe('JoinBuilder XML Generation', () => {
         });
     });
 
+    describe('Join Operator Validation', () => {
+        it('should enforce operator arity in join', () => {
+            joinBuilder = entity.join<Contact>('contact', 'accountid', 'parentcustomerid');
+
+            const result = joinBuilder
+                .where('contactid', 'eq-userid')
+                .where('firstname', 'begins-with', 'Jo')
+                .end()
+                .build();
+
+            expect(result).toContain('<condition attribute="contactid" operator="eq-userid"/><condition attribute="firstname" operator="begins-with" value="Jo"/>');
+            // @ts-expect-error last-x-days is a date operator
+            expect(() => joinBuilder.where('statecode', 'last-x-days', -1)).toThrow('Operator last-x-days requires a non-negative whole number');
+            expect(() => joinBuilder.where('statecode', 'in', [])).toThrow('Operator in requires an array with at least one value');
+        });
+    });
+
+    describe('Join Column Comparisons', () => {
+        it('should compare columns inside join', () => {
+            joinBuilder = entity.join<Contact>('contact', 'accountid', 'parentcustomerid', 'PrimaryContact');
+
+            const result = joinBuilder
+                .whereColumn('firstname', 'ne', 'lastname')
+                .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid" alias="PrimaryContact"><filter type="and"><condition attribute="firstname" operator="ne" valueof="lastname"/></filter></link-entity></entity></fetch>');
+        });
+    });
+
+    describe('Join Filter Groups', () => {
+        it('should add nested filter group to join', () => {
+            joinBuilder = entity.join<Contact>('contact', 'accountid', 'parentcustomerid');
+
+            const result = joinBuilder
+                .where('statecode', 'eq', 0)
+                .whereGroup('or', group => group
+                    .where('firstname', 'eq', 'John')
+                    .where('lastname', 'eq', 'Doe'))
+                .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><filter type="or"><condition attribute="firstname" operator="eq" value="John"/><condition attribute="lastname" operator="eq" value="Doe"/></filter></filter></link-entity></entity></fetch>');
+        });
+    });
+
     describe('Complex Join Queries', () => {
         it('should combine attributes and filters in join', () => {
             joinBuilder = entity.join<Contact>('contact', 'accountid', 'parentcustomerid', 'PrimaryContact');
@@ -163,7 +422,7 @@ describe('JoinBuilder XML Generation', () => {
                 .end()
                 .build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid" alias="PrimaryContact"><attribute name="firstname"/><attribute name="lastname"/><attribute name="emailaddress1" alias="ContactEmail"/><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><condition attribute="firstname" operator="like" value="John"/></filter></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid" alias="PrimaryContact"><attribute name="firstname"/><attribute name="lastname"/><attribute name="emailaddress1" alias="ContactEmail"/><filter type="and"><condition attribute="statecode" operator="eq" value="0"/><condition attribute="firstname" operator="like" value="John"/></filter></link-entity></entity></fetch>');
         });
 
         it('should combine join with parent entity operations', () => {
@@ -181,7 +440,7 @@ describe('JoinBuilder XML Generation', () => {
             expect(result).toContain('entity name="account"');
             expect(result).toContain('attribute name="name"');
             expect(result).toContain('attribute name="emailaddress1"');
-            expect(result).toContain('link-entity name="contact" from="accountid" to="parentcustomerid"');
+            expect(result).toContain('link-entity name="contact" from="parentcustomerid" to="accountid"');
             expect(result).toContain('attribute name="firstname"');
             expect(result).toContain('attribute name="lastname"');
             expect(result).toContain('condition attribute="statecode" operator="eq" value="0"');
@@ -196,18 +455,18 @@ describe('JoinBuilder XML Generation', () => {
                 .where('statecode', 'eq', 0);
 
             // Second join (nested)
-            const emailJoin = contactJoin.end().join<{subject: string; emailaddress: string; statecode: number}>('email', 'contactid', 'regardingobjectid', 'ContactEmail');
+            const emailJoin = contactJoin.join<{subject: string; emailaddress: string; statecode: number}>('email', 'contactid', 'regardingobjectid', 'ContactEmail');
             emailJoin
                 .select('subject')
                 .selectAs('emailaddress', 'EmailAddress')
                 .where('statecode', 'eq', 0);
 
-            const result = emailJoin.end().build();
+            const result = emailJoin.end().end().build();
 
-            expect(result).toContain('link-entity name="contact" from="accountid" to="parentcustomerid" alias="PrimaryContact"');
+            expect(result).toContain('link-entity name="contact" from="parentcustomerid" to="accountid" alias="PrimaryContact"');
             expect(result).toContain('attribute name="firstname"');
             expect(result).toContain('attribute name="lastname"');
-            expect(result).toContain('link-entity name="email" from="contactid" to="regardingobjectid" alias="ContactEmail"');
+            expect(result).toContain('link-entity name="email" from="regardingobjectid" to="contactid" alias="ContactEmail"');
             expect(result).toContain('attribute name="subject"');
             expect(result).toContain('attribute name="emailaddress" alias="EmailAddress"');
         });
@@ -269,6 +528,7 @@ describe('JoinBuilder XML Generation', () => {
             joinBuilder = entity.join<Contact>('contact', 'accountid', 'parentcustomerid');
             
             const result = joinBuilder
+                // @ts-expect-error contactid is a string
                 .where('contactid', 'gt', 1000)
                 .end()
                 .build();
@@ -280,11 +540,12 @@ describe('JoinBuilder XML Generation', () => {
             joinBuilder = entity.join<Contact>('contact', 'accountid', 'parentcustomerid');
             
             const result = joinBuilder
+                // @ts-expect-error statecode is a number
                 .where('statecode', 'eq', true)
                 .end()
                 .build();
 
-            expect(result).toContain('value="true"');
+            expect(result).toContain('value="1"');
         });
 
         it('should handle zero values in join filters', () => {
@@ -308,7 +569,7 @@ describe('JoinBuilder XML Generation', () => {
                 .end()
                 .build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid"></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"></link-entity></entity></fetch>');
         });
 
         it('should handle join with no operations', () => {
@@ -316,7 +577,7 @@ describe('JoinBuilder XML Generation', () => {
             
             const result = joinBuilder.end().build();
 
-            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="accountid" to="parentcustomerid"></link-entity></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"></link-entity></entity></fetch>');
         });
 
         it('should handle multiple joins with different configurations', () => {
@@ -327,18 +588,18 @@ describe('JoinBuilder XML Generation', () => {
                 .where('statecode', 'eq', 0);
 
             // Second join - outer join with different alias
-            const opportunityJoin = contactJoin.end().join<{name: string; revenue: number; statecode: number}>('opportunity', 'contactid', 'parentcontactid', 'ContactOpportunities', 'outer');
+            const opportunityJoin = contactJoin.join<{name: string; revenue: number; statecode: number}>('opportunity', 'contactid', 'parentcontactid', 'ContactOpportunities', 'outer');
             opportunityJoin
                 .select('name')
                 .selectAs('revenue', 'OpportunityRevenue')
                 .where('statecode', 'eq', 0);
 
-            const result = opportunityJoin.end().build();
+            const result = opportunityJoin.end().end().build();
 
-            expect(result).toContain('link-entity name="contact" from="accountid" to="parentcustomerid" alias="PrimaryContact"');
+            expect(result).toContain('link-entity name="contact" from="parentcustomerid" to="accountid" alias="PrimaryContact"');
             expect(result).toContain('attribute name="firstname"');
             expect(result).toContain('attribute name="lastname"');
-            expect(result).toContain('link-entity name="opportunity" from="contactid" to="parentcontactid" alias="ContactOpportunities" link-type="outer"');
+            expect(result).toContain('link-entity name="opportunity" from="parentcontactid" to="contactid" alias="ContactOpportunities" link-type="outer"');
             expect(result).toContain('attribute name="name"');
             expect(result).toContain('attribute name="revenue" alias="OpportunityRevenue"');
         });
@@ -369,7 +630,7 @@ describe('JoinBuilder XML Generation', () => {
             expect(result).toContain('attribute name="name"');
             expect(result).toContain('attribute name="emailaddress1"');
             expect(result).toContain('attribute name="revenue" aggregate="sum" alias="TotalRevenue"');
-            expect(result).toContain('link-entity name="contact" from="accountid" to="parentcustomerid" alias="PrimaryContact"');
+            expect(result).toContain('link-entity name="contact" from="parentcustomerid" to="accountid" alias="PrimaryContact"');
             expect(result).toContain('attribute name="firstname"');
             expect(result).toContain('attribute name="lastname"');
             expect(result).toContain('attribute name="emailaddress1" alias="ContactEmail"');
@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseEntity } from '../src/entities/base-entity';
+import { MetadataRegistry } from '../src/metadata/metadata-registry';
+import { manyToOne } from '../src/relationships/relationship';
+import { Validator } from '../src/validators';
+import { isOperatorSupported } from '../src/operators';
+import { QueryBuildError, ValidationError } from '../src/errors';
+import { EntityReference, MetadataDefinition } from '../src/types';
+
+interface Account {
+    accountid: string;
+    name: string;
+    revenue: number;
+    numberofemployees: number;
+    donotemail: boolean;
+    createdon: Date;
+    industrycode: number;
+    primarycontactid: EntityReference;
+    ownerid: EntityReference;
+    unknownfield: string;
+}
+
+interface Contact {
+    contactid: string;
+    fullname: string;
+    parentcustomerid: EntityReference;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+const definition: MetadataDefinition = {
+    account: {
+        accountid: 'guid',
+        name: 'string',
+        revenue: 'money',
+        numberofemployees: 'integer',
+        donotemail: 'boolean',
+        createdon: 'datetime',
+        industrycode: 'choice',
+        primarycontactid: 'lookup',
+        ownerid: 'lookup'
+    },
+    contact: {
+        contactid: 'guid',
+        fullname: 'string',
+        parentcustomerid: 'lookup'
+    }
+};
+
+describe('Metadata Validation', () => {
+    const account = () => new AccountEntity('account');
+    // Queries whose attribute types are unknown at compile time, e.g. parsed from FetchXML
+    const untyped = () => new AccountEntity('account') as BaseEntity<any>;
+
+    beforeEach(() => {
+        Validator.useMetadata(new MetadataRegistry(definition));
+    });
+
+    afterEach(() => {
+        Validator.useMetadata(undefined);
+    });
+
+    describe('MetadataRegistry', () => {
+        it('should return attribute types', () => {
+            const registry = new MetadataRegistry(definition);
+
+            expect(registry.hasEntity('account')).toBe(true);
+            expect(registry.hasEntity('lead')).toBe(false);
+            expect(registry.getAttributeType('account', 'revenue')).toBe('money');
+            expect(registry.getAttributeType('account', 'fullname')).toBeUndefined();
+        });
+
+        it('should extend registered entities', () => {
+            const registry = new MetadataRegistry(definition).register({ account: { new_tier: 'integer' } });
+
+            expect(registry.getAttributeType('account', 'new_tier')).toBe('integer');
+            expect(registry.getAttributeType('account', 'name')).toBe('string');
+        });
+
+        it('should load metadata from a JSON file', () => {
+            const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fetchorm-metadata-'));
+            const file = path.join(directory, 'metadata.json');
+
+            try {
+                fs.writeFileSync(file, JSON.stringify(definition));
+                expect(MetadataRegistry.fromFile(file).getAttributeType('contact', 'parentcustomerid')).toBe('lookup');
+            } finally {
+                fs.rmSync(directory, { recursive: true, force: true });
+            }
+        });
+
+        it('should reject invalid metadata', () => {
+            expect(() => MetadataRegistry.fromJson('{')).toThrow(ValidationError);
+            expect(() => MetadataRegistry.fromJson('[]')).toThrow('Metadata JSON must be an object of entities');
+            expect(() => MetadataRegistry.fromJson('{"account":{"name":"text"}}')).toThrow('Invalid attribute type text for account.name');
+        });
+    });
+
+    describe('Operators', () => {
+        it('should restrict operators to matching attribute types', () => {
+            expect(isOperatorSupported('like', 'string')).toBe(true);
+            expect(isOperatorSupported('like', 'money')).toBe(false);
+            expect(isOperatorSupported('last-x-days', 'datetime')).toBe(true);
+            expect(isOperatorSupported('last-x-days', 'string')).toBe(false);
+            expect(isOperatorSupported('eq-userid', 'lookup')).toBe(true);
+            expect(isOperatorSupported('contain-values', 'multichoice')).toBe(true);
+            expect(isOperatorSupported('eq', 'boolean')).toBe(true);
+        });
+    });
+
+    describe('Query validation', () => {
+        it('should accept queries matching the metadata', () => {
+            const xml = account()
+                .select('name', 'revenue')
+                .where('revenue', 'gt', 1000)
+                .where('createdon', 'last-x-days', 30)
+                .where('industrycode', 'in', [1, 2])
+                .where('ownerid', 'eq-userid')
+                .where('primarycontactid', 'eq', '{8A2B1E4C-1B2C-4D5E-8F90-0123456789AB}')
+                .orderBy('name')
+                .join<Contact>('contact', 'primarycontactid', 'contactid', 'c')
+                    .select('fullname')
+                    .where('fullname', 'like', 'A%')
+                    .end()
+                .build();
+
+            expect(xml).toContain('<link-entity name="contact" from="contactid" to="primarycontactid" alias="c">');
+        });
+
+        it('should reject unknown attributes', () => {
+            expect(() => account().select('unknownfield').build()).toThrow(QueryBuildError);
+            expect(() => account().select('unknownfield').build()).toThrow('Unknown attribute unknownfield on entity account');
+            expect(() => account().where('c.unknown', 'eq', 'x').join('contact', 'primarycontactid', 'contactid', 'c').end().build())
+                .toThrow('Unknown attribute unknown on entity contact');
+            expect(() => account().orderBy('unknownfield').build()).toThrow('Unknown attribute unknownfield on entity account');
+        });
+
+        it('should reject operators that do not fit the attribute type', () => {
+            expect(() => untyped().where('revenue', 'like', '%1%').build())
+                .toThrow('Operator like cannot be used on money attribute account.revenue');
+            expect(() => untyped().where('name', 'last-x-days', 3).build())
+                .toThrow('Operator last-x-days cannot be used on string attribute account.name');
+        });
+
+        it('should reject values that do not fit the attribute type', () => {
+            expect(() => untyped().where('revenue', 'gt', 'a lot').build())
+                .toThrow('Value "a lot" is not valid for money attribute account.revenue');
+            expect(() => account().where('industrycode', 'in', [1, 2.5]).build())
+                .toThrow('Value 2.5 is not valid for choice attribute account.industrycode');
+            expect(() => untyped().where('createdon', 'on-or-after', 'yesterday').build())
+                .toThrow('Value "yesterday" is not valid for datetime attribute account.createdon');
+            expect(() => untyped().where('primarycontactid', 'eq', 'contact-1').build())
+                .toThrow('Value "contact-1" is not valid for lookup attribute account.primarycontactid');
+            expect(() => untyped().where('donotemail', 'eq', 'yes').build())
+                .toThrow('Value "yes" is not valid for boolean attribute account.donotemail');
+        });
+
+        it('should accept numeric strings, dates and boolean flags', () => {
+            expect(() => untyped()
+                .where('revenue', 'ge', '1000.50')
+                .where('createdon', 'on-or-after', new Date('2024-01-01'))
+                .where('donotemail', 'eq', 0)
+                .build()
+            ).not.toThrow();
+        });
+
+        it('should validate join columns on the link entity and its parent', () => {
+            expect(() => account().join('contact', 'accountid', 'parentcustomerid').end().build()).not.toThrow();
+            expect(() => account().join('contact', 'accountid', 'ownerid').end().build())
+                .toThrow('Join columns from=ownerid to=accountid do not exist on contact and account');
+            expect(() => account().joinRelation(manyToOne('contact', 'primarycontactid', 'contactid')).end().build())
+                .toThrow('Join columns from=primarycontactid to=contactid do not exist on contact and account');
+        });
+
+        it('should validate column comparisons', () => {
+            expect(() => account().whereColumn('name', 'eq', 'c.fullname').join('contact', 'primarycontactid', 'contactid', 'c').end().build())
+                .not.toThrow();
+            expect(() => account().whereColumn('name', 'eq', 'c.lastname').join('contact', 'primarycontactid', 'contactid', 'c').end().build())
+                .toThrow('Unknown attribute lastname on entity contact');
+        });
+
+        it('should skip entities without metadata', () => {
+            const xml = account().join('lead', 'accountid', 'parentaccountid').select('subject' as never).end().build();
+
+            expect(xml).toContain('<link-entity name="lead" from="parentaccountid" to="accountid">');
+        });
+
+        it('should not validate without a registry', () => {
+            Validator.useMetadata(undefined);
+
+            expect(() => untyped().select('unknownfield').where('revenue', 'like', '%1%').build()).not.toThrow();
+        });
+    });
+});
@@ -0,0 +1,289 @@
+import { ODataBuilder } from '../src/builders/odata-builder';
+import { BaseEntity } from '../src/entities/base-entity';
+import { MetadataRegistry } from '../src/metadata/metadata-registry';
+import { Validator } from '../src/validators';
+import { QueryBuildError } from '../src/errors';
+import { EntityReference, FetchQuery, FilterCondition, LinkEntity } from '../src/types';
+
+interface Account {
+    accountid: string;
+    name: string;
+    revenue: number;
+    statecode: number;
+    createdon: Date;
+    donotemail: boolean;
+    primarycontactid: EntityReference;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+const GUID = '3f2504e0-4f89-11d3-9a0c-0305e82c3301';
+
+describe('ODataBuilder', () => {
+    const build = (query: Partial<FetchQuery>) => new ODataBuilder({ entity: 'account', attributes: [], ...query }).build();
+    const filter = (...conditions: FilterCondition[]) => build({ filters: { type: 'and', conditions } }).$filter;
+
+    describe('Query Options', () => {
+        it('should render select, filter, orderby, top and count', () => {
+            const options = new AccountEntity('account')
+                .select('name', 'revenue')
+                .where('statecode', 'eq', 0)
+                .where('revenue', 'gt', 1000000)
+                .orderBy('revenue', 'desc')
+                .orderBy('name')
+                .top(50)
+                .returnTotalRecordCount()
+                .buildOData();
+
+            expect(options).toEqual({
+                $select: 'name,revenue',
+                $filter: 'statecode eq 0 and revenue gt 1000000',
+                $orderby: 'revenue desc,name asc',
+                $top: 50,
+                $count: true
+            });
+        });
+
+        it('should build an encoded query string', () => {
+            const builder = new ODataBuilder({
+                entity: 'account',
+                attributes: [{ name: 'name' }],
+                filters: { type: 'and', conditions: [{ attribute: 'name', operator: 'eq', value: 'A&B' }] }
+            });
+
+            expect(builder.buildQueryString()).toBe('$select=name&$filter=name%20eq%20\'A%26B\'');
+        });
+
+        it('should reject paging options', () => {
+            expect(() => build({ page: 2, count: 50 })).toThrow(QueryBuildError);
+            expect(() => build({ count: 50 })).toThrow('use the odata.maxpagesize preference instead');
+        });
+
+        it('should reject attribute aliases', () => {
+            expect(() => build({ attributes: [{ name: 'name', alias: 'AccountName' }] }))
+                .toThrow('Alias AccountName of attribute name cannot be expressed in OData');
+        });
+    });
+
+    describe('Filters', () => {
+        it('should write literals by value type', () => {
+            expect(filter(
+                { attribute: 'name', operator: 'eq', value: "O'Brien" },
+                { attribute: 'donotemail', operator: 'ne', value: true },
+                { attribute: 'createdon', operator: 'ge', value: new Date('2024-01-01T00:00:00Z') },
+                { attribute: 'accountid', operator: 'eq', value: `{${GUID}}` }
+            )).toBe(`name eq 'O''Brien' and donotemail ne true and createdon ge 2024-01-01T00:00:00.000Z and accountid eq ${GUID}`);
+        });
+
+        it('should compare lookups by their value property', () => {
+            expect(filter({ attribute: 'primarycontactid', operator: 'eq', value: { id: GUID, logicalName: 'contact' } }))
+                .toBe(`_primarycontactid_value eq ${GUID}`);
+        });
+
+        it('should map null checks and column comparisons', () => {
+            expect(filter(
+                { attribute: 'name', operator: 'not-null' },
+                { attribute: 'revenue', operator: 'null' },
+                { attribute: 'modifiedon', operator: 'gt', valueof: 'createdon' }
+            )).toBe('name ne null and revenue eq null and modifiedon gt createdon');
+        });
+
+        it('should map string operators to functions', () => {
+            expect(filter(
+                { attribute: 'name', operator: 'like', value: '%contoso%' },
+                { attribute: 'name', operator: 'like', value: 'Con%' },
+                { attribute: 'name', operator: 'not-like', value: '%Ltd' },
+                { attribute: 'name', operator: 'like', value: 'Contoso' },
+                { attribute: 'name', operator: 'begins-with', value: 'A' },
+                { attribute: 'name', operator: 'not-end-with', value: 'Z' }
+            )).toBe("contains(name,'contoso') and startswith(name,'Con') and not endswith(name,'Ltd') and name eq 'Contoso' and startswith(name,'A') and not endswith(name,'Z')");
+        });
+
+        it('should reject like patterns with inner wildcards', () => {
+            expect(() => filter({ attribute: 'name', operator: 'like', value: 'Con%so' })).toThrow('Like pattern Con%so cannot be expressed in OData');
+            expect(() => filter({ attribute: 'name', operator: 'like', value: 'C_n%' })).toThrow(QueryBuildError);
+        });
+
+        it('should map operators to Dataverse query functions', () => {
+            expect(filter({ attribute: 'createdon', operator: 'last-x-days', value: 7 }))
+                .toBe("Microsoft.Dynamics.CRM.LastXDays(PropertyName='createdon',PropertyValue=7)");
+            expect(filter({ attribute: 'createdon', operator: 'today' }))
+                .toBe("Microsoft.Dynamics.CRM.Today(PropertyName='createdon')");
+            expect(filter({ attribute: 'statecode', operator: 'in', value: [0, 1] }))
+                .toBe("Microsoft.Dynamics.CRM.In(PropertyName='statecode',PropertyValues=['0','1'])");
+            expect(filter({ attribute: 'revenue', operator: 'not-between', value: [10, 20] }))
+                .toBe("Microsoft.Dynamics.CRM.NotBetween(PropertyName='revenue',PropertyValues=['10','20'])");
+            expect(filter({ attribute: 'createdon', operator: 'on', value: new Date('2024-03-01T12:00:00Z') }))
+                .toBe("Microsoft.Dynamics.CRM.On(PropertyName='createdon',PropertyValue='2024-03-01')");
+            expect(filter({ attribute: 'createdon', operator: 'in-fiscal-period-and-year', value: [3, 2024] }))
+                .toBe("Microsoft.Dynamics.CRM.InFiscalPeriodAndYear(PropertyName='createdon',PropertyValue1=3,PropertyValue2=2024)");
+            expect(filter({ attribute: 'ownerid', operator: 'eq-userid' }))
+                .toBe("Microsoft.Dynamics.CRM.EqualUserId(PropertyName='ownerid')");
+            expect(filter({ attribute: 'accountid', operator: 'eq-or-under', value: GUID }))
+                .toBe(`Microsoft.Dynamics.CRM.UnderOrEqual(PropertyName='accountid',PropertyValue='${GUID}')`);
+        });
+
+        it('should group nested filters with parentheses', () => {
+            const options = new AccountEntity('account')
+                .where('statecode', 'eq', 0)
+                .whereGroup('or', group => group
+                    .where('name', 'begins-with', 'A')
+                    .where('revenue', 'gt', 100))
+                .buildOData();
+
+            expect(options.$filter).toBe("statecode eq 0 and (startswith(name,'A') or revenue gt 100)");
+        });
+
+        it('should filter on expanded link entities through their navigation property', () => {
+            const options = new AccountEntity('account')
+                .join<{ fullname: string }>('contact', 'primarycontactid', 'contactid', 'primarycontactid', 'outer')
+                    .select('fullname')
+                    .end()
+                .where('primarycontactid.fullname', 'eq', 'Jane')
+                .orderBy('primarycontactid.fullname' as any)
+                .buildOData();
+
+            expect(options.$filter).toBe("primarycontactid/fullname eq 'Jane'");
+            expect(options.$orderby).toBe('primarycontactid/fullname asc');
+        });
+    });
+
+    describe('Link Entities', () => {
+        const contacts = (linkType: LinkEntity['linkType'], conditions: FilterCondition[] = []): LinkEntity => ({
+            name: 'contact',
+            from: 'parentcustomerid',
+            to: 'accountid',
+            alias: 'contact_customer_accounts',
+            linkType,
+            attributes: [],
+            filters: conditions.length > 0 ? { type: 'and', conditions } : undefined
+        });
+
+        it('should expand outer links with nested options', () => {
+            const options = build({
+                attributes: [{ name: 'name' }],
+                links: [{
+                    ...contacts('outer', [{ attribute: 'statecode', operator: 'eq', value: 0 }]),
+                    attributes: [{ name: 'fullname' }],
+                    orders: [{ attribute: 'fullname', order: 'asc' }],
+                    links: [{ name: 'systemuser', from: 'owninguser', to: 'systemuserid', alias: 'owninguser', linkType: 'outer', attributes: [{ name: 'fullname' }] }]
+                }]
+            });
+
+            expect(options.$expand).toBe('contact_customer_accounts($select=fullname;$filter=statecode eq 0;$orderby=fullname asc;$expand=owninguser($select=fullname))');
+        });
+
+        it('should render filter links as lambda expressions', () => {
+            expect(build({ links: [contacts('any', [{ attribute: 'statecode', operator: 'eq', value: 0 }])] }).$filter)
+                .toBe('contact_customer_accounts/any(x1:x1/statecode eq 0)');
+            expect(build({ links: [contacts('exists')] }).$filter).toBe('contact_customer_accounts/any()');
+            expect(build({ links: [contacts('not any', [{ attribute: 'fullname', operator: 'like', value: 'A%' }])] }).$filter)
+                .toBe("not contact_customer_accounts/any(x1:startswith(x1/fullname,'A'))");
+            expect(build({ links: [contacts('all', [{ attribute: 'statecode', operator: 'eq', value: 0 }])] }).$filter)
+                .toBe('contact_customer_accounts/all(x1:x1/statecode eq 0)');
+        });
+
+        it('should combine lambda expressions with the filter', () => {
+            const options = build({
+                filters: {
+                    type: 'or',
+                    conditions: [
+                        { attribute: 'name', operator: 'eq', value: 'A' },
+                        { attribute: 'name', operator: 'eq', value: 'B' }
+                    ]
+                },
+                links: [contacts('any')]
+            });
+
+            expect(options.$filter).toBe("(name eq 'A' or name eq 'B') and contact_customer_accounts/any()");
+        });
+
+        it('should render links placed in filter groups inside the group', () => {
+            const options = build({
+                filters: {
+                    type: 'or',
+                    conditions: [{ attribute: 'name', operator: 'eq', value: 'A' }],
+                    links: [contacts('any', [{ attribute: 'statecode', operator: 'eq', value: 0 }])]
+                }
+            });
+
+            expect(options.$filter).toBe("name eq 'A' or contact_customer_accounts/any(x1:x1/statecode eq 0)");
+        });
+
+        it('should reject inner links and links without alias', () => {
+            expect(() => build({ links: [contacts(undefined)] }))
+                .toThrow('Link type inner of contact, use an outer link to expand it or any to filter by it cannot be expressed in OData');
+            expect(() => build({ links: [{ ...contacts('outer'), alias: undefined }] }))
+                .toThrow('Link entity contact without alias naming its navigation property');
+            expect(() => build({ links: [contacts('matchfirstrowusingcrossapply')] })).toThrow(QueryBuildError);
+        });
+
+        it('should reject query functions inside lambda expressions', () => {
+            expect(() => build({ links: [contacts('any', [{ attribute: 'createdon', operator: 'today' }])] }))
+                .toThrow('Operator today on a link entity cannot be expressed in OData');
+        });
+    });
+
+    describe('Aggregates', () => {
+        it('should render aggregates and groupings as $apply', () => {
+            const options = new AccountEntity('account')
+                .groupBy('statecode')
+                .sum('revenue', 'total')
+                .count(undefined, 'accounts')
+                .where('revenue', 'gt', 0)
+                .orderByAlias('total', 'desc')
+                .buildOData();
+
+            expect(options).toEqual({
+                $apply: 'filter(revenue gt 0)/groupby((statecode),aggregate(revenue with sum as total,$count as accounts))',
+                $orderby: 'total desc'
+            });
+        });
+
+        it('should render distinct queries as groupby', () => {
+            const options = new AccountEntity('account').select('name').distinct().buildOData();
+
+            expect(options).toEqual({ $apply: 'groupby((name))' });
+        });
+
+        it('should reject aggregates OData cannot express', () => {
+            expect(() => build({ aggregate: true, attributes: [{ name: 'revenue', aggregate: 'sum' }] }))
+                .toThrow('Aggregate sum of revenue without alias cannot be expressed in OData');
+            expect(() => build({ aggregate: true, attributes: [{ name: 'name', aggregate: 'countcolumn', alias: 'names' }] }))
+                .toThrow('Aggregate countcolumn cannot be expressed in OData');
+            expect(() => build({ aggregate: true, attributes: [{ name: 'createdon', groupby: true, dategrouping: 'year', alias: 'year' }] }))
+                .toThrow('Date grouping of attribute createdon cannot be expressed in OData');
+        });
+    });
+
+    describe('Metadata', () => {
+        beforeEach(() => {
+            Validator.useMetadata(new MetadataRegistry({
+                account: { name: 'string', revenue: 'money', accountnumber: 'string', primarycontactid: 'lookup', createdon: 'datetime' }
+            }));
+        });
+
+        afterEach(() => {
+            Validator.useMetadata(undefined);
+        });
+
+        it('should use attribute types for property names and literals', () => {
+            const options = build({
+                attributes: [{ name: 'name' }, { name: 'primarycontactid' }],
+                filters: {
+                    type: 'and',
+                    conditions: [
+                        { attribute: 'primarycontactid', operator: 'eq', value: GUID },
+                        { attribute: 'accountnumber', operator: 'eq', value: GUID },
+                        { attribute: 'revenue', operator: 'gt', value: '1000' }
+                    ]
+                }
+            });
+
+            expect(options.$select).toBe('name,_primarycontactid_value');
+            expect(options.$filter).toBe(`_primarycontactid_value eq ${GUID} and accountnumber eq '${GUID}' and revenue gt 1000`);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+import { PageIterator, FetchPage } from '../src/paging/page-iterator';
+import { BaseEntity } from '../src/entities/base-entity';
+import { FetchQuery } from '../src/types';
+import { QueryBuildError, ValidationError } from '../src/errors';
+
+interface Account {
+    name: string;
+    accountid: string;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+const cookieAnnotation = (pageNumber: number, cookie: string): string =>
+    `<cookie pagenumber="${pageNumber}" pagingcookie="${encodeURIComponent(encodeURIComponent(cookie))}" istracking="False" />`;
+
+const page = (names: string[], next?: { pageNumber: number; cookie: string }): FetchPage<Account> => ({
+    value: names.map((name, index) => ({ name, accountid: `${name}-${index}` })),
+    '@Microsoft.Dynamics.CRM.morerecords': next !== undefined,
+    ...(next ? { '@Microsoft.Dynamics.CRM.fetchxmlpagingcookie': cookieAnnotation(next.pageNumber, next.cookie) } : {})
+});
+
+const collect = async <R>(iterable: AsyncIterable<R>): Promise<R[]> => {
+    const items: R[] = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+};
+
+describe('PageIterator', () => {
+    const query: FetchQuery = { entity: 'account', attributes: [{ name: 'name' }], count: 2 };
+
+    describe('Paging Cookie Annotation', () => {
+        it('should decode the page number and the double encoded cookie', () => {
+            const annotation = '<cookie pagenumber="2" pagingcookie="%253ccookie%2520page%253d%25221%2522%253e%253caccountid%2520last%253d%2522%257bA1%257d%2522%2520first%253d%2522%257bB2%257d%2522%2520%252f%253e%253c%252fcookie%253e" istracking="False" />';
+
+            expect(PageIterator.parsePagingCookie(annotation)).toEqual({
+                pageNumber: 2,
+                pagingCookie: '<cookie page="1"><accountid last="{A1}" first="{B2}" /></cookie>'
+            });
+        });
+
+        it('should reject invalid annotations', () => {
+            expect(() => PageIterator.parsePagingCookie('<cookie istracking="False" />')).toThrow(QueryBuildError);
+            expect(() => PageIterator.parsePagingCookie('not xml')).toThrow(QueryBuildError);
+        });
+    });
+
+    describe('Iteration', () => {
+        it('should yield the records of all pages following the paging cookie', async () => {
+            const responses = [
+                page(['A', 'B'], { pageNumber: 2, cookie: '<cookie page="1"><accountid last="{B}" /></cookie>' }),
+                page(['C', 'D'], { pageNumber: 3, cookie: '<cookie page="2"><accountid last="{D}" /></cookie>' }),
+                page(['E'])
+            ];
+            const requests: string[] = [];
+
+            const records = await collect(new PageIterator<Account>(query, async (fetchXml, pageNumber) => {
+                requests.push(fetchXml);
+                return responses[pageNumber - 1];
+            }));
+
+            expect(records.map(record => record.name)).toEqual(['A', 'B', 'C', 'D', 'E']);
+            expect(requests).toEqual([
+                '<fetch page="1" count="2"><entity name="account"><attribute name="name"/></entity></fetch>',
+                '<fetch page="2" count="2" paging-cookie="&lt;cookie page=&quot;1&quot;&gt;&lt;accountid last=&quot;{B}&quot; /&gt;&lt;/cookie&gt;"><entity name="account"><attribute name="name"/></entity></fetch>',
+                '<fetch page="3" count="2" paging-cookie="&lt;cookie page=&quot;2&quot;&gt;&lt;accountid last=&quot;{D}&quot; /&gt;&lt;/cookie&gt;"><entity name="account"><attribute name="name"/></entity></fetch>'
+            ]);
+        });
+
+        it('should fall back to the next page number without a paging cookie', async () => {
+            const pages: number[] = [];
+
+            const records = await collect(new PageIterator<Account>(query, async (_, pageNumber) => {
+                pages.push(pageNumber);
+                return pageNumber < 3
+                    ? { value: [{ name: `P${pageNumber}`, accountid: '' }], '@Microsoft.Dynamics.CRM.morerecords': true }
+                    : { value: [] };
+            }));
+
+            expect(pages).toEqual([1, 2, 3]);
+            expect(records.map(record => record.name)).toEqual(['P1', 'P2']);
+        });
+
+        it('should yield whole pages and expose the total record count', async () => {
+            const iterator = new PageIterator<Account>({ ...query, returnTotalRecordCount: true }, async fetchXml => {
+                expect(fetchXml).toContain('returntotalrecordcount="true"');
+                return { ...page(['A', 'B']), '@Microsoft.Dynamics.CRM.totalrecordcount': 2 };
+            });
+
+            const pages = await collect(iterator.pages());
+
+            expect(pages.map(records => records.length)).toEqual([2]);
+            expect(iterator.totalRecordCount).toBe(2);
+        });
+
+        it('should stop when the executor fails', async () => {
+            const iterator = new PageIterator<Account>(query, async () => {
+                throw new Error('Request failed');
+            });
+
+            await expect(collect(iterator)).rejects.toThrow('Request failed');
+        });
+
+        it('should reject queries with top', () => {
+            expect(() => new PageIterator({ ...query, top: 10 }, async () => page([]))).toThrow(ValidationError);
+        });
+    });
+
+    describe('BaseEntity Integration', () => {
+        it('should paginate from the builder without changing it', async () => {
+            const account = new AccountEntity('account').select('name').page(1, 2);
+            const responses = [
+                page(['A', 'B'], { pageNumber: 2, cookie: '<cookie page="1"/>' }),
+                page(['C'])
+            ];
+
+            const records = await collect(account.paginate<Account>(async (_, pageNumber) => responses[pageNumber - 1]));
+
+            expect(records.map(record => record.name)).toEqual(['A', 'B', 'C']);
+            expect(account.build()).toBe('<fetch page="1" count="2"><entity name="account"><attribute name="name"/></entity></fetch>');
+        });
+    });
+});
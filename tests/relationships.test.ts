@@ -0,0 +1,136 @@
+import { BaseEntity } from '../src/entities/base-entity';
+import { manyToMany, manyToOne, oneToMany } from '../src/relationships/relationship';
+import { ValidationError } from '../src/errors';
+import { EntityReference } from '../src/types';
+
+interface Account {
+    accountid: string;
+    name: string;
+    primarycontactid: EntityReference;
+}
+
+interface Contact {
+    contactid: string;
+    fullname: string;
+    parentcustomerid: EntityReference;
+}
+
+interface Lead {
+    leadid: string;
+    subject: string;
+}
+
+interface SystemUser {
+    systemuserid: string;
+    fullname: string;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+
+    relationships = {
+        primarycontactid: manyToOne<Contact>('contact', 'contactid', 'primarycontactid'),
+        contact_customer_accounts: oneToMany<Contact>('contact', 'parentcustomerid', 'accountid'),
+        accountleads_association: manyToMany<Lead>('lead', 'accountleads', 'accountid', 'leadid')
+    };
+}
+
+describe('Relationships', () => {
+    let account: AccountEntity;
+
+    beforeEach(() => {
+        account = new AccountEntity('account');
+    });
+
+    describe('Factories', () => {
+        it('should describe relationships in link-entity terms', () => {
+            expect(manyToOne('contact', 'contactid', 'primarycontactid'))
+                .toEqual({ entity: 'contact', from: 'contactid', to: 'primarycontactid', collection: false });
+            expect(oneToMany('contact', 'parentcustomerid', 'accountid'))
+                .toEqual({ entity: 'contact', from: 'parentcustomerid', to: 'accountid', collection: true });
+            expect(manyToMany('lead', 'accountleads', 'accountid', 'leadid')).toEqual({
+                entity: 'lead',
+                from: 'leadid',
+                to: 'leadid',
+                collection: true,
+                intersect: { entity: 'accountleads', from: 'accountid', to: 'accountid' }
+            });
+        });
+    });
+
+    describe('joinRelation', () => {
+        it('should join a one-to-many relationship with its name as alias', () => {
+            const result = account
+                .select('name')
+                .joinRelation('contact_customer_accounts')
+                    .select('fullname')
+                    .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><attribute name="name"/><link-entity name="contact" from="parentcustomerid" to="accountid" alias="contact_customer_accounts"><attribute name="fullname"/></link-entity></entity></fetch>');
+        });
+
+        it('should join a many-to-one relationship with a custom alias and link type', () => {
+            const result = account
+                .joinRelation('primarycontactid', 'PrimaryContact', 'outer')
+                    .select('fullname')
+                    .end()
+                .where('PrimaryContact.fullname', 'not-null')
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition entityname="PrimaryContact" attribute="fullname" operator="not-null"/></filter><link-entity name="contact" from="contactid" to="primarycontactid" alias="PrimaryContact" link-type="outer"><attribute name="fullname"/></link-entity></entity></fetch>');
+        });
+
+        it('should join a many-to-many relationship through the intersect entity', () => {
+            const result = account
+                .joinRelation('accountleads_association')
+                    .select('subject')
+                    .end()
+                .build();
+
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="accountleads" from="accountid" to="accountid" intersect="true" visible="false"><link-entity name="lead" from="leadid" to="leadid" alias="accountleads_association"><attribute name="subject"/></link-entity></link-entity></entity></fetch>');
+        });
+
+        it('should keep outer many-to-many joins outer on both levels', () => {
+            const result = account.joinRelation('accountleads_association', 'Leads', 'outer').end().build();
+
+            expect(result).toContain('<link-entity name="accountleads" from="accountid" to="accountid" link-type="outer" intersect="true" visible="false"><link-entity name="lead" from="leadid" to="leadid" alias="Leads" link-type="outer">');
+        });
+
+        it('should join relationship definitions', () => {
+            const owner = manyToOne<SystemUser>('systemuser', 'systemuserid', 'owninguser');
+
+            const result = account
+                .joinRelation(owner, 'Owner')
+                    .select('fullname')
+                    .end()
+                .joinRelation('contact_customer_accounts', 'Contacts')
+                    .joinRelation(owner, 'ContactOwner')
+                        .select('fullname')
+                        .end()
+                    .end()
+                .build();
+
+            expect(result).toContain('<link-entity name="systemuser" from="systemuserid" to="owninguser" alias="Owner"><attribute name="fullname"/></link-entity>');
+            expect(result).toContain('<link-entity name="contact" from="parentcustomerid" to="accountid" alias="Contacts"><link-entity name="systemuser" from="systemuserid" to="owninguser" alias="ContactOwner"><attribute name="fullname"/></link-entity></link-entity>');
+        });
+
+        it('should reject unknown relationships', () => {
+            expect(() => (account as BaseEntity<Account>).joinRelation('account_parent_account' as never)).toThrow(ValidationError);
+            expect(() => (account as BaseEntity<Account>).joinRelation('toString' as never)).toThrow('Unknown relationship toString on entity account');
+        });
+
+        it('should type the related entity', () => {
+            const typeChecks = (): void => {
+                account.joinRelation('contact_customer_accounts').select('fullname');
+                account.joinRelation('accountleads_association').where('subject', 'like', 'A%');
+                // @ts-expect-error fullname is not an attribute of lead
+                account.joinRelation('accountleads_association').select('fullname');
+                // @ts-expect-error unknown relationship
+                account.joinRelation('contact_leads');
+            };
+
+            expect(typeChecks).toBeInstanceOf(Function);
+        });
+    });
+});
@@ -0,0 +1,178 @@
+import { ResultMapper } from '../src/mappers/result-mapper';
+import { BaseEntity } from '../src/entities/base-entity';
+import { DataverseClient } from '../src/client/dataverse-client';
+import { FetchQuery, EntityReference, HttpTransport } from '../src/types';
+
+interface Account {
+    name: string;
+    revenue: number;
+    accountid: string;
+    primarycontactid: EntityReference;
+    statecode: number;
+}
+
+interface Contact {
+    fullname: string;
+    parentcustomerid: EntityReference;
+    ownerid: string;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+const FORMATTED = '@OData.Community.Display.V1.FormattedValue';
+const LOOKUP = '@Microsoft.Dynamics.CRM.lookuplogicalname';
+
+describe('ResultMapper', () => {
+    describe('Root Attributes', () => {
+        it('should map lookups, formatted values and aliases', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [{ name: 'name' }, { name: 'revenue' }, { name: 'primarycontactid' }, { name: 'statecode', alias: 'State' }]
+            };
+
+            const [record] = new ResultMapper(query).map([{
+                '@odata.etag': 'W/"123"',
+                'name': 'Contoso',
+                'revenue': 1000,
+                [`revenue${FORMATTED}`]: '$1,000.00',
+                '_primarycontactid_value': '0c2d...',
+                [`_primarycontactid_value${FORMATTED}`]: 'Jane Doe',
+                [`_primarycontactid_value${LOOKUP}`]: 'contact',
+                '_primarycontactid_value@Microsoft.Dynamics.CRM.associatednavigationproperty': 'primarycontactid',
+                'State': 0,
+                [`State${FORMATTED}`]: 'Active',
+                'accountid': 'a1'
+            }]);
+
+            expect(record).toEqual({
+                name: 'Contoso',
+                revenue: 1000,
+                primarycontactid: { id: '0c2d...', logicalName: 'contact', name: 'Jane Doe' },
+                State: 0,
+                accountid: 'a1',
+                $formatted: { revenue: '$1,000.00', State: 'Active' }
+            });
+        });
+
+        it('should set selected attributes without value to null', () => {
+            const query: FetchQuery = { entity: 'account', attributes: [{ name: 'name' }, { name: 'primarycontactid' }] };
+
+            expect(new ResultMapper(query).mapRecord({ name: 'Contoso' })).toEqual({ name: 'Contoso', primarycontactid: null });
+        });
+
+        it('should keep null lookups as null', () => {
+            const query: FetchQuery = { entity: 'account', attributes: [{ name: 'primarycontactid' }] };
+
+            expect(new ResultMapper(query).mapRecord({
+                '_primarycontactid_value': null,
+                [`_primarycontactid_value${LOOKUP}`]: 'contact'
+            })).toEqual({ primarycontactid: null });
+        });
+
+        it('should map aggregates by alias', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [{ name: 'revenue', alias: 'TotalRevenue', aggregate: 'sum' }, { name: 'accountid', alias: 'Total', aggregate: 'count' }]
+            } as FetchQuery;
+
+            expect(new ResultMapper(query).mapRecord({ TotalRevenue: 5000, [`TotalRevenue${FORMATTED}`]: '$5,000.00', Total: 3 })).toEqual({
+                TotalRevenue: 5000,
+                Total: 3,
+                $formatted: { TotalRevenue: '$5,000.00' }
+            });
+        });
+    });
+
+    describe('Link Entities', () => {
+        const query: FetchQuery = {
+            entity: 'account',
+            attributes: [{ name: 'name' }],
+            links: [{
+                name: 'contact',
+                from: 'accountid',
+                to: 'parentcustomerid',
+                alias: 'Contacts',
+                attributes: [{ name: 'fullname' }, { name: 'parentcustomerid' }, { name: 'emailaddress1', alias: 'ContactEmail' }],
+                links: [{
+                    name: 'systemuser',
+                    from: 'ownerid',
+                    to: 'systemuserid',
+                    alias: 'Owner',
+                    attributes: [{ name: 'fullname' }]
+                }]
+            }]
+        };
+
+        it('should nest joined columns by link alias', () => {
+            const record = new ResultMapper(query).mapRecord({
+                'name': 'Contoso',
+                'Contacts.fullname': 'Jane Doe',
+                'Contacts.parentcustomerid': 'a1',
+                [`Contacts.parentcustomerid${FORMATTED}`]: 'Contoso',
+                [`Contacts.parentcustomerid${LOOKUP}`]: 'account',
+                'ContactEmail': 'jane@contoso.com',
+                'Owner.fullname': 'Admin',
+                [`Owner.fullname${FORMATTED}`]: 'Admin'
+            });
+
+            expect(record).toEqual({
+                name: 'Contoso',
+                Contacts: {
+                    fullname: 'Jane Doe',
+                    parentcustomerid: { id: 'a1', logicalName: 'account', name: 'Contoso' },
+                    ContactEmail: 'jane@contoso.com',
+                    Owner: { fullname: 'Admin', $formatted: { fullname: 'Admin' } }
+                }
+            });
+        });
+
+        it('should fill null values for outer joins without a match', () => {
+            expect(new ResultMapper(query).mapRecord({ name: 'Contoso' })).toEqual({
+                name: 'Contoso',
+                Contacts: { fullname: null, parentcustomerid: null, ContactEmail: null, Owner: { fullname: null } }
+            });
+        });
+
+        it('should group columns of unaliased links by their generated prefix', () => {
+            const unaliased: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                links: [{ name: 'contact', from: 'accountid', to: 'parentcustomerid', attributes: [{ name: 'fullname' }] }]
+            };
+
+            expect(new ResultMapper(unaliased).mapRecord({ 'contact1.fullname': 'Jane' })).toEqual({ contact1: { fullname: 'Jane' } });
+        });
+    });
+
+    describe('BaseEntity Execution', () => {
+        it('should return mapped records from execute()', async () => {
+            const transport: HttpTransport = {
+                send: async () => ({
+                    status: 200,
+                    headers: {},
+                    body: JSON.stringify({
+                        value: [{
+                            'name': 'Contoso',
+                            'Contacts.fullname': 'Jane Doe',
+                            '_primarycontactid_value': 'c1',
+                            [`_primarycontactid_value${LOOKUP}`]: 'contact'
+                        }]
+                    })
+                })
+            };
+
+            const [account] = await new AccountEntity('account')
+                .withClient(new DataverseClient({ url: 'https://org.crm.dynamics.com', transport }))
+                .select('name', 'primarycontactid')
+                .join<Contact>('contact', 'accountid', 'parentcustomerid', 'Contacts')
+                    .select('fullname')
+                    .end()
+                .execute<Account & { Contacts: Pick<Contact, 'fullname'> }>();
+
+            expect(account.primarycontactid).toEqual({ id: 'c1', logicalName: 'contact' });
+            expect(account.Contacts.fullname).toBe('Jane Doe');
+        });
+    });
+});
@@ -0,0 +1,281 @@
+import { SqlBuilder } from '../src/builders/sql-builder';
+import { BaseEntity } from '../src/entities/base-entity';
+import { manyToOne, oneToMany } from '../src/relationships/relationship';
+import { QueryBuildError } from '../src/errors';
+import { EntityReference, FetchQuery, FilterCondition, LinkEntity } from '../src/types';
+
+interface Account {
+    accountid: string;
+    name: string;
+    revenue: number;
+    statecode: number;
+    createdon: Date;
+    primarycontactid: EntityReference;
+}
+
+interface Contact {
+    contactid: string;
+    fullname: string;
+    statecode: number;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+const GUID = '3f2504e0-4f89-11d3-9a0c-0305e82c3301';
+
+describe('SqlBuilder', () => {
+    const build = (query: Partial<FetchQuery>) => new SqlBuilder({ entity: 'account', attributes: [], ...query }).build();
+    const where = (...conditions: FilterCondition[]) => {
+        const { sql, parameters } = build({ filters: { type: 'and', conditions } });
+        return { where: sql.split('\n').find(line => line.startsWith('WHERE '))!.slice(6), parameters };
+    };
+
+    describe('Statements', () => {
+        it('should render select, where and order by with parameters', () => {
+            const query = new AccountEntity('account')
+                .select('name', 'revenue')
+                .where('statecode', 'eq', 0)
+                .where('name', 'like', 'Contoso%')
+                .orderBy('revenue', 'desc')
+                .top(50)
+                .buildSql();
+
+            expect(query.sql).toBe([
+                'SELECT TOP 50 [account].[name], [account].[revenue]',
+                'FROM [account] AS [account]',
+                'WHERE [account].[statecode] = @p0 AND [account].[name] LIKE @p1',
+                'ORDER BY [account].[revenue] DESC'
+            ].join('\n'));
+            expect(query.parameters).toEqual({ p0: 0, p1: 'Contoso%' });
+        });
+
+        it('should select all columns without attributes', () => {
+            expect(build({ distinct: true }).sql).toBe('SELECT DISTINCT [account].*\nFROM [account] AS [account]');
+        });
+
+        it('should page with OFFSET-FETCH', () => {
+            expect(build({ attributes: [{ name: 'name' }], page: 3, count: 50 }).sql).toBe([
+                'SELECT [account].[name]',
+                'FROM [account] AS [account]',
+                'ORDER BY [account].[accountid] ASC',
+                'OFFSET 100 ROWS FETCH NEXT 50 ROWS ONLY'
+            ].join('\n'));
+
+            expect(new AccountEntity('account').orderBy('name').page(1, 10).buildSql().sql)
+                .toContain('ORDER BY [account].[name] ASC\nOFFSET 0 ROWS FETCH NEXT 10 ROWS ONLY');
+        });
+
+        it('should reject constructs without T-SQL equivalent', () => {
+            expect(() => build({ pagingCookie: '<cookie/>' })).toThrow('Paging cookies cannot be expressed in T-SQL');
+            expect(() => build({ returnTotalRecordCount: true })).toThrow(QueryBuildError);
+            expect(() => where({ attribute: 'createdon', operator: 'this-fiscal-year' })).toThrow('Operator this-fiscal-year cannot be expressed in T-SQL');
+            expect(() => where({ attribute: 'ownerid', operator: 'eq-userid' })).toThrow(QueryBuildError);
+        });
+    });
+
+    describe('Conditions', () => {
+        it('should pass values as parameters', () => {
+            const result = where(
+                { attribute: 'name', operator: 'eq', value: "O'Brien; DROP TABLE account" },
+                { attribute: 'primarycontactid', operator: 'eq', value: { id: `{${GUID}}`, logicalName: 'contact' } },
+                { attribute: 'createdon', operator: 'ge', value: new Date('2024-01-01T00:00:00Z') }
+            );
+
+            expect(result.where).toBe('[account].[name] = @p0 AND [account].[primarycontactid] = @p1 AND [account].[createdon] >= @p2');
+            expect(result.parameters).toEqual({ p0: "O'Brien; DROP TABLE account", p1: GUID, p2: new Date('2024-01-01T00:00:00Z') });
+        });
+
+        it('should map list, null, string and column operators', () => {
+            const result = where(
+                { attribute: 'statecode', operator: 'in', value: [0, 1] },
+                { attribute: 'revenue', operator: 'not-between', value: [10, 20] },
+                { attribute: 'name', operator: 'not-null' },
+                { attribute: 'name', operator: 'begins-with', value: '50%_off' },
+                { attribute: 'name', operator: 'not-end-with', value: 'Ltd' },
+                { attribute: 'modifiedon', operator: 'gt', valueof: 'createdon' }
+            );
+
+            expect(result.where).toBe([
+                '[account].[statecode] IN (@p0, @p1)',
+                '[account].[revenue] NOT BETWEEN @p2 AND @p3',
+                '[account].[name] IS NOT NULL',
+                '[account].[name] LIKE @p4',
+                '[account].[name] NOT LIKE @p5',
+                '[account].[modifiedon] > [account].[createdon]'
+            ].join(' AND '));
+            expect(result.parameters).toEqual({ p0: 0, p1: 1, p2: 10, p3: 20, p4: '50[%][_]off%', p5: '%Ltd' });
+        });
+
+        it('should translate relative dates to DATEADD', () => {
+            expect(where({ attribute: 'createdon', operator: 'last-x-days', value: 7 }))
+                .toEqual({ where: '([account].[createdon] >= DATEADD(day, -@p0, CAST(GETUTCDATE() AS date)) AND [account].[createdon] <= GETUTCDATE())', parameters: { p0: 7 } });
+            expect(where({ attribute: 'createdon', operator: 'olderthan-x-hours', value: 2 }).where)
+                .toBe('[account].[createdon] < DATEADD(hour, -@p0, GETUTCDATE())');
+            expect(where({ attribute: 'createdon', operator: 'today' }).where)
+                .toBe('([account].[createdon] >= CAST(GETUTCDATE() AS date) AND [account].[createdon] < DATEADD(day, 1, CAST(GETUTCDATE() AS date)))');
+            expect(where({ attribute: 'createdon', operator: 'last-month' }).where)
+                .toBe('([account].[createdon] >= DATEADD(month, DATEDIFF(month, 0, GETUTCDATE()) - 1, 0) AND [account].[createdon] < DATEADD(month, DATEDIFF(month, 0, GETUTCDATE()), 0))');
+            expect(where({ attribute: 'createdon', operator: 'this-week' }).where)
+                .toBe('([account].[createdon] >= DATEADD(day, (DATEDIFF(day, -1, GETUTCDATE()) / 7) * 7, -1) AND [account].[createdon] < DATEADD(day, (DATEDIFF(day, -1, GETUTCDATE()) / 7 + 1) * 7, -1))');
+            expect(where({ attribute: 'createdon', operator: 'next-x-weeks', value: 2 }).where)
+                .toBe('([account].[createdon] >= GETUTCDATE() AND [account].[createdon] < DATEADD(week, @p0, DATEADD(day, 1, CAST(GETUTCDATE() AS date))))');
+            expect(where({ attribute: 'createdon', operator: 'on', value: '2024-03-01' }).where)
+                .toBe('CAST([account].[createdon] AS date) = CAST(@p0 AS date)');
+        });
+
+        it('should parenthesize nested groups', () => {
+            const query = new AccountEntity('account')
+                .where('statecode', 'eq', 0)
+                .whereGroup('or', group => group
+                    .where('name', 'eq', 'A')
+                    .where('name', 'eq', 'B'))
+                .buildSql();
+
+            expect(query.sql).toContain('WHERE [account].[statecode] = @p0 AND ([account].[name] = @p1 OR [account].[name] = @p2)');
+        });
+    });
+
+    describe('Joins', () => {
+        const contacts = (linkType: LinkEntity['linkType'], conditions: FilterCondition[] = []): LinkEntity => ({
+            name: 'contact',
+            from: 'parentcustomerid',
+            to: 'accountid',
+            alias: 'Contacts',
+            linkType,
+            attributes: [],
+            filters: conditions.length > 0 ? { type: 'and', conditions } : undefined
+        });
+
+        it('should join inner and outer links with their filters', () => {
+            const query = build({
+                attributes: [{ name: 'name' }],
+                filters: { type: 'and', conditions: [{ attribute: 'statecode', operator: 'eq', value: 0 }] },
+                links: [
+                    { ...contacts(undefined, [{ attribute: 'statecode', operator: 'eq', value: 1 }]), attributes: [{ name: 'fullname' }, { name: 'emailaddress1', alias: 'Email' }] },
+                    { name: 'systemuser', from: 'systemuserid', to: 'owninguser', linkType: 'outer', attributes: [], orders: [{ attribute: 'fullname', order: 'asc' }] }
+                ]
+            });
+
+            expect(query.sql).toBe([
+                'SELECT [account].[name], [Contacts].[fullname] AS [Contacts.fullname], [Contacts].[emailaddress1] AS [Email]',
+                'FROM [account] AS [account]',
+                'INNER JOIN [contact] AS [Contacts] ON [Contacts].[parentcustomerid] = [account].[accountid] AND [Contacts].[statecode] = @p0',
+                'LEFT OUTER JOIN [systemuser] AS [systemuser1] ON [systemuser1].[systemuserid] = [account].[owninguser]',
+                'WHERE [account].[statecode] = @p1',
+                'ORDER BY [systemuser1].[fullname] ASC'
+            ].join('\n'));
+            expect(query.parameters).toEqual({ p0: 1, p1: 0 });
+        });
+
+        it('should reference link aliases in conditions and orders', () => {
+            const query = new AccountEntity('account')
+                .join<Contact>('contact', 'primarycontactid', 'contactid', 'Contact', 'outer')
+                    .end()
+                .where('Contact.fullname', 'eq', 'Jane')
+                .orderBy('Contact.fullname' as any, 'desc')
+                .buildSql();
+
+            expect(query.sql).toContain('LEFT OUTER JOIN [contact] AS [Contact] ON [Contact].[contactid] = [account].[primarycontactid]\n');
+            expect(query.sql).toContain('WHERE [Contact].[fullname] = @p0');
+            expect(query.sql).toContain('ORDER BY [Contact].[fullname] DESC');
+        });
+
+        it('should join on the same columns with join() and joinRelation()', () => {
+            const joined = new AccountEntity('account').join<Contact>('contact', 'accountid', 'parentcustomerid', 'Contacts').end().buildSql();
+            const related = new AccountEntity('account').joinRelation(oneToMany<Contact>('contact', 'parentcustomerid', 'accountid'), 'Contacts').end().buildSql();
+            const lookup = new AccountEntity('account').joinRelation(manyToOne<Contact>('contact', 'contactid', 'primarycontactid'), 'Contact').end().buildSql();
+            const exists = new AccountEntity('account').whereExists<Contact>('contact', 'accountid', 'parentcustomerid', 'Contacts').end().buildSql();
+
+            expect(joined.sql).toBe([
+                'SELECT [account].*',
+                'FROM [account] AS [account]',
+                'INNER JOIN [contact] AS [Contacts] ON [Contacts].[parentcustomerid] = [account].[accountid]'
+            ].join('\n'));
+            expect(related.sql).toBe(joined.sql);
+            expect(lookup.sql).toContain('INNER JOIN [contact] AS [Contact] ON [Contact].[contactid] = [account].[primarycontactid]');
+            expect(exists.sql).toContain('WHERE EXISTS (SELECT 1 FROM [contact] AS [Contacts] WHERE [Contacts].[parentcustomerid] = [account].[accountid])');
+        });
+
+        it('should select all columns of links with all-attributes', () => {
+            expect(build({ attributes: [{ name: 'name' }], links: [{ ...contacts('outer'), allAttributes: true }] }).sql)
+                .toContain('SELECT [account].[name], [Contacts].*\nFROM');
+        });
+
+        it('should render filter links as EXISTS subqueries', () => {
+            const condition = { attribute: 'statecode', operator: 'eq' as const, value: 0 };
+
+            expect(build({ links: [contacts('any', [condition])] }).sql)
+                .toContain('WHERE EXISTS (SELECT 1 FROM [contact] AS [Contacts] WHERE [Contacts].[parentcustomerid] = [account].[accountid] AND [Contacts].[statecode] = @p0)');
+            expect(build({ links: [contacts('not any')] }).sql)
+                .toContain('WHERE NOT EXISTS (SELECT 1 FROM [contact] AS [Contacts] WHERE [Contacts].[parentcustomerid] = [account].[accountid])');
+            expect(build({ links: [contacts('all', [condition])] }).sql)
+                .toContain('WHERE NOT EXISTS (SELECT 1 FROM [contact] AS [Contacts] WHERE [Contacts].[parentcustomerid] = [account].[accountid] AND NOT ([Contacts].[statecode] = @p0))');
+            expect(build({ links: [contacts('not all', [condition])] }).sql)
+                .toContain('WHERE EXISTS (SELECT 1 FROM [contact] AS [Contacts] WHERE [Contacts].[parentcustomerid] = [account].[accountid] AND NOT ([Contacts].[statecode] = @p0))');
+        });
+
+        it('should combine EXISTS subqueries with or filters', () => {
+            const query = build({
+                filters: {
+                    type: 'or',
+                    conditions: [
+                        { attribute: 'name', operator: 'eq', value: 'A' },
+                        { attribute: 'name', operator: 'eq', value: 'B' }
+                    ]
+                },
+                links: [contacts('exists')]
+            });
+
+            expect(query.sql).toContain('WHERE ([account].[name] = @p0 OR [account].[name] = @p1) AND EXISTS (');
+        });
+
+        it('should render links placed in filter groups inside the group', () => {
+            const query = build({
+                filters: {
+                    type: 'and',
+                    conditions: [
+                        { attribute: 'statecode', operator: 'eq', value: 0 },
+                        {
+                            type: 'or',
+                            conditions: [{ attribute: 'name', operator: 'eq', value: 'A' }],
+                            links: [contacts('not any')]
+                        }
+                    ]
+                }
+            });
+
+            expect(query.sql).toContain('WHERE [account].[statecode] = @p0 AND ([account].[name] = @p1 OR NOT EXISTS (SELECT 1 FROM [contact] AS [Contacts] WHERE [Contacts].[parentcustomerid] = [account].[accountid]))');
+        });
+
+        it('should reject link types without T-SQL equivalent', () => {
+            expect(() => build({ links: [contacts('matchfirstrowusingcrossapply')] }))
+                .toThrow('Link type matchfirstrowusingcrossapply cannot be expressed in T-SQL');
+        });
+    });
+
+    describe('Aggregates', () => {
+        it('should render GROUP BY with aggregates', () => {
+            const query = new AccountEntity('account')
+                .groupBy('statecode', { alias: 'state' })
+                .groupBy('createdon', { alias: 'year', dateGrouping: 'year' })
+                .sum('revenue', 'total')
+                .count(undefined, 'accounts')
+                .orderByAlias('total', 'desc')
+                .buildSql();
+
+            expect(query.sql).toBe([
+                'SELECT [account].[statecode] AS [state], DATEPART(year, [account].[createdon]) AS [year], SUM([account].[revenue]) AS [total], COUNT(*) AS [accounts]',
+                'FROM [account] AS [account]',
+                'GROUP BY [account].[statecode], DATEPART(year, [account].[createdon])',
+                'ORDER BY [total] DESC'
+            ].join('\n'));
+        });
+
+        it('should reject fiscal date grouping', () => {
+            expect(() => build({ aggregate: true, attributes: [{ name: 'createdon', groupby: true, dategrouping: 'fiscal-year', alias: 'fy' }] }))
+                .toThrow('Date grouping fiscal-year cannot be expressed in T-SQL');
+        });
+    });
+});
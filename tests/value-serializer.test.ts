@@ -0,0 +1,178 @@
+import { BaseEntity } from '../src/entities/base-entity';
+import { FetchXMLParser } from '../src/parsers/fetchxml-parser';
+import { ValueSerializer } from '../src/serializers/value-serializer';
+import { MetadataRegistry } from '../src/metadata/metadata-registry';
+import { Validator } from '../src/validators';
+import { QueryBuildError, ValidationError } from '../src/errors';
+import { EntityReference, SerializationContext } from '../src/types';
+
+interface Account {
+    accountid: string;
+    accountnumber: string;
+    revenue: number;
+    numberofemployees: number;
+    donotemail: boolean;
+    createdon: Date;
+    industrycode: number;
+    primarycontactid: EntityReference;
+}
+
+enum IndustryCode {
+    Accounting = 1,
+    Consulting = 3
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+const context = (overrides: Partial<SerializationContext> = {}): SerializationContext => ({
+    entityName: 'account',
+    attribute: 'name',
+    operator: 'eq',
+    ...overrides
+});
+
+describe('ValueSerializer', () => {
+    const account = () => new AccountEntity('account');
+
+    afterEach(() => {
+        ValueSerializer.clear();
+        ValueSerializer.useTimeZone();
+        Validator.useMetadata(undefined);
+    });
+
+    describe('Built-in conversion', () => {
+        it('should serialize dates as ISO 8601 in UTC', () => {
+            const date = new Date(Date.UTC(2024, 0, 2, 13, 45, 30));
+
+            expect(ValueSerializer.serialize(date, context({ operator: 'gt' })).value).toBe('2024-01-02T13:45:30.000Z');
+            expect(() => ValueSerializer.serialize(new Date('not a date'), context())).toThrow('Invalid date for account.name');
+        });
+
+        it('should serialize the calendar date of the time zone for date-only operators', () => {
+            // Midnight in Berlin is the previous day in UTC
+            const date = new Date('2024-01-14T23:00:00.000Z');
+            ValueSerializer.useTimeZone('Europe/Berlin');
+
+            expect(ValueSerializer.serialize(date, context({ operator: 'on' })).value).toBe('2024-01-15');
+            expect(ValueSerializer.serialize(date, context({ operator: 'on-or-before' })).value).toBe('2024-01-15');
+            expect(ValueSerializer.serialize(date, context({ operator: 'on-or-after' })).value).toBe('2024-01-15');
+            expect(account().where('createdon', 'on', date).build()).toContain('value="2024-01-15"');
+
+            ValueSerializer.useTimeZone('UTC');
+            expect(ValueSerializer.serialize(date, context({ operator: 'on' })).value).toBe('2024-01-14');
+            expect(() => ValueSerializer.useTimeZone('Mars/Olympus')).toThrow('Invalid time zone Mars/Olympus');
+        });
+
+        it('should serialize booleans as 0 and 1', () => {
+            expect(ValueSerializer.serialize(true, context()).value).toBe('1');
+            expect(ValueSerializer.serialize(false, context()).value).toBe('0');
+        });
+
+        it('should serialize numbers without exponent notation', () => {
+            expect(ValueSerializer.serialize(1500.25, context()).value).toBe('1500.25');
+            expect(ValueSerializer.serialize(0.0000001, context()).value).toBe('0.0000001');
+            expect(ValueSerializer.serialize(1e21, context()).value).toBe('1000000000000000000000');
+            expect(() => ValueSerializer.serialize(NaN, context())).toThrow('Invalid number NaN for account.name');
+        });
+
+        it('should round money and require whole numbers for choices', () => {
+            expect(ValueSerializer.serialize(10.123456, context({ type: 'money' })).value).toBe('10.1235');
+            expect(ValueSerializer.serialize(10.123456, context({ type: 'decimal' })).value).toBe('10.123456');
+            expect(ValueSerializer.serialize(IndustryCode.Consulting, context({ type: 'choice' })).value).toBe('3');
+            expect(() => ValueSerializer.serialize(1.5, context({ type: 'choice' }))).toThrow(ValidationError);
+        });
+
+        it('should validate GUIDs and remove braces', () => {
+            expect(ValueSerializer.serialize('{8A2B1E4C-1B2C-4D5E-8F90-0123456789AB}', context({ type: 'guid' })).value)
+                .toBe('8A2B1E4C-1B2C-4D5E-8F90-0123456789AB');
+            expect(() => ValueSerializer.serialize('{8A2B1E4C-1B2C-4D5E-8F90-0123456789AB', context({ type: 'lookup' })))
+                .toThrow('Invalid GUID {8A2B1E4C-1B2C-4D5E-8F90-0123456789AB for account.name');
+            expect(ValueSerializer.serialize('{not a guid}', context()).value).toBe('{not a guid}');
+        });
+
+        it('should serialize entity references with uiname and uitype', () => {
+            expect(ValueSerializer.serialize({ id: '{8a2b1e4c-1b2c-4d5e-8f90-0123456789ab}', logicalName: 'contact', name: 'Jane Doe' }, context()))
+                .toEqual({ value: '8a2b1e4c-1b2c-4d5e-8f90-0123456789ab', uiname: 'Jane Doe', uitype: 'contact' });
+            expect(ValueSerializer.serialize({ id: '8a2b1e4c-1b2c-4d5e-8f90-0123456789ab' }, context()))
+                .toEqual({ value: '8a2b1e4c-1b2c-4d5e-8f90-0123456789ab' });
+            expect(() => ValueSerializer.serialize({ id: 'contact-1' }, context())).toThrow('Invalid GUID contact-1');
+        });
+
+        it('should reject other objects', () => {
+            expect(() => ValueSerializer.serialize({ value: 1 }, context())).toThrow('Cannot serialize value {"value":1} for account.name');
+        });
+    });
+
+    describe('Custom serializers', () => {
+        it('should use a registered serializer for the attribute', () => {
+            ValueSerializer.register('account', 'accountnumber', (value: string) => value.toUpperCase());
+
+            expect(account().where('accountnumber', 'eq', 'abc-1').build()).toContain('value="ABC-1"');
+        });
+
+        it('should pass the condition context', () => {
+            const serializer = jest.fn(() => ({ value: 'x', uiname: 'X' }));
+            ValueSerializer.register('contact', 'fullname', serializer);
+
+            const xml = account()
+                .join<{ fullname: string }>('contact', 'primarycontactid', 'contactid', 'c')
+                    .where('fullname', 'eq', 'a')
+                    .end()
+                .build();
+
+            expect(xml).toContain('<condition attribute="fullname" operator="eq" value="x" uiname="X"/>');
+            expect(serializer).toHaveBeenCalledWith('a', { entityName: 'contact', attribute: 'fullname', operator: 'eq', type: undefined });
+        });
+
+        it('should stop using a serializer once unregistered', () => {
+            ValueSerializer.register('account', 'accountnumber', () => 'custom');
+            ValueSerializer.unregister('account', 'accountnumber');
+
+            expect(account().where('accountnumber', 'eq', 'abc').build()).toContain('value="abc"');
+        });
+    });
+
+    describe('FetchXML output', () => {
+        it('should serialize condition values', () => {
+            const xml = account()
+                .where('createdon', 'on-or-after', new Date(2024, 0, 2))
+                .where('createdon', 'lt', new Date(Date.UTC(2024, 1, 1, 8)))
+                .where('donotemail', 'eq', false)
+                .where('industrycode', 'in', [IndustryCode.Accounting, IndustryCode.Consulting])
+                .build();
+
+            expect(xml).toContain('<condition attribute="createdon" operator="on-or-after" value="2024-01-02"/>');
+            expect(xml).toContain('<condition attribute="createdon" operator="lt" value="2024-02-01T08:00:00.000Z"/>');
+            expect(xml).toContain('<condition attribute="donotemail" operator="eq" value="0"/>');
+            expect(xml).toContain('<condition attribute="industrycode" operator="in"><value>1</value><value>3</value></condition>');
+        });
+
+        it('should render lookups with uiname and uitype', () => {
+            const contact: EntityReference = { id: '8a2b1e4c-1b2c-4d5e-8f90-0123456789ab', logicalName: 'contact', name: 'Jane "JD" Doe' };
+            const xml = account().where('primarycontactid', 'eq', contact).build();
+
+            expect(xml).toContain('<condition attribute="primarycontactid" operator="eq" value="8a2b1e4c-1b2c-4d5e-8f90-0123456789ab" uiname="Jane &quot;JD&quot; Doe" uitype="contact"/>');
+            expect(new FetchXMLParser(xml).parse().filters!.conditions[0]).toEqual({ attribute: 'primarycontactid', operator: 'eq', value: contact });
+        });
+
+        it('should use metadata types of the condition entity', () => {
+            Validator.useMetadata(new MetadataRegistry({ account: { revenue: 'money', accountid: 'guid' } }));
+
+            const xml = account()
+                .where('revenue', 'gt', 99.99999)
+                .where('accountid', 'eq', '{8A2B1E4C-1B2C-4D5E-8F90-0123456789AB}')
+                .build();
+
+            expect(xml).toContain('value="100"');
+            expect(xml).toContain('value="8A2B1E4C-1B2C-4D5E-8F90-0123456789AB"');
+        });
+
+        it('should report invalid values as build errors', () => {
+            expect(() => account().where('createdon', 'on', new Date('invalid')).build()).toThrow(QueryBuildError);
+            expect(() => account().where('createdon', 'on', new Date('invalid')).build())
+                .toThrow('Failed to build FetchXML: Invalid date for account.createdon');
+        });
+    });
+});
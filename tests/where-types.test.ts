@@ -0,0 +1,119 @@
+import { BaseEntity } from '../src/entities/base-entity';
+import { EntityReference } from '../src/types';
+
+interface Account {
+    name: string;
+    revenue: number;
+    donotemail: boolean;
+    createdon: Date;
+    lastusedincampaign: Date | null;
+    primarycontactid: EntityReference;
+    new_categories: number[];
+}
+
+interface Contact {
+    fullname: string;
+    birthdate: Date;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+/**
+ * Compile-time checks of where(). The calls are type-checked by ts-jest;
+ * every @ts-expect-error fails the suite when the call stops being an error.
+ */
+const typeChecks = (account: AccountEntity): void => {
+    // Values follow the attribute type
+    account.where('name', 'eq', 'Contoso');
+    account.where('revenue', 'gt', 1000);
+    account.where('donotemail', 'eq', false);
+    account.where('createdon', 'on-or-after', new Date());
+    account.where('createdon', 'on-or-after', '2024-01-01');
+    account.where('primarycontactid', 'eq', { id: '8a2b1e4c-1b2c-4d5e-8f90-0123456789ab', logicalName: 'contact' });
+    account.where('primarycontactid', 'eq', '8a2b1e4c-1b2c-4d5e-8f90-0123456789ab');
+    // @ts-expect-error revenue is a number
+    account.where('revenue', 'gt', '1000');
+    // @ts-expect-error donotemail is a boolean
+    account.where('donotemail', 'eq', 1);
+    // @ts-expect-error name is a string
+    account.where('name', 'eq', new Date());
+    // @ts-expect-error unknown attribute
+    account.where('fullname', 'eq', 'x');
+
+    // Date operators apply to date attributes only
+    account.where('createdon', 'today');
+    account.where('lastusedincampaign', 'this-month');
+    account.where('createdon', 'in-fiscal-period-and-year', [3, 2024]);
+    // @ts-expect-error name is not a date
+    account.where('name', 'this-month');
+    // @ts-expect-error revenue is not a date
+    account.where('revenue', 'on', new Date());
+    // @ts-expect-error revenue is not a date
+    account.where('revenue', 'last-x-days', 7);
+
+    // Operators without a value
+    account.where('name', 'null');
+    account.where('primarycontactid', 'eq-userid');
+    // @ts-expect-error null takes no value
+    account.where('name', 'null', 'x');
+    // @ts-expect-error today takes no value
+    account.where('createdon', 'today', new Date());
+    // @ts-expect-error eq requires a value
+    account.where('name', 'eq');
+
+    // List and range operators require arrays
+    account.where('revenue', 'in', [1, 2]);
+    account.where('revenue', 'between', [1, 2]);
+    account.where('new_categories', 'contain-values', [1, 2]);
+    // @ts-expect-error in requires an array
+    account.where('revenue', 'in', 1);
+    // @ts-expect-error in requires values of the attribute type
+    account.where('revenue', 'in', ['1']);
+    // @ts-expect-error between requires two values
+    account.where('revenue', 'between', [1]);
+
+    // Counting operators require a number
+    account.where('createdon', 'last-x-days', 7);
+    // @ts-expect-error last-x-days requires a number
+    account.where('createdon', 'last-x-days', '7');
+    // @ts-expect-error last-x-days requires a value
+    account.where('createdon', 'last-x-days');
+
+    // Join builders and link conditions
+    const contact = account.join<Contact>('contact', 'primarycontactid', 'contactid', 'c');
+    contact.where('birthdate', 'last-x-years', 18);
+    contact.where('fullname', 'like', 'A%');
+    account.where(contact, 'birthdate', 'on', new Date());
+    account.where('c.fullname', 'eq', 'anything');
+    // @ts-expect-error fullname is not a date
+    contact.where('fullname', 'last-x-years', 18);
+    // @ts-expect-error fullname is a string
+    contact.where('fullname', 'eq', 1);
+    // @ts-expect-error birthdate requires a date
+    account.where(contact, 'birthdate', 'on', 1);
+
+    // Filter groups
+    account.whereGroup('or', group => group.where('revenue', 'gt', 1).where('createdon', 'today'));
+    // @ts-expect-error revenue is a number
+    account.whereGroup('or', group => group.where('revenue', 'gt', 'x'));
+};
+
+describe('where() typing', () => {
+    it('should type-check conditions by attribute and operator', () => {
+        expect(typeChecks).toBeInstanceOf(Function);
+    });
+
+    it('should build the conditions accepted by the types', () => {
+        const xml = new AccountEntity('account')
+            .where('createdon', 'last-x-days', 7)
+            .where('primarycontactid', 'eq-userid')
+            .where('revenue', 'in', [1, 2])
+            .build();
+
+        expect(xml).toContain('<condition attribute="createdon" operator="last-x-days" value="7"/>');
+        expect(xml).toContain('<condition attribute="primarycontactid" operator="eq-userid"/>');
+        expect(xml).toContain('<condition attribute="revenue" operator="in"><value>1</value><value>2</value></condition>');
+    });
+});
@@ -1,5 +1,6 @@
 import { FetchXMLBuilder } from '../src/builders/xml-builder';
 import { FetchQuery, FilterGroup, FilterCondition, LinkEntity } from '../src/types';
+import { QueryBuildError } from '../src/errors';
 
 describe('FetchXMLBuilder', () => {
     let builder: FetchXMLBuilder;
@@ -104,6 +105,59 @@ describe('FetchXMLBuilder', () => {
         });
     });
 
+    describe('Grouping Generation', () => {
+        it('should generate aggregate fetch with grouped attributes', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [
+                    { name: 'address1_country', alias: 'Country', groupby: true },
+                    { name: 'revenue', aggregate: 'sum', alias: 'TotalRevenue' }
+                ],
+                aggregate: true
+            };
+
+            builder = new FetchXMLBuilder(query);
+            const result = builder.build();
+
+            expect(result).toBe('<fetch aggregate="true"><entity name="account"><attribute name="address1_country" groupby="true" alias="Country"/><attribute name="revenue" aggregate="sum" alias="TotalRevenue"/></entity></fetch>');
+        });
+
+        it('should generate date grouping with user time zone', () => {
+            const query: FetchQuery = {
+                entity: 'opportunity',
+                attributes: [
+                    { name: 'actualclosedate', alias: 'Quarter', groupby: true, dategrouping: 'quarter', usertimezone: true }
+                ],
+                aggregate: true
+            };
+
+            builder = new FetchXMLBuilder(query);
+            const result = builder.build();
+
+            expect(result).toBe('<fetch aggregate="true"><entity name="opportunity"><attribute name="actualclosedate" groupby="true" dategrouping="quarter" usertimezone="true" alias="Quarter"/></entity></fetch>');
+        });
+
+        it('should mark fetch as aggregate when a link entity is grouped', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [{ name: 'accountid', aggregate: 'count', alias: 'AccountCount' }],
+                links: [{
+                    name: 'systemuser',
+                    from: 'systemuserid',
+                    to: 'owninguser',
+                    alias: 'Owner',
+                    attributes: [{ name: 'fullname', alias: 'OwnerName', groupby: true }]
+                }]
+            };
+
+            builder = new FetchXMLBuilder(query);
+            const result = builder.build();
+
+            expect(result).toContain('<fetch aggregate="true">');
+            expect(result).toContain('<attribute name="fullname" groupby="true" alias="OwnerName"/>');
+        });
+    });
+
     describe('Filter Generation', () => {
         it('should generate simple where condition', () => {
             const query: FetchQuery = {
@@ -234,6 +288,124 @@ describe('FetchXMLBuilder', () => {
         });
     });
 
+    describe('Multi-Value Condition Generation', () => {
+        it('should generate value elements for in operator', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                filters: {
+                    type: 'and',
+                    conditions: [
+                        { attribute: 'address1_city', operator: 'in', value: ['Berlin', 'R&D Park'] }
+                    ]
+                }
+            };
+
+            builder = new FetchXMLBuilder(query);
+            const result = builder.build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="address1_city" operator="in"><value>Berlin</value><value>R&amp;D Park</value></condition></filter></entity></fetch>');
+        });
+
+        it('should generate value elements for between operator', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                filters: {
+                    type: 'and',
+                    conditions: [
+                        { attribute: 'revenue', operator: 'between', value: [10, 20] }
+                    ]
+                }
+            };
+
+            builder = new FetchXMLBuilder(query);
+            const result = builder.build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="revenue" operator="between"><value>10</value><value>20</value></condition></filter></entity></fetch>');
+        });
+
+        it('should wrap scalar value of multi-value operator', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                filters: {
+                    type: 'and',
+                    conditions: [
+                        { attribute: 'statecode', operator: 'not-in', value: 2 }
+                    ]
+                }
+            };
+
+            builder = new FetchXMLBuilder(query);
+            const result = builder.build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="statecode" operator="not-in"><value>2</value></condition></filter></entity></fetch>');
+        });
+    });
+
+    describe('Column Comparison Generation', () => {
+        it('should generate valueof instead of value', () => {
+            const query: FetchQuery = {
+                entity: 'opportunity',
+                attributes: [],
+                filters: {
+                    type: 'and',
+                    conditions: [
+                        { attribute: 'actualvalue', operator: 'gt', valueof: 'estimatedvalue' }
+                    ]
+                }
+            };
+
+            builder = new FetchXMLBuilder(query);
+            const result = builder.build();
+
+            expect(result).toBe('<fetch><entity name="opportunity"><filter type="and"><condition attribute="actualvalue" operator="gt" valueof="estimatedvalue"/></filter></entity></fetch>');
+        });
+
+        it('should accept aliases of nested link entities', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                filters: {
+                    type: 'and',
+                    conditions: [
+                        { attribute: 'name', operator: 'eq', valueof: 'owner.fullname' }
+                    ]
+                },
+                links: [{
+                    name: 'contact',
+                    from: 'parentcustomerid',
+                    to: 'accountid',
+                    attributes: [],
+                    links: [{ name: 'systemuser', from: 'systemuserid', to: 'owninguser', alias: 'owner', attributes: [] }]
+                }]
+            };
+
+            builder = new FetchXMLBuilder(query);
+
+            expect(builder.build()).toContain('valueof="owner.fullname"');
+        });
+
+        it('should throw QueryBuildError for unknown aliases', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                filters: {
+                    type: 'and',
+                    conditions: [
+                        { attribute: 'name', operator: 'eq', valueof: 'owner.fullname' }
+                    ]
+                }
+            };
+
+            builder = new FetchXMLBuilder(query);
+
+            expect(() => builder.build()).toThrow(QueryBuildError);
+            expect(() => builder.build()).toThrow('Column comparison references unknown alias: owner');
+        });
+    });
+
     describe('Order Generation', () => {
         it('should generate single order by', () => {
             const query: FetchQuery = {
@@ -278,6 +450,50 @@ describe('FetchXMLBuilder', () => {
         });
     });
 
+    describe('Order Validation', () => {
+        it('should reject orders with both attribute and alias', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [{ name: 'name', alias: 'AccountName' }],
+                orders: [{ attribute: 'name', alias: 'AccountName', order: 'asc' }]
+            };
+
+            builder = new FetchXMLBuilder(query);
+
+            expect(() => builder.build()).toThrow('Order cannot set both attribute and alias');
+        });
+
+        it('should reject orders without attribute and alias', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                orders: [{ order: 'asc' }]
+            };
+
+            builder = new FetchXMLBuilder(query);
+
+            expect(() => builder.build()).toThrow('Order requires an attribute or an alias');
+        });
+
+        it('should accept aliases declared on link entity attributes', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                orders: [{ alias: 'ContactCount', order: 'desc' }],
+                links: [{
+                    name: 'contact',
+                    from: 'parentcustomerid',
+                    to: 'accountid',
+                    attributes: [{ name: 'contactid', aggregate: 'count', alias: 'ContactCount' }]
+                }]
+            };
+
+            builder = new FetchXMLBuilder(query);
+
+            expect(builder.build()).toContain('<order alias="ContactCount" descending="true"/>');
+        });
+    });
+
     describe('Link Entity Generation', () => {
         it('should generate simple link entity', () => {
             const query: FetchQuery = {
@@ -405,6 +621,66 @@ describe('FetchXMLBuilder', () => {
         });
     });
 
+    describe('Extended Link Type Generation', () => {
+        it('should render not any link inside nested link filter', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                links: [{
+                    name: 'contact',
+                    from: 'parentcustomerid',
+                    to: 'accountid',
+                    attributes: [{ name: 'fullname' }],
+                    links: [{ name: 'task', from: 'regardingobjectid', to: 'contactid', linkType: 'not any', attributes: [] }]
+                }]
+            };
+
+            builder = new FetchXMLBuilder(query);
+            const result = builder.build();
+
+            expect(result).toBe('<fetch><entity name="account"><link-entity name="contact" from="parentcustomerid" to="accountid"><attribute name="fullname"/><filter type="and"><link-entity name="task" from="regardingobjectid" to="contactid" link-type="not any"></link-entity></filter></link-entity></entity></fetch>');
+        });
+
+        it('should wrap or filter when adding any link', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                filters: {
+                    type: 'or',
+                    conditions: [
+                        { attribute: 'statecode', operator: 'eq', value: 0 },
+                        { attribute: 'statecode', operator: 'eq', value: 1 }
+                    ]
+                },
+                links: [{ name: 'contact', from: 'parentcustomerid', to: 'accountid', linkType: 'any', attributes: [] }]
+            };
+
+            builder = new FetchXMLBuilder(query);
+            const result = builder.build();
+
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><filter type="or"><condition attribute="statecode" operator="eq" value="0"/><condition attribute="statecode" operator="eq" value="1"/></filter><link-entity name="contact" from="parentcustomerid" to="accountid" link-type="any"></link-entity></filter></entity></fetch>');
+        });
+
+        it('should reject attributes below filter-only links', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                links: [{
+                    name: 'contact',
+                    from: 'parentcustomerid',
+                    to: 'accountid',
+                    linkType: 'in',
+                    attributes: [],
+                    links: [{ name: 'systemuser', from: 'systemuserid', to: 'owninguser', attributes: [{ name: 'fullname' }] }]
+                }]
+            };
+
+            builder = new FetchXMLBuilder(query);
+
+            expect(() => builder.build()).toThrow('Link entity systemuser cannot return attributes because it is part of a filter-only link');
+        });
+    });
+
     describe('Fetch Options', () => {
         it('should generate distinct query', () => {
             const query: FetchQuery = {
@@ -461,6 +737,22 @@ describe('FetchXMLBuilder', () => {
 
             expect(result).toBe('<fetch distinct="true" top="50" page="1" count="100"><entity name="account"></entity></fetch>');
         });
+
+        it('should generate escaped paging cookie and total record count', () => {
+            const query: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                page: 2,
+                count: 5000,
+                pagingCookie: '<cookie page="1"><accountid last="{A1}" first="{B2}" /></cookie>',
+                returnTotalRecordCount: true
+            };
+
+            builder = new FetchXMLBuilder(query);
+            const result = builder.build();
+
+            expect(result).toBe('<fetch page="2" count="5000" paging-cookie="&lt;cookie page=&quot;1&quot;&gt;&lt;accountid last=&quot;{A1}&quot; first=&quot;{B2}&quot; /&gt;&lt;/cookie&gt;" returntotalrecordcount="true"><entity name="account"></entity></fetch>');
+        });
     });
 
     describe('Complex Query Generation', () => {
@@ -692,7 +984,77 @@ describe('FetchXMLBuilder', () => {
             builder = new FetchXMLBuilder(query);
             const result = builder.build();
 
-            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="isactive" operator="eq" value="true"/></filter></entity></fetch>');
+            expect(result).toBe('<fetch><entity name="account"><filter type="and"><condition attribute="isactive" operator="eq" value="1"/></filter></entity></fetch>');
+        });
+    });
+
+    describe('Output Options', () => {
+        const query: FetchQuery = {
+            entity: 'account',
+            distinct: true,
+            top: 10,
+            attributes: [{ name: 'name' }],
+            filters: {
+                type: 'and',
+                conditions: [{ attribute: 'statecode', operator: 'in', value: [0, 1] }]
+            },
+            orders: [{ attribute: 'name', order: 'asc' }],
+            links: [{ name: 'contact', from: 'primarycontactid', to: 'contactid', alias: 'Contact', linkType: 'outer', attributes: [{ name: 'fullname' }] }]
+        };
+
+        it('should pretty-print with two spaces by default', () => {
+            const result = new FetchXMLBuilder(query).build({ pretty: true });
+
+            expect(result).toBe([
+                '<fetch distinct="true" top="10">',
+                '  <entity name="account">',
+                '    <attribute name="name"/>',
+                '    <filter type="and">',
+                '      <condition attribute="statecode" operator="in">',
+                '        <value>0</value>',
+                '        <value>1</value>',
+                '      </condition>',
+                '    </filter>',
+                '    <order attribute="name" descending="false"/>',
+                '    <link-entity name="contact" from="primarycontactid" to="contactid" alias="Contact" link-type="outer">',
+                '      <attribute name="fullname"/>',
+                '    </link-entity>',
+                '  </entity>',
+                '</fetch>'
+            ].join('\n'));
+        });
+
+        it('should use the configured indentation', () => {
+            const simple: FetchQuery = { entity: 'account', attributes: [{ name: 'name' }] };
+
+            expect(new FetchXMLBuilder(simple).build({ pretty: true, indent: 4 }))
+                .toBe('<fetch>\n    <entity name="account">\n        <attribute name="name"/>\n    </entity>\n</fetch>');
+            expect(new FetchXMLBuilder(simple).build({ pretty: true, indent: '\t' }))
+                .toBe('<fetch>\n\t<entity name="account">\n\t\t<attribute name="name"/>\n\t</entity>\n</fetch>');
+        });
+
+        it('should reject invalid indentation', () => {
+            expect(() => new FetchXMLBuilder(query).build({ pretty: true, indent: -1 })).toThrow(QueryBuildError);
+            expect(() => new FetchXMLBuilder(query).build({ pretty: true, indent: 'ab' })).toThrow('Indent must be');
+        });
+
+        it('should sort attributes in canonical output', () => {
+            const result = new FetchXMLBuilder(query).build({ canonical: true });
+
+            expect(result).toContain('<fetch distinct="true" top="10">');
+            expect(result).toContain('<link-entity alias="Contact" from="primarycontactid" link-type="outer" name="contact" to="contactid">');
+            expect(result).toContain('<order attribute="name" descending="false"/>');
+        });
+
+        it('should keep escaped values', () => {
+            const escaped: FetchQuery = {
+                entity: 'account',
+                attributes: [],
+                filters: { type: 'and', conditions: [{ attribute: 'name', operator: 'eq', value: 'A & "B" <C>' }] }
+            };
+
+            expect(new FetchXMLBuilder(escaped).build({ pretty: true, canonical: true }))
+                .toContain('<condition attribute="name" operator="eq" value="A &amp; &quot;B&quot; &lt;C&gt;"/>');
         });
     });
 });
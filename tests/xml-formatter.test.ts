@@ -0,0 +1,57 @@
+import { XmlFormatter } from '../src/builders/xml-formatter';
+import { BaseEntity } from '../src/entities/base-entity';
+import { ValidationError } from '../src/errors';
+
+interface Account {
+    name: string;
+    revenue: number;
+}
+
+class AccountEntity extends BaseEntity<Account> {
+    entityName = 'account';
+}
+
+describe('XmlFormatter', () => {
+    it('should produce identical canonical output for equivalent FetchXML', () => {
+        const formatter = new XmlFormatter({ canonical: true });
+
+        const first = formatter.format(`<fetch top='5' distinct='1' no-lock="false">
+            <entity name='account'>
+                <attribute name='name' />
+                <order descending='0' attribute='name' />
+            </entity>
+        </fetch>`);
+        const second = formatter.format('<fetch distinct="true" top="5"><entity name="account"><attribute name="name"/><order attribute="name" descending="false"/></entity></fetch>');
+
+        expect(first).toBe(second);
+        expect(first).toBe('<fetch distinct="true" top="5"><entity name="account"><attribute name="name"/><order attribute="name" descending="false"/></entity></fetch>');
+    });
+
+    it('should normalize boolean attributes', () => {
+        const result = new XmlFormatter({ canonical: true }).format(
+            '<fetch aggregate="True" returntotalrecordcount="False"><entity name="account"><attribute name="createdon" groupby="0" usertimezone="FALSE"/><link-entity name="accountleads" from="accountid" to="accountid" intersect="1" visible="0"/></entity></fetch>'
+        );
+
+        expect(result).toBe('<fetch aggregate="true"><entity name="account"><attribute name="createdon" usertimezone="false"/><link-entity from="accountid" intersect="true" name="accountleads" to="accountid" visible="false"/></entity></fetch>');
+    });
+
+    it('should keep attribute order and values when not canonical', () => {
+        const result = new XmlFormatter({ pretty: true }).format("<fetch top='5' distinct='1'><entity name='account'/></fetch>");
+
+        expect(result).toBe('<fetch top="5" distinct="1">\n  <entity name="account"/>\n</fetch>');
+    });
+
+    it('should reject invalid indentation', () => {
+        expect(() => new XmlFormatter({ pretty: true, indent: 1.5 })).toThrow(ValidationError);
+    });
+
+    it('should be available from BaseEntity.build', () => {
+        const first = new AccountEntity('account').top(5).distinct().select('name', 'revenue');
+        const second = new AccountEntity('account').select('name', 'revenue').distinct().top(5);
+
+        expect(first.build({ canonical: true, pretty: true })).toBe(second.build({ canonical: true, pretty: true }));
+        expect(first.build({ pretty: true, indent: 1 })).toBe(
+            '<fetch distinct="true" top="5">\n <entity name="account">\n  <attribute name="name"/>\n  <attribute name="revenue"/>\n </entity>\n</fetch>'
+        );
+    });
+});